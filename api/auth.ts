@@ -0,0 +1,41 @@
+/**
+ * Auth API Client
+ * Handles login, signup and token refresh
+ */
+
+import { apiRequest } from './client';
+import type { AuthResponse, LoginRequest, SignupRequest } from './types';
+
+/**
+ * Log in with email and password
+ */
+export async function login(request: LoginRequest): Promise<AuthResponse> {
+  return apiRequest<AuthResponse>('/auth/login', {
+    method: 'POST',
+    body: request,
+    errorMessage: 'Invalid credentials',
+  });
+}
+
+/**
+ * Create a new account, the backend returns a token straight away
+ */
+export async function signup(request: SignupRequest): Promise<AuthResponse> {
+  return apiRequest<AuthResponse>('/auth/signup', {
+    method: 'POST',
+    body: request,
+    errorMessage: 'Could not create account',
+  });
+}
+
+/**
+ * Exchange a still-valid (or just expired) token for a fresh one
+ */
+export async function refreshToken(token: string): Promise<AuthResponse> {
+  return apiRequest<AuthResponse>('/auth/refresh', {
+    method: 'POST',
+    token,
+    errorMessage: 'Session expired',
+    skipAuthRetry: true,
+  });
+}
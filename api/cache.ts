@@ -0,0 +1,164 @@
+/**
+ * Query Cache
+ * Last known responses, kept in memory and persisted to device storage,
+ * so screens can render instantly and revalidate in the background
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ApiError } from './client';
+
+const STORAGE_PREFIX = 'queryCache:';
+
+export interface CacheEntry<T> {
+  data: T;
+  /** Epoch ms of the last successful fetch */
+  updatedAt: number;
+  /** True when served from the cache because the backend could not be reached */
+  stale: boolean;
+}
+
+/**
+ * Cache keys, one per endpoint (and group where the endpoint is per group)
+ */
+export const queryKeys = {
+  currentUser: () => 'users/me',
+  group: (groupId: string) => `groups/${groupId}`,
+  groupTransactions: (groupId: string) => `transactions?groupId=${groupId}`,
+  groupLedger: (groupId: string) => `transactions?groupId=${groupId}&status=executed`, // first unfiltered page
+  groupContributions: (groupId: string) => `transactions?groupId=${groupId}&status=executed&type=deposit,investment,withdrawal`,
+  transactionHistory: () => 'transactions/history/me',
+  transaction: (transactionId: string) => `transactions/${transactionId}`,
+  transactionComments: (transactionId: string) => `transactions/${transactionId}/comments`,
+  transactionRevisions: (transactionId: string) => `transactions/${transactionId}/revisions`,
+  groupHoldings: (groupId: string) => `groups/${groupId}/holdings`,
+  groupPolicy: (groupId: string) => `groups/${groupId}/policy`,
+  groupMembers: (groupId: string) => `groups/${groupId}/members`,
+  groupInvites: (groupId: string) => `groups/${groupId}/invites`,
+  groupJoinRequests: (groupId: string) => `groups/${groupId}/join-requests`,
+  myInvites: () => 'invites/me',
+  myJoinRequests: () => 'join-requests/me',
+  groupReturns: (groupId: string, period: string) => `groups/${groupId}/returns?period=${period}`, // computed client-side
+};
+
+const memory = new Map<string, { data: unknown; updatedAt: number }>();
+const inFlight = new Map<string, Promise<CacheEntry<unknown>>>();
+
+// Dates (e.g. Transaction.createdAt) survive the round trip through storage
+function serialize(value: unknown): string {
+  return JSON.stringify(value, function (key, current) {
+    const original = (this as Record<string, unknown>)[key];
+    return original instanceof Date ? { __date: original.toISOString() } : current;
+  });
+}
+
+function deserialize(text: string): unknown {
+  return JSON.parse(text, (_key, value) =>
+    value && typeof value === 'object' && typeof value.__date === 'string'
+      ? new Date(value.__date)
+      : value
+  );
+}
+
+/**
+ * Read the last known value for a key (memory first, then device storage)
+ */
+export async function getCached<T>(key: string): Promise<CacheEntry<T> | null> {
+  const inMemory = memory.get(key);
+  if (inMemory) {
+    return { data: inMemory.data as T, updatedAt: inMemory.updatedAt, stale: false };
+  }
+
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_PREFIX + key);
+    if (!stored) return null;
+    const parsed = deserialize(stored) as { data: T; updatedAt: number };
+    memory.set(key, parsed);
+    return { data: parsed.data, updatedAt: parsed.updatedAt, stale: false };
+  } catch (error) {
+    console.error(`❌ Error reading cache for ${key}:`, error);
+    return null;
+  }
+}
+
+async function writeCache(key: string, data: unknown, updatedAt: number) {
+  memory.set(key, { data, updatedAt });
+  try {
+    await AsyncStorage.setItem(STORAGE_PREFIX + key, serialize({ data, updatedAt }));
+  } catch (error) {
+    console.error(`❌ Error persisting cache for ${key}:`, error);
+  }
+}
+
+/**
+ * Fetch and cache a query. Concurrent calls for the same key share one request.
+ * When the backend is unreachable the cached value is returned (marked stale) instead of throwing.
+ */
+export function fetchQuery<T>(key: string, fetcher: () => Promise<T>): Promise<CacheEntry<T>> {
+  const pending = inFlight.get(key);
+  if (pending) {
+    return pending as Promise<CacheEntry<T>>;
+  }
+
+  const request = (async (): Promise<CacheEntry<T>> => {
+    try {
+      const data = await fetcher();
+      const updatedAt = Date.now();
+      await writeCache(key, data, updatedAt);
+      return { data, updatedAt, stale: false };
+    } catch (error) {
+      if (error instanceof ApiError && error.isNetworkError) {
+        const cached = await getCached<T>(key);
+        if (cached) {
+          return { ...cached, stale: true };
+        }
+      }
+      throw error;
+    } finally {
+      inFlight.delete(key);
+    }
+  })();
+
+  inFlight.set(key, request);
+  return request;
+}
+
+/**
+ * Stale-while-revalidate: hand over the cached value straight away (if there is one),
+ * then fetch and hand over the fresh value. `fromCache` is true for the first, instant pass.
+ */
+export async function revalidateQuery<T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  onData: (entry: CacheEntry<T>, fromCache: boolean) => void | Promise<void>
+): Promise<void> {
+  const cached = await getCached<T>(key);
+  if (cached) {
+    await onData(cached, true);
+  }
+  await onData(await fetchQuery(key, fetcher), false);
+}
+
+/**
+ * Patch a cached value in place (e.g. from a realtime event) without refetching.
+ * Does nothing when the key has never been fetched.
+ */
+export async function updateCachedQuery<T>(key: string, updater: (data: T) => T): Promise<void> {
+  const cached = await getCached<T>(key);
+  if (!cached) return;
+  await writeCache(key, updater(cached.data), cached.updatedAt);
+}
+
+/**
+ * Drop one key, or everything (on logout or when switching backends)
+ */
+export async function clearQueryCache(key?: string) {
+  if (key) {
+    memory.delete(key);
+    await AsyncStorage.removeItem(STORAGE_PREFIX + key);
+    return;
+  }
+
+  memory.clear();
+  const keys = await AsyncStorage.getAllKeys();
+  await AsyncStorage.multiRemove(keys.filter((storedKey) => storedKey.startsWith(STORAGE_PREFIX)));
+}
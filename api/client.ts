@@ -0,0 +1,152 @@
+/**
+ * API Client
+ * Shared request helper and error type for every backend call
+ * The backend URL is resolved in api/config.ts
+ */
+
+import { getApiBaseUrl } from './config';
+import { reportReachable } from './connectivity';
+
+/**
+ * Error thrown for every failed API call.
+ * `status` is the HTTP status code, or 0 when the backend could not be reached.
+ */
+export class ApiError extends Error {
+  status: number;
+  detail?: string;
+
+  constructor(message: string, status: number, detail?: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.detail = detail;
+  }
+
+  get isNetworkError() {
+    return this.status === 0;
+  }
+}
+
+/**
+ * Called when an authenticated request comes back 401.
+ * Resolves with a fresh token to retry with, or null when the session is gone.
+ */
+export type UnauthorizedHandler = (failedToken: string) => Promise<string | null>;
+
+let unauthorizedHandler: UnauthorizedHandler | null = null;
+
+/**
+ * Register the session owner (AuthContext) that refreshes or ends the session on 401
+ */
+export function setUnauthorizedHandler(handler: UnauthorizedHandler | null) {
+  unauthorizedHandler = handler;
+}
+
+export interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  token?: string | null;
+  body?: unknown;
+  /** Message used when the backend does not send a `detail` */
+  errorMessage?: string;
+  /** Call this backend instead of the configured one (e.g. to ping a saved server) */
+  baseUrl?: string;
+  /** Skip the refresh-and-retry on 401 (used by the refresh call itself) */
+  skipAuthRetry?: boolean;
+  /** Sent as `Idempotency-Key` so a replayed mutation is applied at most once */
+  idempotencyKey?: string;
+}
+
+// The error text of a failed response: `detail` (FastAPI), `message` or `error`, or a plain text body
+function errorDetail(data: unknown): string | undefined {
+  if (typeof data === 'string') {
+    return data || undefined;
+  }
+  if (data && typeof data === 'object') {
+    const body = data as Record<string, unknown>;
+    const text = [body.detail, body.message, body.error].find(
+      (value): value is string => typeof value === 'string' && value !== ''
+    );
+    return text;
+  }
+  return undefined;
+}
+
+/**
+ * Make a request against the backend and return the parsed JSON body
+ */
+export async function apiRequest<T>(path: string, options: RequestOptions = {}): Promise<T> {
+  const {
+    method = 'GET',
+    token,
+    body,
+    errorMessage = 'Request failed',
+    baseUrl,
+    skipAuthRetry,
+    idempotencyKey,
+  } = options;
+  const headers: Record<string, string> = {};
+  if (body !== undefined) {
+    headers['Content-Type'] = 'application/json';
+  }
+  if (token) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+  if (idempotencyKey) {
+    headers['Idempotency-Key'] = idempotencyKey;
+  }
+
+  const url = `${baseUrl ?? (await getApiBaseUrl())}${path}`;
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method,
+      headers,
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+  } catch (error) {
+    console.error(`❌ Network error calling ${method} ${url}:`, error);
+    // Pings against another server (baseUrl) say nothing about the active backend
+    if (!baseUrl) reportReachable(false);
+    throw new ApiError('Network error occurred', 0);
+  }
+  if (!baseUrl) reportReachable(true);
+
+  const text = await response.text();
+  let data: unknown = null;
+  if (text) {
+    try {
+      data = JSON.parse(text);
+    } catch {
+      data = text;
+    }
+  }
+
+  // Expired or revoked token: let the session owner refresh it and retry once
+  if (response.status === 401 && token && !skipAuthRetry && unauthorizedHandler) {
+    const freshToken = await unauthorizedHandler(token);
+    if (freshToken) {
+      return apiRequest<T>(path, { ...options, token: freshToken, skipAuthRetry: true });
+    }
+  }
+
+  if (!response.ok) {
+    const detail = errorDetail(data);
+    throw new ApiError(detail || errorMessage, response.status, detail);
+  }
+
+  return data as T;
+}
+
+/**
+ * Turn anything thrown by an API call into a message that can be shown to the user
+ */
+export function getErrorMessage(error: unknown, fallback = 'Something went wrong'): string {
+  if (error instanceof ApiError) {
+    return error.message;
+  }
+  if (error instanceof Error && error.message) {
+    return error.message;
+  }
+  return fallback;
+}
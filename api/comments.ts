@@ -0,0 +1,129 @@
+/**
+ * Comment API Client
+ * Discussion threads on transaction proposals, with @mentions of ranch members
+ */
+
+import { apiRequest } from './client';
+import {
+  expectArray,
+  expectDate,
+  expectObject,
+  expectString,
+  optionalDate,
+} from './decode';
+
+export interface Comment {
+  commentId: string;
+  transactionId: string;
+  authorId: string;
+  text: string;
+  mentions: string[]; // userIds mentioned with @username
+  createdAt: Date;
+  editedAt?: Date;
+}
+
+/**
+ * Validate a comment payload from the backend
+ */
+export function decodeComment(raw: unknown, path = 'comment'): Comment {
+  const data = expectObject(raw, path);
+  const rawMentions = data.mentions === undefined || data.mentions === null ? [] : data.mentions;
+
+  return {
+    commentId: expectString(data.commentId ?? data.commentID, `${path}.commentId`),
+    transactionId: expectString(data.transactionId ?? data.transactionID, `${path}.transactionId`),
+    authorId: expectString(data.authorId ?? data.userId, `${path}.authorId`),
+    text: expectString(data.text, `${path}.text`),
+    mentions: expectArray(rawMentions, `${path}.mentions`).map((userId, index) =>
+      expectString(userId, `${path}.mentions[${index}]`)
+    ),
+    createdAt: expectDate(data.createdAt, `${path}.createdAt`),
+    editedAt: optionalDate(data.editedAt, `${path}.editedAt`),
+  };
+}
+
+/**
+ * Members mentioned in `text` as @username, resolved to userIds
+ */
+export function extractMentions(text: string, memberProfiles: Record<string, string>): string[] {
+  const mentioned = new Set(
+    Array.from(text.matchAll(/@([\w.-]+)/g), (match) => match[1].toLowerCase())
+  );
+  return Object.entries(memberProfiles)
+    .filter(([, username]) => mentioned.has(username.toLowerCase()))
+    .map(([userId]) => userId);
+}
+
+// Ids come from links and the backend, keep them inside their path segment
+const commentsPath = (transactionId: string) => `/transactions/${encodeURIComponent(transactionId)}/comments`;
+
+/**
+ * Get a transaction's comments, oldest first
+ */
+export async function getComments(transactionId: string, token: string): Promise<Comment[]> {
+  const data = await apiRequest<{ comments?: unknown }>(
+    commentsPath(transactionId),
+    { token, errorMessage: 'Failed to load comments' }
+  );
+  if (data.comments === undefined || data.comments === null) {
+    return [];
+  }
+  return expectArray(data.comments, 'comments')
+    .map((item, index) => decodeComment(item, `comments[${index}]`))
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+/**
+ * Post a comment on a transaction
+ */
+export async function createComment(
+  transactionId: string,
+  text: string,
+  mentions: string[],
+  token: string
+): Promise<Comment> {
+  const data = await apiRequest<{ comment: unknown }>(commentsPath(transactionId), {
+    method: 'POST',
+    token,
+    body: { text, mentions },
+    errorMessage: 'Failed to post comment',
+  });
+  return decodeComment(data.comment);
+}
+
+/**
+ * Edit one of the signed-in user's comments
+ */
+export async function updateComment(
+  transactionId: string,
+  commentId: string,
+  text: string,
+  mentions: string[],
+  token: string
+): Promise<Comment> {
+  const data = await apiRequest<{ comment: unknown }>(
+    `${commentsPath(transactionId)}/${encodeURIComponent(commentId)}`,
+    {
+      method: 'PUT',
+      token,
+      body: { text, mentions },
+      errorMessage: 'Failed to edit comment',
+    }
+  );
+  return decodeComment(data.comment);
+}
+
+/**
+ * Delete one of the signed-in user's comments
+ */
+export async function deleteComment(
+  transactionId: string,
+  commentId: string,
+  token: string
+): Promise<void> {
+  await apiRequest(`${commentsPath(transactionId)}/${encodeURIComponent(commentId)}`, {
+    method: 'DELETE',
+    token,
+    errorMessage: 'Failed to delete comment',
+  });
+}
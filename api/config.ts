@@ -0,0 +1,141 @@
+/**
+ * Backend Configuration
+ * Resolves which backend the app talks to
+ *
+ * Order of precedence:
+ * 1. A backend picked at runtime on the developer screen (saved on device)
+ * 2. EXPO_PUBLIC_API_URL, set per build profile in eas.json or locally in .env
+ * 3. `extra.apiUrl` from the Expo app config
+ * 4. localhost:8080 (10.0.2.2:8080 on the Android emulator)
+ *
+ * Realtime events use EXPO_PUBLIC_REALTIME_URL when set (e.g. the mock event server),
+ * otherwise the same backend over ws:// or wss://
+ */
+
+import Constants from 'expo-constants';
+import { Platform } from 'react-native';
+
+import { getJSON, getItem, removeItem, setItem, setJSON } from '@/utils/storage';
+
+const SELECTED_BACKEND_KEY = 'apiBaseUrl';
+const SAVED_BACKENDS_KEY = 'savedBackends';
+
+export interface SavedBackend {
+  label: string;
+  url: string;
+}
+
+const LOCAL_BACKEND_URL = Platform.select({
+  android: 'http://10.0.2.2:8080',
+  default: 'http://localhost:8080',
+}) as string;
+
+/**
+ * Strip trailing slashes so paths can always be appended with a leading `/`
+ */
+export function normalizeBaseUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '');
+}
+
+/**
+ * The backend this build was configured with, ignoring any runtime override
+ */
+export function getDefaultApiBaseUrl(): string {
+  const fromEnv = process.env.EXPO_PUBLIC_API_URL;
+  const fromConfig = Constants.expoConfig?.extra?.apiUrl;
+  const configured = fromEnv || (typeof fromConfig === 'string' ? fromConfig : '');
+  if (!configured) {
+    return LOCAL_BACKEND_URL;
+  }
+  return reachableFromDevice(configured);
+}
+
+// The Android emulator reaches the host machine through 10.0.2.2, not localhost
+function reachableFromDevice(url: string): string {
+  if (Platform.OS === 'android') {
+    return normalizeBaseUrl(url.replace(/\/\/(localhost|127\.0\.0\.1)(?=[:/]|$)/, '//10.0.2.2'));
+  }
+  return normalizeBaseUrl(url);
+}
+
+let overrideBaseUrl: string | null = null;
+let overrideLoaded: Promise<void> | null = null;
+
+function loadOverride(): Promise<void> {
+  if (!overrideLoaded) {
+    overrideLoaded = getItem(SELECTED_BACKEND_KEY)
+      .then((url) => {
+        overrideBaseUrl = url ? normalizeBaseUrl(url) : null;
+      })
+      .catch((error) => {
+        console.warn('⚠️ Could not read saved backend, using default:', error);
+      });
+  }
+  return overrideLoaded;
+}
+
+/**
+ * The backend every API call goes to right now
+ */
+export async function getApiBaseUrl(): Promise<string> {
+  await loadOverride();
+  return overrideBaseUrl || getDefaultApiBaseUrl();
+}
+
+/**
+ * Base URL for realtime WebSocket connections
+ */
+export async function getRealtimeBaseUrl(): Promise<string> {
+  const fromEnv = process.env.EXPO_PUBLIC_REALTIME_URL;
+  if (fromEnv) {
+    return reachableFromDevice(fromEnv);
+  }
+  return (await getApiBaseUrl()).replace(/^http/, 'ws');
+}
+
+/**
+ * Whether the current backend comes from the developer screen rather than the build
+ */
+export async function isUsingBackendOverride(): Promise<boolean> {
+  await loadOverride();
+  return overrideBaseUrl !== null;
+}
+
+/**
+ * Switch backends at runtime, pass `null` to go back to the build default
+ */
+export async function selectBackend(url: string | null): Promise<void> {
+  await loadOverride();
+  if (url === null) {
+    overrideBaseUrl = null;
+    await removeItem(SELECTED_BACKEND_KEY);
+  } else {
+    overrideBaseUrl = normalizeBaseUrl(url);
+    await setItem(SELECTED_BACKEND_KEY, overrideBaseUrl);
+  }
+  console.log('🔧 Backend switched to:', overrideBaseUrl || getDefaultApiBaseUrl());
+}
+
+/**
+ * Backends saved on the developer screen
+ */
+export async function getSavedBackends(): Promise<SavedBackend[]> {
+  return (await getJSON<SavedBackend[]>(SAVED_BACKENDS_KEY)) || [];
+}
+
+export async function saveBackend(backend: SavedBackend): Promise<SavedBackend[]> {
+  const url = normalizeBaseUrl(backend.url);
+  const saved = (await getSavedBackends()).filter((b) => b.url !== url);
+  const next = [...saved, { label: backend.label.trim() || url, url }];
+  await setJSON(SAVED_BACKENDS_KEY, next);
+  return next;
+}
+
+export async function removeSavedBackend(url: string): Promise<SavedBackend[]> {
+  const next = (await getSavedBackends()).filter((b) => b.url !== url);
+  await setJSON(SAVED_BACKENDS_KEY, next);
+  if (overrideBaseUrl === url) {
+    await selectBackend(null);
+  }
+  return next;
+}
@@ -0,0 +1,37 @@
+/**
+ * Connectivity
+ * Tracks whether the backend was reachable on the most recent request
+ */
+
+type Listener = (offline: boolean) => void;
+
+let offline = false;
+const listeners = new Set<Listener>();
+
+function setOffline(next: boolean) {
+  if (offline === next) return;
+  offline = next;
+  console.log(next ? '📴 Backend unreachable, serving cached data' : '📶 Backend reachable again');
+  listeners.forEach((listener) => listener(next));
+}
+
+/**
+ * Called by apiRequest after every attempt
+ */
+export function reportReachable(reachable: boolean) {
+  setOffline(!reachable);
+}
+
+export function isOffline() {
+  return offline;
+}
+
+/**
+ * Subscribe to online/offline changes, returns the unsubscribe function
+ */
+export function subscribeConnectivity(listener: Listener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,86 @@
+/**
+ * Payload Decoding
+ * Small helpers for validating backend payloads before the UI sees them
+ */
+
+/**
+ * Thrown when a backend payload does not match the shape the app expects.
+ * `path` points at the offending field, e.g. `transactions[2].status`.
+ */
+export class DecodeError extends Error {
+  path: string;
+
+  constructor(message: string, path: string) {
+    super(`Unexpected response from server (${path}: ${message})`);
+    this.name = 'DecodeError';
+    this.path = path;
+  }
+}
+
+export type RawObject = Record<string, unknown>;
+
+export function expectObject(value: unknown, path: string): RawObject {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new DecodeError('expected an object', path);
+  }
+  return value as RawObject;
+}
+
+export function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new DecodeError('expected a list', path);
+  }
+  return value;
+}
+
+export function expectString(value: unknown, path: string): string {
+  if (typeof value !== 'string' || value === '') {
+    throw new DecodeError('expected a string', path);
+  }
+  return value;
+}
+
+export function optionalString(value: unknown, path: string): string | undefined {
+  return value === undefined || value === null ? undefined : expectString(value, path);
+}
+
+/**
+ * Accept numbers and numeric strings (the backend sends amounts as "125.50")
+ */
+export function expectNumber(value: unknown, path: string): number {
+  const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof parsed !== 'number' || !Number.isFinite(parsed)) {
+    throw new DecodeError(`expected a number, got ${JSON.stringify(value)}`, path);
+  }
+  return parsed;
+}
+
+export function optionalNumber(value: unknown, path: string): number | undefined {
+  return value === undefined || value === null ? undefined : expectNumber(value, path);
+}
+
+export function expectDate(value: unknown, path: string): Date {
+  const date = typeof value === 'string' || typeof value === 'number' ? new Date(value) : null;
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new DecodeError(`expected a date, got ${JSON.stringify(value)}`, path);
+  }
+  return date;
+}
+
+export function optionalDate(value: unknown, path: string): Date | undefined {
+  return value === undefined || value === null || value === '' ? undefined : expectDate(value, path);
+}
+
+export function expectOneOf<T extends string>(
+  value: unknown,
+  allowed: readonly T[],
+  path: string
+): T {
+  if (typeof value !== 'string' || !allowed.includes(value as T)) {
+    throw new DecodeError(
+      `expected one of ${allowed.join(', ')}, got ${JSON.stringify(value)}`,
+      path
+    );
+  }
+  return value as T;
+}
@@ -0,0 +1,64 @@
+/**
+ * Ranch Dissolution
+ * Closing a ranch by vote: what each member would be paid out, and the `dissolution`
+ * proposal that sells the holdings, pays everyone out and archives the ranch's ledger
+ */
+
+import type { MemberStake } from './ownership';
+import { createTransaction, type CreateTransactionResponse } from './transactions';
+
+export interface DissolutionPayout {
+  userId: string;
+  share: number; // 0-1 of the ranch
+  amount: number;
+}
+
+/**
+ * Each member's payout if the ranch were dissolved at `totalAssets`, split pro rata
+ * to their stake, largest first. Amounts are whole cents that add up to `totalAssets`,
+ * a ranch nobody has contributed to yet is split evenly.
+ */
+export function previewDissolution(stakes: MemberStake[], totalAssets: number): DissolutionPayout[] {
+  if (stakes.length === 0) return [];
+  const totalShare = stakes.reduce((sum, stake) => sum + stake.share, 0);
+  const shareOf = (stake: MemberStake) => (totalShare > 0 ? stake.share / totalShare : 1 / stakes.length);
+
+  // Round down to the cent, then hand the leftover cents to the largest remainders
+  const cents = Math.max(0, Math.round(totalAssets * 100));
+  const exact = stakes.map((stake) => shareOf(stake) * cents);
+  const floored = exact.map(Math.floor);
+  let leftover = cents - floored.reduce((sum, value) => sum + value, 0);
+  exact
+    .map((value, index) => ({ index, remainder: value - floored[index] }))
+    .sort((a, b) => b.remainder - a.remainder)
+    .forEach(({ index }) => {
+      if (leftover <= 0) return;
+      floored[index] += 1;
+      leftover -= 1;
+    });
+
+  return stakes
+    .map((stake, index) => ({ userId: stake.userId, share: shareOf(stake), amount: floored[index] / 100 }))
+    .sort((a, b) => b.amount - a.amount);
+}
+
+/**
+ * Propose dissolving a ranch worth `totalAssets` (owner only). Once executed the backend
+ * sells every holding, pays the members out pro rata and archives the ranch read-only.
+ */
+export async function proposeDissolution(
+  groupId: string,
+  totalAssets: number,
+  description: string,
+  token: string
+): Promise<CreateTransactionResponse> {
+  return createTransaction(
+    {
+      groupId,
+      amount: totalAssets,
+      description,
+      transactionType: 'dissolution',
+    },
+    token
+  );
+}
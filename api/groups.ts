@@ -0,0 +1,119 @@
+/**
+ * Group API Client
+ * Handles ranches (groups), their members, deposits and holdings
+ */
+
+import { apiRequest } from './client';
+import type {
+  CreateGroupRequest,
+  DepositResponse,
+  Group,
+  GroupMember,
+  GroupMembersResponse,
+  GroupResponse,
+  HoldingsResponse,
+  StockHolding,
+} from './types';
+
+/**
+ * Create a new group owned by the signed-in user
+ */
+export async function createGroup(
+  request: CreateGroupRequest,
+  token: string
+): Promise<Group> {
+  return apiRequest<Group>('/groups', {
+    method: 'POST',
+    token,
+    body: request,
+    errorMessage: 'Failed to create ranch',
+  });
+}
+
+/**
+ * Get a group's balances and member ids
+ */
+export async function getGroup(groupId: string, token: string): Promise<Group> {
+  const data = await apiRequest<GroupResponse>(`/groups/${groupId}`, {
+    token,
+    errorMessage: 'Failed to fetch ranch',
+  });
+  return data.group;
+}
+
+/**
+ * Get the usernames of a group's members
+ */
+export async function getGroupMembers(groupId: string, token: string): Promise<GroupMember[]> {
+  const data = await apiRequest<GroupMembersResponse>(`/groups/${groupId}/members`, {
+    token,
+    errorMessage: 'Failed to load members',
+  });
+  return data.members || [];
+}
+
+/**
+ * Add a user to a group
+ */
+export async function addMember(
+  groupId: string,
+  userId: string,
+  token: string
+): Promise<void> {
+  await apiRequest(`/groups/${groupId}/members`, {
+    method: 'POST',
+    token,
+    body: { userId },
+    errorMessage: 'Failed to add member',
+  });
+}
+
+/**
+ * Remove a user from a group, also used by members leaving on their own
+ */
+export async function removeMember(
+  groupId: string,
+  userId: string,
+  token: string
+): Promise<void> {
+  await apiRequest(`/groups/${groupId}/members/${userId}`, {
+    method: 'DELETE',
+    token,
+    errorMessage: 'Failed to remove member',
+  });
+}
+
+/**
+ * Move money from the signed-in user's balance into the group, no vote needed
+ */
+export async function depositToGroup(
+  groupId: string,
+  amount: number,
+  token: string,
+  idempotencyKey?: string
+): Promise<DepositResponse> {
+  return apiRequest<DepositResponse>(`/groups/${groupId}/deposit`, {
+    method: 'POST',
+    token,
+    body: { amount },
+    errorMessage: 'Failed to deposit',
+    idempotencyKey,
+  });
+}
+
+/**
+ * Get the group's stock positions valued at current prices, or as they stood
+ * at `at` valued at that day's closing prices
+ */
+export async function getGroupHoldings(
+  groupId: string,
+  token: string,
+  at?: Date
+): Promise<StockHolding[]> {
+  const query = at ? `?at=${encodeURIComponent(at.toISOString())}` : '';
+  const data = await apiRequest<HoldingsResponse>(`/groups/${groupId}/holdings${query}`, {
+    token,
+    errorMessage: 'Failed to fetch holdings',
+  });
+  return data.holdings || [];
+}
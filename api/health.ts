@@ -0,0 +1,24 @@
+/**
+ * Health API Client
+ * Checks whether a backend is up
+ */
+
+import { apiRequest } from './client';
+import type { HealthResponse } from './types';
+
+export interface HealthCheck {
+  health: HealthResponse;
+  latencyMs: number;
+}
+
+/**
+ * Ping `/health` on the configured backend, or on `baseUrl` when given
+ */
+export async function checkHealth(baseUrl?: string): Promise<HealthCheck> {
+  const startedAt = Date.now();
+  const health = await apiRequest<HealthResponse>('/health', {
+    baseUrl,
+    errorMessage: 'Backend is not responding',
+  });
+  return { health, latencyMs: Date.now() - startedAt };
+}
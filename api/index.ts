@@ -0,0 +1,42 @@
+// Export the whole API client
+export * from './auth';
+export * from './cache';
+export * from './client';
+export * from './comments';
+export * from './config';
+export * from './connectivity';
+export * from './decode';
+export * from './dissolution';
+export * from './groups';
+export * from './health';
+export * from './invites';
+export * from './ledger';
+export * from './outbox';
+export * from './ownership';
+export * from './policy';
+export * from './realtime';
+export * from './returns';
+export * from './roles';
+export * from './stocks';
+export * from './transactions';
+export * from './users';
+export type {
+  AuthResponse,
+  BalanceResponse,
+  CreateGroupRequest,
+  DepositResponse,
+  Group,
+  GroupMember,
+  HealthResponse,
+  InitializeBalanceResponse,
+  MemberRole,
+  LoginRequest,
+  SignupRequest,
+  Stock,
+  StockHolding,
+  StockLists,
+  StockQuote,
+  StockTradeRequest,
+  StockTradeResponse,
+  UserProfile,
+} from './types';
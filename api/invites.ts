@@ -0,0 +1,306 @@
+/**
+ * Invite API Client
+ * Expiring, single- or multi-use invite codes for a ranch, invites addressed to
+ * one user, the invitee's accept / decline step, and requests to join a ranch
+ */
+
+import { apiRequest } from './client';
+import {
+  expectArray,
+  expectDate,
+  expectObject,
+  expectOneOf,
+  expectString,
+  optionalNumber,
+  optionalString,
+} from './decode';
+
+export interface Invite {
+  code: string;
+  groupId: string;
+  groupName?: string;
+  createdBy: string;
+  createdAt: Date;
+  expiresAt: Date;
+  maxUses: number | null; // null = until it expires
+  uses: number;
+  revoked: boolean;
+  invitedUserId?: string; // set for invites addressed to one user, shown in their inbox
+}
+
+/**
+ * What the invitee sees before deciding
+ */
+export interface InvitePreview {
+  invite: Invite;
+  groupName: string;
+  memberCount: number;
+  invitedBy?: string; // username of whoever created the code
+}
+
+export interface CreateInviteRequest {
+  expiresInHours: number;
+  maxUses: number | null;
+  username?: string; // address the invite to this user, it then lands in their inbox
+}
+
+export const JOIN_REQUEST_STATUSES = ['pending', 'approved', 'denied'] as const;
+export type JoinRequestStatus = (typeof JOIN_REQUEST_STATUSES)[number];
+
+/**
+ * A user asking to be let into a ranch, decided by its owner or an admin
+ */
+export interface JoinRequest {
+  requestId: string;
+  groupId: string;
+  groupName?: string;
+  userId: string;
+  username?: string;
+  message?: string;
+  status: JoinRequestStatus;
+  createdAt: Date;
+}
+
+export const INVITE_EXPIRY_OPTIONS = [
+  { label: '1 hour', hours: 1 },
+  { label: '1 day', hours: 24 },
+  { label: '7 days', hours: 24 * 7 },
+];
+
+export const INVITE_USE_OPTIONS: { label: string; maxUses: number | null }[] = [
+  { label: 'Single use', maxUses: 1 },
+  { label: '5 uses', maxUses: 5 },
+  { label: 'Unlimited', maxUses: null },
+];
+
+/**
+ * Validate an invite payload from the backend
+ */
+export function decodeInvite(raw: unknown, path = 'invite'): Invite {
+  const data = expectObject(raw, path);
+  const maxUses = optionalNumber(data.maxUses, `${path}.maxUses`);
+  return {
+    code: expectString(data.code, `${path}.code`),
+    groupId: expectString(data.groupId ?? data.groupID, `${path}.groupId`),
+    groupName: optionalString(data.groupName, `${path}.groupName`),
+    createdBy: expectString(data.createdBy, `${path}.createdBy`),
+    createdAt: expectDate(data.createdAt, `${path}.createdAt`),
+    expiresAt: expectDate(data.expiresAt, `${path}.expiresAt`),
+    maxUses: maxUses ?? null,
+    uses: optionalNumber(data.uses, `${path}.uses`) ?? 0,
+    revoked: data.revoked === true,
+    invitedUserId: optionalString(data.invitedUserId, `${path}.invitedUserId`),
+  };
+}
+
+/**
+ * Validate a join request payload from the backend
+ */
+export function decodeJoinRequest(raw: unknown, path = 'joinRequest'): JoinRequest {
+  const data = expectObject(raw, path);
+  return {
+    requestId: expectString(data.requestId ?? data.requestID, `${path}.requestId`),
+    groupId: expectString(data.groupId ?? data.groupID, `${path}.groupId`),
+    groupName: optionalString(data.groupName, `${path}.groupName`),
+    userId: expectString(data.userId ?? data.userID, `${path}.userId`),
+    username: optionalString(data.username, `${path}.username`),
+    message: optionalString(data.message, `${path}.message`),
+    status: expectOneOf(data.status, JOIN_REQUEST_STATUSES, `${path}.status`),
+    createdAt: expectDate(data.createdAt, `${path}.createdAt`),
+  };
+}
+
+function decodeJoinRequests(raw: unknown, path = 'requests'): JoinRequest[] {
+  if (raw === undefined || raw === null) {
+    return [];
+  }
+  return expectArray(raw, path)
+    .map((item, index) => decodeJoinRequest(item, `${path}[${index}]`))
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+/**
+ * Whether a code can still be used
+ */
+export function isInviteActive(invite: Invite, now = Date.now()): boolean {
+  return (
+    !invite.revoked &&
+    invite.expiresAt.getTime() > now &&
+    (invite.maxUses === null || invite.uses < invite.maxUses)
+  );
+}
+
+/**
+ * The code out of whatever the invitee pasted: the bare code or a whole
+ * invite link (`frontend://join/CODE`, `https://.../join/CODE`)
+ */
+export function parseInviteCode(text: string): string | null {
+  const trimmed = text.trim();
+  const fromLink = trimmed.match(/join\/([A-Za-z0-9_-]+)/);
+  const code = fromLink ? fromLink[1] : trimmed;
+  return /^[A-Za-z0-9_-]{4,64}$/.test(code) ? code : null;
+}
+
+/**
+ * Create an invite code for a group (owner and admins)
+ */
+export async function createInvite(
+  groupId: string,
+  request: CreateInviteRequest,
+  token: string
+): Promise<Invite> {
+  const data = await apiRequest<{ invite: unknown }>(`/groups/${groupId}/invites`, {
+    method: 'POST',
+    token,
+    body: request,
+    errorMessage: 'Failed to create invite',
+  });
+  return decodeInvite(data.invite);
+}
+
+/**
+ * A group's invite codes, newest first, including used up and expired ones
+ */
+export async function getGroupInvites(groupId: string, token: string): Promise<Invite[]> {
+  const data = await apiRequest<{ invites?: unknown }>(`/groups/${groupId}/invites`, {
+    token,
+    errorMessage: 'Failed to load invites',
+  });
+  if (data.invites === undefined || data.invites === null) {
+    return [];
+  }
+  return expectArray(data.invites, 'invites')
+    .map((item, index) => decodeInvite(item, `invites[${index}]`))
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+/**
+ * Stop a code from being used again
+ */
+export async function revokeInvite(groupId: string, code: string, token: string): Promise<void> {
+  await apiRequest(`/groups/${groupId}/invites/${encodeURIComponent(code)}`, {
+    method: 'DELETE',
+    token,
+    errorMessage: 'Failed to revoke invite',
+  });
+}
+
+/**
+ * Look up a code for the invitee, fails for expired, used up or revoked codes
+ */
+export async function getInvitePreview(code: string, token: string): Promise<InvitePreview> {
+  const data = await apiRequest<{
+    invite: unknown;
+    groupName?: unknown;
+    memberCount?: unknown;
+    invitedBy?: unknown;
+  }>(`/invites/${encodeURIComponent(code)}`, {
+    token,
+    errorMessage: 'This invite is not valid',
+  });
+  const invite = decodeInvite(data.invite);
+  return {
+    invite,
+    groupName: optionalString(data.groupName, 'groupName') ?? invite.groupName ?? 'a ranch',
+    memberCount: optionalNumber(data.memberCount, 'memberCount') ?? 0,
+    invitedBy: optionalString(data.invitedBy, 'invitedBy'),
+  };
+}
+
+/**
+ * Join the ranch behind a code, returns its group id
+ */
+export async function acceptInvite(code: string, token: string): Promise<string> {
+  const path = `/invites/${encodeURIComponent(code)}/accept`;
+  const data = await apiRequest<{ groupId?: unknown; groupID?: unknown }>(path, {
+    method: 'POST',
+    token,
+    errorMessage: 'Failed to join ranch',
+  });
+  return expectString(data.groupId ?? data.groupID, 'groupId');
+}
+
+/**
+ * Turn an invite down, it does not count as a use of the code
+ */
+export async function declineInvite(code: string, token: string): Promise<void> {
+  await apiRequest(`/invites/${encodeURIComponent(code)}/decline`, {
+    method: 'POST',
+    token,
+    errorMessage: 'Failed to decline invite',
+  });
+}
+
+/**
+ * Invites addressed to the signed-in user that are still open, for the inbox
+ */
+export async function getMyInvites(token: string): Promise<Invite[]> {
+  const data = await apiRequest<{ invites?: unknown }>('/invites/me', {
+    token,
+    errorMessage: 'Failed to load invitations',
+  });
+  if (data.invites === undefined || data.invites === null) {
+    return [];
+  }
+  return expectArray(data.invites, 'invites')
+    .map((item, index) => decodeInvite(item, `invites[${index}]`))
+    .filter((invite) => isInviteActive(invite))
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+/**
+ * Ask to be let into a ranch by its id
+ */
+export async function requestToJoin(
+  groupId: string,
+  message: string | undefined,
+  token: string
+): Promise<JoinRequest> {
+  // The id is typed in by hand, keep a stray "/", "?" or "#" inside the path segment
+  const data = await apiRequest<{ request: unknown }>(`/groups/${encodeURIComponent(groupId)}/join-requests`, {
+    method: 'POST',
+    token,
+    body: { message },
+    errorMessage: 'Failed to send join request',
+  });
+  return decodeJoinRequest(data.request, 'request');
+}
+
+/**
+ * The signed-in user's own join requests, newest first
+ */
+export async function getMyJoinRequests(token: string): Promise<JoinRequest[]> {
+  const data = await apiRequest<{ requests?: unknown }>('/join-requests/me', {
+    token,
+    errorMessage: 'Failed to load join requests',
+  });
+  return decodeJoinRequests(data.requests);
+}
+
+/**
+ * Pending requests to join a group (owner and admins)
+ */
+export async function getJoinRequests(groupId: string, token: string): Promise<JoinRequest[]> {
+  const data = await apiRequest<{ requests?: unknown }>(
+    `/groups/${groupId}/join-requests?status=pending`,
+    { token, errorMessage: 'Failed to load join requests' }
+  );
+  return decodeJoinRequests(data.requests).filter((request) => request.status === 'pending');
+}
+
+/**
+ * Let the requester in, or turn them away (owner and admins)
+ */
+export async function respondToJoinRequest(
+  groupId: string,
+  requestId: string,
+  approve: boolean,
+  token: string
+): Promise<void> {
+  const path = `/groups/${groupId}/join-requests/${encodeURIComponent(requestId)}/${approve ? 'approve' : 'deny'}`;
+  await apiRequest(path, {
+    method: 'POST',
+    token,
+    errorMessage: approve ? 'Failed to approve join request' : 'Failed to deny join request',
+  });
+}
@@ -0,0 +1,230 @@
+/**
+ * Ledger API Client
+ * Executed transactions of a ranch, fetched a page at a time with search and filters
+ */
+
+import { apiRequest } from './client';
+import { optionalString } from './decode';
+import { getProposalKind, type ProposalKind } from './policy';
+import { decodeTransactions, type Transaction } from './transactions';
+
+export const LEDGER_PAGE_SIZE = 25;
+
+export interface LedgerFilters {
+  kind: ProposalKind | null; // 'trade' covers stock trades
+  memberId: string | null; // proposer
+  from: Date | null; // executed on or after, inclusive
+  to: Date | null; // executed on or before, inclusive (whole day)
+  minAmount: number | null;
+  maxAmount: number | null;
+  search: string; // matched against the description
+}
+
+export const EMPTY_LEDGER_FILTERS: LedgerFilters = {
+  kind: null,
+  memberId: null,
+  from: null,
+  to: null,
+  minAmount: null,
+  maxAmount: null,
+  search: '',
+};
+
+export interface LedgerPage {
+  transactions: Transaction[];
+  nextCursor?: string; // absent on the last page
+}
+
+export interface LedgerMonth {
+  key: string; // "2025-10"
+  label: string; // "October 2025"
+  total: number; // net change to the ranch's cash, withdrawals and buys count against it
+  transactions: Transaction[];
+}
+
+const ledgerDate = (transaction: Transaction) => transaction.executedAt ?? transaction.createdAt;
+
+const endOfDay = (date: Date) => {
+  const end = new Date(date);
+  end.setHours(23, 59, 59, 999);
+  return end;
+};
+
+/**
+ * Whether any filter is set
+ */
+export function hasLedgerFilters(filters: LedgerFilters): boolean {
+  return (
+    filters.kind !== null ||
+    filters.memberId !== null ||
+    filters.from !== null ||
+    filters.to !== null ||
+    filters.minAmount !== null ||
+    filters.maxAmount !== null ||
+    filters.search.trim() !== ''
+  );
+}
+
+/**
+ * Apply the filters locally, for backends that ignore the query parameters
+ */
+export function matchesLedgerFilters(transaction: Transaction, filters: LedgerFilters): boolean {
+  const date = ledgerDate(transaction);
+  const search = filters.search.trim().toLowerCase();
+  return (
+    (filters.kind === null || getProposalKind(transaction) === filters.kind) &&
+    (filters.memberId === null || transaction.proposedBy === filters.memberId) &&
+    (filters.from === null || date >= filters.from) &&
+    (filters.to === null || date <= endOfDay(filters.to)) &&
+    (filters.minAmount === null || transaction.amount >= filters.minAmount) &&
+    (filters.maxAmount === null || transaction.amount <= filters.maxAmount) &&
+    (search === '' || transaction.description.toLowerCase().includes(search))
+  );
+}
+
+/**
+ * Group ledger entries by the month they were executed, newest month first
+ */
+export function groupLedgerByMonth(transactions: Transaction[]): LedgerMonth[] {
+  const months = new Map<string, LedgerMonth>();
+  transactions.forEach((transaction) => {
+    const date = ledgerDate(transaction);
+    const key = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+    let month = months.get(key);
+    if (!month) {
+      month = {
+        key,
+        label: date.toLocaleDateString(undefined, { month: 'long', year: 'numeric' }),
+        total: 0,
+        transactions: [],
+      };
+      months.set(key, month);
+    }
+    month.total += balanceEffect(transaction);
+    month.transactions.push(transaction);
+  });
+  return Array.from(months.values()).sort((a, b) => b.key.localeCompare(a.key));
+}
+
+/**
+ * Get one page of a ranch's executed transactions, newest first.
+ * Pass the previous page's `nextCursor` to continue.
+ */
+export async function getLedgerPage(
+  groupId: string,
+  filters: LedgerFilters,
+  cursor: string | undefined,
+  token: string
+): Promise<LedgerPage> {
+  const params = new URLSearchParams({
+    groupId,
+    status: 'executed',
+    limit: String(LEDGER_PAGE_SIZE),
+  });
+  if (cursor) params.set('cursor', cursor);
+  if (filters.kind) params.set('type', filters.kind);
+  if (filters.memberId) params.set('proposedBy', filters.memberId);
+  if (filters.from) params.set('from', filters.from.toISOString());
+  if (filters.to) params.set('to', endOfDay(filters.to).toISOString());
+  if (filters.minAmount !== null) params.set('minAmount', String(filters.minAmount));
+  if (filters.maxAmount !== null) params.set('maxAmount', String(filters.maxAmount));
+  if (filters.search.trim()) params.set('q', filters.search.trim());
+
+  const data = await apiRequest<{ transactions?: unknown; nextCursor?: unknown }>(
+    `/transactions?${params.toString()}`,
+    { token, errorMessage: 'Failed to load ledger' }
+  );
+  return {
+    transactions: decodeTransactions(data.transactions)
+      .filter((txn) => txn.groupID === groupId && txn.status === 'executed')
+      .filter((txn) => matchesLedgerFilters(txn, filters))
+      .sort((a, b) => ledgerDate(b).getTime() - ledgerDate(a).getTime()),
+    nextCursor: optionalString(data.nextCursor, 'nextCursor'),
+  };
+}
+
+/**
+ * Every page of executed transactions matching the filters, for exports
+ */
+export async function getFullLedger(
+  groupId: string,
+  filters: LedgerFilters,
+  token: string
+): Promise<Transaction[]> {
+  const transactions: Transaction[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await getLedgerPage(groupId, filters, cursor, token);
+    transactions.push(...page.transactions);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return transactions;
+}
+
+/**
+ * How much an executed transaction moved the ranch's cash balance.
+ * Uses the recorded balances when the backend sent them.
+ */
+export function balanceEffect(transaction: Transaction): number {
+  if (transaction.previousBalance !== undefined && transaction.newBalance !== undefined) {
+    return transaction.newBalance - transaction.previousBalance;
+  }
+  // Sale proceeds come back into the ranch's cash
+  if (transaction.trade?.side === 'sell') {
+    return transaction.amount;
+  }
+  switch (getProposalKind(transaction)) {
+    // An approved investment proposal is the proposer adding funds, like a deposit
+    case 'deposit':
+    case 'investment':
+      return transaction.amount;
+    case 'member_removal':
+    case 'ownership_transfer':
+      return 0;
+    default:
+      return -transaction.amount;
+  }
+}
+
+export interface MonthlyStatement {
+  month: Date; // first day of the month
+  openingBalance: number;
+  closingBalance: number;
+  movements: { transaction: Transaction; effect: number; balance: number }[]; // oldest first
+  contributions: Record<string, number>; // userId -> deposited or invested this month
+}
+
+/**
+ * Work out a month's statement from every executed transaction since the month
+ * started, walking back from the ranch's current balance
+ */
+export function buildMonthlyStatement(
+  transactionsSinceMonthStart: Transaction[],
+  currentBalance: number,
+  month: Date
+): MonthlyStatement {
+  const start = new Date(month.getFullYear(), month.getMonth(), 1);
+  const end = new Date(month.getFullYear(), month.getMonth() + 1, 1);
+  const chronological = transactionsSinceMonthStart
+    .filter((txn) => ledgerDate(txn) >= start)
+    .sort((a, b) => ledgerDate(a).getTime() - ledgerDate(b).getTime());
+  const inMonth = chronological.filter((txn) => ledgerDate(txn) < end);
+  const afterMonth = chronological.filter((txn) => ledgerDate(txn) >= end);
+
+  const closingBalance = afterMonth.reduce((balance, txn) => balance - balanceEffect(txn), currentBalance);
+  const openingBalance = inMonth.reduce((balance, txn) => balance - balanceEffect(txn), closingBalance);
+
+  let running = openingBalance;
+  const contributions: Record<string, number> = {};
+  const movements = inMonth.map((transaction) => {
+    const effect = balanceEffect(transaction);
+    running += effect;
+    const kind = getProposalKind(transaction);
+    if (kind === 'deposit' || kind === 'investment') {
+      contributions[transaction.proposedBy] = (contributions[transaction.proposedBy] || 0) + transaction.amount;
+    }
+    return { transaction, effect, balance: running };
+  });
+
+  return { month: start, openingBalance, closingBalance, movements, contributions };
+}
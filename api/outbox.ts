@@ -0,0 +1,214 @@
+/**
+ * Offline Outbox
+ * Votes, deposits, new proposals and stock trades made while the backend is unreachable are queued here
+ * (persisted to device storage) and replayed in order once it is reachable again
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ApiError } from './client';
+import { depositToGroup } from './groups';
+import { proposeStockTrade } from './stocks';
+import {
+  createTransaction,
+  getTransaction,
+  isOpenForVoting,
+  retractVote,
+  voteOnTransaction,
+  type CreateTransactionRequest,
+  type VoteChoice,
+} from './transactions';
+import type { StockTradeRequest } from './types';
+
+const STORAGE_KEY = 'outbox';
+
+export type Mutation =
+  | { kind: 'vote'; groupId: string; transactionId: string; vote: VoteChoice; reason?: string }
+  | { kind: 'retractVote'; groupId: string; transactionId: string }
+  | { kind: 'deposit'; groupId: string; amount: number }
+  | { kind: 'createTransaction'; groupId: string; request: CreateTransactionRequest }
+  // price: the quote per share when proposed, to show the queued trade
+  | { kind: 'stockTrade'; groupId: string; request: StockTradeRequest; price: number };
+
+export interface QueuedMutation {
+  /** Also sent as the Idempotency-Key, so a replay the backend already saw is not applied twice */
+  id: string;
+  queuedAt: number;
+  mutation: Mutation;
+}
+
+/**
+ * A queued mutation the backend refused on replay, e.g. a vote on a proposal
+ * other members already resolved. It has been dropped from the queue.
+ */
+export interface OutboxConflict {
+  item: QueuedMutation;
+  reason: string;
+}
+
+export type SubmitResult<T> = { queued: false; result: T } | { queued: true; item: QueuedMutation };
+
+let queue: QueuedMutation[] = [];
+let loaded = false;
+let flushing: Promise<OutboxConflict[]> | null = null;
+const listeners = new Set<() => void>();
+
+function createMutationId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+async function persist(next: QueuedMutation[]) {
+  queue = next;
+  listeners.forEach((listener) => listener());
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.error('❌ Error persisting outbox:', error);
+  }
+}
+
+/**
+ * Load queued mutations saved by a previous session (safe to call more than once)
+ */
+export async function loadOutbox() {
+  if (loaded) return;
+  loaded = true;
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      queue = JSON.parse(stored) as QueuedMutation[];
+      listeners.forEach((listener) => listener());
+    }
+  } catch (error) {
+    console.error('❌ Error loading outbox:', error);
+  }
+}
+
+export function getOutbox(): QueuedMutation[] {
+  return queue;
+}
+
+/**
+ * Subscribe to queue changes, returns the unsubscribe function
+ */
+export function subscribeOutbox(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function runMutation(mutation: Mutation, token: string, idempotencyKey: string): Promise<unknown> {
+  switch (mutation.kind) {
+    case 'vote':
+      return voteOnTransaction(
+        mutation.transactionId,
+        { vote: mutation.vote, reason: mutation.reason },
+        token,
+        idempotencyKey
+      );
+    case 'retractVote':
+      return retractVote(mutation.transactionId, token, idempotencyKey);
+    case 'deposit':
+      return depositToGroup(mutation.groupId, mutation.amount, token, idempotencyKey);
+    case 'createTransaction':
+      return createTransaction(mutation.request, token, idempotencyKey);
+    case 'stockTrade':
+      return proposeStockTrade(mutation.request, token, idempotencyKey);
+  }
+}
+
+/**
+ * Send a mutation now, or queue it when the backend is unreachable
+ */
+export async function submitMutation<T>(mutation: Mutation, token: string): Promise<SubmitResult<T>> {
+  await loadOutbox();
+  const id = createMutationId();
+
+  // Keep ordering: anything queued earlier must reach the backend first
+  if (queue.length === 0) {
+    try {
+      const result = (await runMutation(mutation, token, id)) as T;
+      return { queued: false, result };
+    } catch (error) {
+      if (!(error instanceof ApiError && error.isNetworkError)) {
+        throw error;
+      }
+    }
+  }
+
+  const item: QueuedMutation = { id, queuedAt: Date.now(), mutation };
+  console.log('📥 Queued offline mutation:', item);
+  await persist([...queue, item]);
+  return { queued: true, item };
+}
+
+// Errors that mean "try again later" rather than "the backend said no"
+function isRetryable(error: unknown) {
+  return (
+    error instanceof ApiError &&
+    (error.isNetworkError || error.status === 401 || error.status === 408 || error.status === 429 || error.status >= 500)
+  );
+}
+
+/**
+ * Replay queued mutations in order. Stops at the first retryable failure (offline or the
+ * backend failing, useOutboxSync tries again with a backoff), drops mutations the backend
+ * refuses and reports them as conflicts.
+ */
+export function flushOutbox(token: string): Promise<OutboxConflict[]> {
+  if (flushing) return flushing;
+
+  flushing = (async () => {
+    await loadOutbox();
+    const conflicts: OutboxConflict[] = [];
+
+    while (queue.length > 0) {
+      const item = queue[0];
+      const { mutation } = item;
+      try {
+        // A vote (or taking it back) only makes sense while the proposal is still open
+        if (mutation.kind === 'vote' || mutation.kind === 'retractVote') {
+          const transaction = await getTransaction(mutation.transactionId, token);
+          if (!isOpenForVoting(transaction)) {
+            conflicts.push({
+              item,
+              reason:
+                transaction.status === 'pending'
+                  ? `Voting on "${transaction.description}" closed before you were back online`
+                  : `"${transaction.description}" was already ${transaction.status} by other members`,
+            });
+            await persist(queue.slice(1));
+            continue;
+          }
+        }
+
+        await runMutation(mutation, token, item.id);
+        console.log('📤 Replayed queued mutation:', item.id);
+        await persist(queue.slice(1));
+      } catch (error) {
+        if (isRetryable(error)) {
+          console.log('⏸️ Outbox replay paused:', error);
+          break;
+        }
+        conflicts.push({
+          item,
+          reason: error instanceof Error ? error.message : 'Rejected by the server',
+        });
+        await persist(queue.slice(1));
+      }
+    }
+
+    return conflicts;
+  })();
+
+  return flushing.finally(() => {
+    flushing = null;
+  });
+}
+
+/**
+ * Forget everything queued (on logout or when switching backends, the mutations belong to that user and server)
+ */
+export async function clearOutbox() {
+  await persist([]);
+}
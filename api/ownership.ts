@@ -0,0 +1,79 @@
+/**
+ * Ownership Accounting
+ * How much of a ranch each member owns, worked out from executed deposits, investments
+ * and withdrawals with gains and losses shared pro rata to what each member put in
+ */
+
+import { EMPTY_LEDGER_FILTERS, getFullLedger } from './ledger';
+import { getProposalKind } from './policy';
+import type { Transaction } from './transactions';
+
+export interface MemberStake {
+  userId: string;
+  deposited: number; // deposits and approved investments
+  withdrawn: number;
+  netContributed: number; // deposited - withdrawn, never below 0
+  gainShare: number; // this member's part of the ranch's gain (negative for a loss)
+  equity: number; // netContributed + gainShare
+  share: number; // 0-1 of the ranch
+}
+
+/**
+ * Executed deposits, investments and withdrawals of a ranch, all the accounting needs
+ */
+export async function getContributionHistory(groupId: string, token: string): Promise<Transaction[]> {
+  const [deposits, investments, withdrawals] = await Promise.all([
+    getFullLedger(groupId, { ...EMPTY_LEDGER_FILTERS, kind: 'deposit' }, token),
+    getFullLedger(groupId, { ...EMPTY_LEDGER_FILTERS, kind: 'investment' }, token),
+    getFullLedger(groupId, { ...EMPTY_LEDGER_FILTERS, kind: 'withdrawal' }, token),
+  ]);
+  return [...deposits, ...investments, ...withdrawals];
+}
+
+/**
+ * Each member's stake in a ranch worth `totalAssets`, largest first.
+ * Members without contributions are listed with a zero stake.
+ */
+export function computeOwnership(
+  contributions: Transaction[],
+  totalAssets: number,
+  memberIds: string[]
+): MemberStake[] {
+  const totals: Record<string, { deposited: number; withdrawn: number }> = {};
+  memberIds.forEach((userId) => {
+    totals[userId] = { deposited: 0, withdrawn: 0 };
+  });
+  contributions
+    .filter((txn) => txn.status === 'executed')
+    .forEach((txn) => {
+      const kind = getProposalKind(txn);
+      if (kind !== 'deposit' && kind !== 'investment' && kind !== 'withdrawal') return;
+      // Former members keep their stake until they withdraw it
+      if (!totals[txn.proposedBy]) totals[txn.proposedBy] = { deposited: 0, withdrawn: 0 };
+      const entry = totals[txn.proposedBy];
+      // An approved investment proposal puts the proposer's money in, like a deposit
+      if (kind === 'withdrawal') entry.withdrawn += txn.amount;
+      else entry.deposited += txn.amount;
+    });
+
+  const netOf = (userId: string) => Math.max(0, totals[userId].deposited - totals[userId].withdrawn);
+  const totalNet = Object.keys(totals).reduce((sum, userId) => sum + netOf(userId), 0);
+  const totalGain = totalAssets - totalNet;
+
+  return Object.entries(totals)
+    .map(([userId, { deposited, withdrawn }]) => {
+      const netContributed = netOf(userId);
+      const share = totalNet > 0 ? netContributed / totalNet : 0;
+      const gainShare = totalGain * share;
+      return {
+        userId,
+        deposited,
+        withdrawn,
+        netContributed,
+        gainShare,
+        equity: netContributed + gainShare,
+        share,
+      };
+    })
+    .sort((a, b) => b.equity - a.equity);
+}
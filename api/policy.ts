@@ -0,0 +1,235 @@
+/**
+ * Approval Policy API Client
+ * Per-ranch voting rules (thresholds per proposal type, quorum, owner veto,
+ * auto-approval of small trades) and the client-side tally shown on proposals
+ */
+
+import { ApiError, apiRequest } from './client';
+import { expectNumber, expectObject, expectOneOf, type RawObject } from './decode';
+import type { Transaction } from './transactions';
+
+export const PROPOSAL_KINDS = ['investment', 'withdrawal', 'deposit', 'trade', 'member_removal', 'ownership_transfer', 'dissolution'] as const;
+export type ProposalKind = (typeof PROPOSAL_KINDS)[number];
+
+export const APPROVAL_THRESHOLDS = ['majority', 'two_thirds', 'unanimous'] as const;
+export type ApprovalThreshold = (typeof APPROVAL_THRESHOLDS)[number];
+
+/**
+ * What happens to a proposal still pending at its deadline: it becomes `expired`,
+ * or `approved` when the policy allows it and quorum was met
+ */
+export const EXPIRY_OUTCOMES = ['reject', 'approve_if_quorum'] as const;
+export type ExpiryOutcome = (typeof EXPIRY_OUTCOMES)[number];
+
+export interface ApprovalPolicy {
+  /** Share of members that must approve, per proposal type */
+  thresholds: Record<ProposalKind, ApprovalThreshold>;
+  /** Share of members (0-1) that must vote either way before a proposal can pass */
+  quorum: number;
+  /** A reject from the owner rejects the proposal outright */
+  ownerVeto: boolean;
+  /** Trades up to this amount pass without a vote, null to always vote */
+  autoApproveTradesUpTo: number | null;
+  /** Default voting deadline for new proposals, creators can override it */
+  votingPeriodHours: number;
+  onExpiry: ExpiryOutcome;
+  /** Removing a member needs a passed `member_removal` proposal instead of an admin's say-so */
+  removalRequiresVote: boolean;
+  /** Handing the ranch to another member needs a passed `ownership_transfer` proposal */
+  transferRequiresVote: boolean;
+}
+
+/**
+ * What ranches without a saved policy use: the simple majority the backend always applied,
+ * except that dissolving a ranch needs everyone
+ */
+export const DEFAULT_POLICY: ApprovalPolicy = {
+  thresholds: {
+    investment: 'majority',
+    withdrawal: 'majority',
+    deposit: 'majority',
+    trade: 'majority',
+    member_removal: 'majority',
+    ownership_transfer: 'majority',
+    dissolution: 'unanimous',
+  },
+  quorum: 0,
+  ownerVeto: false,
+  autoApproveTradesUpTo: null,
+  votingPeriodHours: 72,
+  onExpiry: 'reject',
+  removalRequiresVote: false,
+  transferRequiresVote: false,
+};
+
+export const THRESHOLD_LABELS: Record<ApprovalThreshold, string> = {
+  majority: 'Majority',
+  two_thirds: '2/3 supermajority',
+  unanimous: 'Unanimous',
+};
+
+export const EXPIRY_OUTCOME_LABELS: Record<ExpiryOutcome, string> = {
+  reject: 'Expires unapproved',
+  approve_if_quorum: 'Approved if quorum is met',
+};
+
+/**
+ * Validate a policy payload. Missing fields fall back to the defaults, so older backends
+ * that only send some of them still work.
+ */
+export function decodeApprovalPolicy(raw: unknown, path = 'policy'): ApprovalPolicy {
+  const data = expectObject(raw, path);
+  const rawThresholds: RawObject =
+    data.thresholds === undefined || data.thresholds === null
+      ? {}
+      : expectObject(data.thresholds, `${path}.thresholds`);
+
+  const thresholds = { ...DEFAULT_POLICY.thresholds };
+  PROPOSAL_KINDS.forEach((kind) => {
+    if (rawThresholds[kind] !== undefined) {
+      thresholds[kind] = expectOneOf(rawThresholds[kind], APPROVAL_THRESHOLDS, `${path}.thresholds.${kind}`);
+    }
+  });
+
+  const quorum = data.quorum === undefined ? DEFAULT_POLICY.quorum : expectNumber(data.quorum, `${path}.quorum`);
+  return {
+    thresholds,
+    quorum: Math.min(1, Math.max(0, quorum)),
+    ownerVeto: data.ownerVeto === true,
+    autoApproveTradesUpTo:
+      data.autoApproveTradesUpTo === undefined || data.autoApproveTradesUpTo === null
+        ? null
+        : expectNumber(data.autoApproveTradesUpTo, `${path}.autoApproveTradesUpTo`),
+    votingPeriodHours:
+      data.votingPeriodHours === undefined
+        ? DEFAULT_POLICY.votingPeriodHours
+        : expectNumber(data.votingPeriodHours, `${path}.votingPeriodHours`),
+    onExpiry:
+      data.onExpiry === undefined
+        ? DEFAULT_POLICY.onExpiry
+        : expectOneOf(data.onExpiry, EXPIRY_OUTCOMES, `${path}.onExpiry`),
+    removalRequiresVote: data.removalRequiresVote === true,
+    transferRequiresVote: data.transferRequiresVote === true,
+  };
+}
+
+/**
+ * Get a group's approval policy (the default when the owner never set one)
+ */
+export async function getGroupPolicy(groupId: string, token: string): Promise<ApprovalPolicy> {
+  try {
+    const data = await apiRequest<{ policy: unknown }>(`/groups/${groupId}/policy`, {
+      token,
+      errorMessage: 'Failed to fetch approval rules',
+    });
+    return decodeApprovalPolicy(data.policy);
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) {
+      return DEFAULT_POLICY;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Replace a group's approval policy (owner only)
+ */
+export async function updateGroupPolicy(
+  groupId: string,
+  policy: ApprovalPolicy,
+  token: string
+): Promise<ApprovalPolicy> {
+  const data = await apiRequest<{ policy: unknown }>(`/groups/${groupId}/policy`, {
+    method: 'PUT',
+    token,
+    body: policy,
+    errorMessage: 'Failed to save approval rules',
+  });
+  return decodeApprovalPolicy(data.policy);
+}
+
+/**
+ * Which policy rule a transaction falls under. Stock trades and anything
+ * newer than this client count as trades.
+ */
+export function getProposalKind(transaction: Pick<Transaction, 'transactionType'>): ProposalKind {
+  switch (transaction.transactionType) {
+    case 'investment':
+    case 'withdrawal':
+    case 'deposit':
+    case 'member_removal':
+    case 'ownership_transfer':
+    case 'dissolution':
+      return transaction.transactionType;
+    default:
+      return 'trade';
+  }
+}
+
+/**
+ * Approvals needed out of `memberCount` for a threshold
+ */
+export function requiredApprovals(threshold: ApprovalThreshold, memberCount: number): number {
+  switch (threshold) {
+    case 'majority':
+      return Math.ceil(memberCount / 2);
+    case 'two_thirds':
+      return Math.ceil((memberCount * 2) / 3);
+    case 'unanimous':
+      return memberCount;
+  }
+}
+
+export interface ApprovalProgress {
+  kind: ProposalKind;
+  threshold: ApprovalThreshold;
+  approvals: number;
+  rejections: number;
+  /** Approvals needed to pass */
+  required: number;
+  /** Votes (either way) needed for quorum */
+  quorumRequired: number;
+  quorumMet: boolean;
+  vetoed: boolean;
+  autoApproved: boolean;
+  passes: boolean;
+}
+
+/**
+ * Tally a proposal's votes against a policy. The backend decides the real status,
+ * this only explains it ("2 of 3 required") on the card.
+ */
+export function evaluateProposal(
+  transaction: Pick<Transaction, 'amount' | 'transactionType' | 'votes'>,
+  policy: ApprovalPolicy,
+  memberCount: number,
+  ownerId?: string | null
+): ApprovalProgress {
+  const kind = getProposalKind(transaction);
+  const threshold = policy.thresholds[kind];
+  const votes = Object.values(transaction.votes);
+  const approvals = votes.filter((vote) => vote === 'approve').length;
+  const rejections = votes.length - approvals;
+  const members = Math.max(1, memberCount);
+  const required = requiredApprovals(threshold, members);
+  const quorumRequired = Math.ceil(policy.quorum * members);
+  const quorumMet = votes.length >= quorumRequired;
+  const vetoed = policy.ownerVeto && !!ownerId && transaction.votes[ownerId] === 'reject';
+  const autoApproved =
+    kind === 'trade' &&
+    policy.autoApproveTradesUpTo !== null &&
+    transaction.amount <= policy.autoApproveTradesUpTo;
+
+  return {
+    kind,
+    threshold,
+    approvals,
+    rejections,
+    required,
+    quorumRequired,
+    quorumMet,
+    vetoed,
+    autoApproved,
+    passes: autoApproved || (!vetoed && quorumMet && approvals >= required),
+  };
+}
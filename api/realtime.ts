@@ -0,0 +1,263 @@
+/**
+ * Realtime Group Events
+ * One WebSocket per group pushing proposal, vote, status and balance changes,
+ * shared by every screen subscribed to that group and reconnected with backoff
+ */
+
+import { queryKeys, updateCachedQuery } from './cache';
+import { getRealtimeBaseUrl } from './config';
+import {
+  DecodeError,
+  expectNumber,
+  expectObject,
+  expectOneOf,
+  expectString,
+  optionalNumber,
+  optionalString,
+} from './decode';
+import type { Group } from './types';
+import {
+  TRANSACTION_STATUSES,
+  decodeTransaction,
+  type Transaction,
+  type TransactionStatus,
+  type VoteChoice,
+} from './transactions';
+
+const MAX_RECONNECT_DELAY_MS = 30 * 1000;
+
+export type GroupEvent =
+  | { type: 'proposal_created'; groupId: string; transaction: Transaction }
+  | { type: 'proposal_amended'; groupId: string; transaction: Transaction }
+  | {
+      type: 'vote_cast';
+      groupId: string;
+      transactionId: string;
+      userId: string;
+      vote: VoteChoice;
+      reason?: string;
+    }
+  | { type: 'vote_retracted'; groupId: string; transactionId: string; userId: string }
+  | { type: 'status_changed'; groupId: string; transactionId: string; status: TransactionStatus }
+  | {
+      type: 'balance_changed';
+      groupId: string;
+      balance: number;
+      investedAmount?: number;
+      totalAssets?: number;
+    };
+
+const EVENT_TYPES = [
+  'proposal_created',
+  'proposal_amended',
+  'vote_cast',
+  'vote_retracted',
+  'status_changed',
+  'balance_changed',
+] as const;
+
+/**
+ * Validate one message from the socket
+ */
+export function decodeGroupEvent(raw: unknown, path = 'event'): GroupEvent {
+  const obj = expectObject(raw, path);
+  const type = expectOneOf(obj.type, EVENT_TYPES, `${path}.type`);
+  const groupId = expectString(obj.groupId ?? obj.groupID, `${path}.groupId`);
+
+  switch (type) {
+    case 'proposal_created':
+    case 'proposal_amended':
+      return { type, groupId, transaction: decodeTransaction(obj.transaction, `${path}.transaction`) };
+    case 'vote_cast':
+      return {
+        type,
+        groupId,
+        transactionId: expectString(obj.transactionId ?? obj.transactionID, `${path}.transactionId`),
+        userId: expectString(obj.userId ?? obj.userID, `${path}.userId`),
+        vote: expectOneOf(obj.vote, ['approve', 'reject'] as const, `${path}.vote`),
+        reason: optionalString(obj.reason, `${path}.reason`),
+      };
+    case 'vote_retracted':
+      return {
+        type,
+        groupId,
+        transactionId: expectString(obj.transactionId ?? obj.transactionID, `${path}.transactionId`),
+        userId: expectString(obj.userId ?? obj.userID, `${path}.userId`),
+      };
+    case 'status_changed':
+      return {
+        type,
+        groupId,
+        transactionId: expectString(obj.transactionId ?? obj.transactionID, `${path}.transactionId`),
+        status: expectOneOf(obj.status, TRANSACTION_STATUSES, `${path}.status`),
+      };
+    case 'balance_changed':
+      return {
+        type,
+        groupId,
+        balance: expectNumber(obj.balance, `${path}.balance`),
+        investedAmount: optionalNumber(obj.investedAmount, `${path}.investedAmount`),
+        totalAssets: optionalNumber(obj.totalAssets, `${path}.totalAssets`),
+      };
+  }
+}
+
+/**
+ * Apply a proposal/vote/status event to a group's transaction list (balance events leave it unchanged)
+ */
+export function applyGroupEvent(transactions: Transaction[], event: GroupEvent): Transaction[] {
+  switch (event.type) {
+    case 'proposal_created':
+      if (transactions.some((txn) => txn.transactionID === event.transaction.transactionID)) {
+        return transactions;
+      }
+      return [event.transaction, ...transactions];
+    case 'proposal_amended':
+      return transactions.map((txn) =>
+        txn.transactionID === event.transaction.transactionID ? event.transaction : txn
+      );
+    case 'vote_cast':
+    case 'vote_retracted':
+      return transactions.map((txn) => {
+        if (txn.transactionID !== event.transactionId) return txn;
+        const votes = { ...txn.votes };
+        const voteReasons = { ...txn.voteReasons };
+        const voteTimes = { ...txn.voteTimes };
+        delete votes[event.userId];
+        delete voteReasons[event.userId];
+        delete voteTimes[event.userId];
+        if (event.type === 'vote_cast') {
+          votes[event.userId] = event.vote;
+          voteTimes[event.userId] = new Date();
+          if (event.reason) voteReasons[event.userId] = event.reason;
+        }
+        return { ...txn, votes, voteReasons, voteTimes };
+      });
+    case 'status_changed':
+      return transactions.map((txn) =>
+        txn.transactionID === event.transactionId
+          ? {
+              ...txn,
+              status: event.status,
+              executedAt: event.status === 'executed' ? new Date() : txn.executedAt,
+              // An empty history means the backend does not track one, leave the fallback to it
+              statusHistory:
+                txn.statusHistory.length > 0
+                  ? [...txn.statusHistory, { status: event.status, at: new Date() }]
+                  : txn.statusHistory,
+            }
+          : txn
+      );
+    case 'balance_changed':
+      return transactions;
+  }
+}
+
+// Keep cached responses in step, so the next render from cache already includes the event
+async function applyToCache(event: GroupEvent) {
+  if (event.type === 'balance_changed') {
+    await updateCachedQuery<Group>(queryKeys.group(event.groupId), (group) => ({
+      ...group,
+      balance: event.balance,
+      investedAmount: event.investedAmount ?? group.investedAmount,
+      totalAssets: event.totalAssets ?? group.totalAssets,
+    }));
+    return;
+  }
+  await updateCachedQuery<Transaction[]>(queryKeys.groupTransactions(event.groupId), (transactions) =>
+    applyGroupEvent(transactions, event)
+  );
+}
+
+type EventListener = (event: GroupEvent) => void;
+
+interface GroupConnection {
+  groupId: string;
+  token: string;
+  socket: WebSocket | null;
+  listeners: Set<EventListener>;
+  attempts: number;
+  reconnectTimer: ReturnType<typeof setTimeout> | null;
+  closed: boolean;
+}
+
+const connections = new Map<string, GroupConnection>();
+
+async function connect(connection: GroupConnection) {
+  const baseUrl = await getRealtimeBaseUrl();
+  if (connection.closed) return;
+
+  // Browsers can't set headers on a WebSocket, so the token goes in the query string
+  const url = `${baseUrl}/ws/groups/${encodeURIComponent(connection.groupId)}?token=${encodeURIComponent(connection.token)}`;
+  const socket = new WebSocket(url);
+  connection.socket = socket;
+
+  socket.onopen = () => {
+    console.log('📡 Realtime connected for group:', connection.groupId);
+    connection.attempts = 0;
+  };
+
+  socket.onmessage = async (message) => {
+    try {
+      const event = decodeGroupEvent(JSON.parse(String(message.data)));
+      if (event.groupId !== connection.groupId) return;
+      await applyToCache(event);
+      connection.listeners.forEach((listener) => listener(event));
+    } catch (error) {
+      // Unknown event types from a newer backend are expected, anything else is worth a log
+      if (!(error instanceof DecodeError && error.path === 'event.type')) {
+        console.warn('⚠️ Ignoring realtime message:', error);
+      }
+    }
+  };
+
+  socket.onclose = () => {
+    connection.socket = null;
+    if (connection.closed) return;
+
+    const delay = Math.min(1000 * 2 ** connection.attempts, MAX_RECONNECT_DELAY_MS);
+    connection.attempts += 1;
+    console.log(`📡 Realtime disconnected for ${connection.groupId}, retrying in ${delay}ms`);
+    connection.reconnectTimer = setTimeout(() => connect(connection), delay);
+  };
+}
+
+/**
+ * Listen to a group's events. Returns the unsubscribe function; the socket closes with its last listener.
+ */
+export function subscribeToGroup(
+  groupId: string,
+  token: string,
+  onEvent: EventListener
+): () => void {
+  let connection = connections.get(groupId);
+  if (!connection) {
+    connection = {
+      groupId,
+      token,
+      socket: null,
+      listeners: new Set(),
+      attempts: 0,
+      reconnectTimer: null,
+      closed: false,
+    };
+    connections.set(groupId, connection);
+    connect(connection);
+  } else {
+    // Used on the next reconnect
+    connection.token = token;
+  }
+
+  const current = connection;
+  current.listeners.add(onEvent);
+
+  return () => {
+    current.listeners.delete(onEvent);
+    if (current.listeners.size > 0) return;
+
+    current.closed = true;
+    if (current.reconnectTimer) clearTimeout(current.reconnectTimer);
+    current.socket?.close();
+    connections.delete(groupId);
+  };
+}
@@ -0,0 +1,248 @@
+/**
+ * Portfolio Returns
+ * Time-weighted and money-weighted return of a ranch over a period, from its
+ * executed transactions and `/groups/{id}/holdings` valuations
+ */
+
+import { getGroupHoldings } from './groups';
+import { balanceEffect, EMPTY_LEDGER_FILTERS, getFullLedger } from './ledger';
+import { getProposalKind } from './policy';
+import type { Transaction } from './transactions';
+import type { Group } from './types';
+
+export const RETURN_PERIODS = ['1D', '1W', '1M', 'YTD', 'ALL'] as const;
+export type ReturnPeriod = (typeof RETURN_PERIODS)[number];
+
+export const RETURN_PERIOD_LABELS: Record<ReturnPeriod, string> = {
+  '1D': '1D',
+  '1W': '1W',
+  '1M': '1M',
+  YTD: 'YTD',
+  ALL: 'All',
+};
+
+/**
+ * Money moved into (+) or out of (-) a ranch by its members: deposits, approved
+ * investment proposals and withdrawals. Trades only move money within the ranch,
+ * so they are not flows.
+ */
+export interface ExternalFlow {
+  at: Date;
+  amount: number;
+}
+
+export interface PortfolioReturn {
+  period: ReturnPeriod;
+  start: Date;
+  end: Date;
+  startValue: number; // cash + holdings when the period started
+  endValue: number; // cash + holdings now
+  flows: ExternalFlow[]; // oldest first
+  netFlows: number; // deposits + investments - withdrawals during the period
+  gain: number; // endValue - startValue - netFlows
+  timeWeighted: number | null; // 0.05 = 5%, null with no capital to measure
+  moneyWeighted: number | null; // over the whole period, not annualized
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Holdings snapshots requested per return, however long the period
+const MAX_VALUATION_POINTS = 24;
+
+const ledgerDate = (transaction: Transaction) => transaction.executedAt ?? transaction.createdAt;
+
+const isFlow = (transaction: Transaction) => {
+  const kind = getProposalKind(transaction);
+  return kind === 'deposit' || kind === 'investment' || kind === 'withdrawal';
+};
+
+/**
+ * When a period starts. 'ALL' starts at `inception`, the ranch's first activity.
+ */
+export function getPeriodStart(period: ReturnPeriod, now: Date, inception: Date): Date {
+  switch (period) {
+    case '1D':
+      return new Date(now.getTime() - DAY_MS);
+    case '1W':
+      return new Date(now.getTime() - 7 * DAY_MS);
+    case '1M':
+      return new Date(now.getFullYear(), now.getMonth() - 1, now.getDate(), now.getHours(), now.getMinutes());
+    case 'YTD':
+      return new Date(now.getFullYear(), 0, 1);
+    case 'ALL':
+      return inception;
+  }
+}
+
+/**
+ * Chain-link the growth between flows: each sub-period runs from just after one
+ * flow to just before the next, so the timing of deposits does not count
+ */
+export function timeWeightedReturn(
+  startValue: number,
+  valuations: { before: number; flow: number }[],
+  endValue: number
+): number | null {
+  let growth = 1;
+  let measured = false;
+  let base = startValue;
+  [...valuations, { before: endValue, flow: 0 }].forEach(({ before, flow }) => {
+    if (base > 0) {
+      growth *= before / base;
+      measured = true;
+    }
+    base = before + flow;
+  });
+  return measured ? growth - 1 : null;
+}
+
+/**
+ * The single rate over the period that grows the start value and every flow into
+ * the end value (an IRR), found by bisection
+ */
+export function moneyWeightedReturn(
+  startValue: number,
+  flows: ExternalFlow[],
+  endValue: number,
+  start: Date,
+  end: Date
+): number | null {
+  const span = end.getTime() - start.getTime();
+  if (span <= 0 || (startValue <= 0 && !flows.some((flow) => flow.amount > 0))) return null;
+
+  const futureValue = (rate: number) =>
+    flows.reduce(
+      (total, flow) => total + flow.amount * Math.pow(1 + rate, (end.getTime() - flow.at.getTime()) / span),
+      startValue * (1 + rate)
+    ) - endValue;
+
+  let low = -0.9999;
+  let high = 100;
+  if (futureValue(low) > 0 || futureValue(high) < 0) return null;
+  for (let i = 0; i < 100 && high - low > 1e-9; i++) {
+    const mid = (low + high) / 2;
+    if (futureValue(mid) > 0) high = mid;
+    else low = mid;
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * When to value a ranch's holdings over a period: its start and the first of each
+ * month after it, thinned out evenly to at most MAX_VALUATION_POINTS
+ */
+export function getValuationDates(start: Date, end: Date): Date[] {
+  const dates = [start];
+  let month = new Date(start.getFullYear(), start.getMonth() + 1, 1);
+  while (month < end) {
+    dates.push(month);
+    month = new Date(month.getFullYear(), month.getMonth() + 1, 1);
+  }
+  if (dates.length <= MAX_VALUATION_POINTS) return dates;
+  const step = (dates.length - 1) / (MAX_VALUATION_POINTS - 1);
+  return Array.from({ length: MAX_VALUATION_POINTS }, (_, index) => dates[Math.round(index * step)]);
+}
+
+/**
+ * A ranch's return over a period. Values the ranch at the start, just before each
+ * external flow, and now: cash is walked back from the current balance through the
+ * executed transactions exactly, holdings come from the latest snapshot (see
+ * `getValuationDates`) at or before that moment.
+ */
+export async function getGroupReturn(group: Group, period: ReturnPeriod, token: string): Promise<PortfolioReturn> {
+  const end = new Date();
+  const executed = await getFullLedger(
+    group.groupID,
+    period === 'ALL' ? EMPTY_LEDGER_FILTERS : { ...EMPTY_LEDGER_FILTERS, from: getPeriodStart(period, end, end) },
+    token
+  );
+  const chronological = [...executed].sort((a, b) => ledgerDate(a).getTime() - ledgerDate(b).getTime());
+  const inception =
+    chronological.length > 0
+      ? ledgerDate(chronological[0])
+      : group.createdAt
+        ? new Date(group.createdAt)
+        : end;
+  const start = getPeriodStart(period, end, inception);
+  const inPeriod = chronological.filter((txn) => ledgerDate(txn) >= start);
+
+  // Cash just before `at`: undo everything executed from then on
+  const cashBefore = (at: Date) =>
+    inPeriod
+      .filter((txn) => ledgerDate(txn) >= at)
+      .reduce((cash, txn) => cash - balanceEffect(txn), group.balance);
+
+  const holdingsValue = (at?: Date) =>
+    getGroupHoldings(group.groupID, token, at).then((holdings) =>
+      holdings.reduce((total, holding) => total + holding.current_value, 0)
+    );
+
+  const valuationDates = getValuationDates(start, end);
+  const [endHoldings, snapshots] = await Promise.all([
+    holdingsValue(),
+    Promise.all(valuationDates.map((at) => holdingsValue(at))),
+  ]);
+  const holdingsAt = (at: Date) =>
+    valuationDates.reduce((value, date, index) => (date <= at ? snapshots[index] : value), snapshots[0]);
+
+  const flowTransactions = inPeriod.filter(isFlow);
+  const startValue = cashBefore(start) + snapshots[0];
+  const endValue = group.balance + endHoldings;
+  const flows = flowTransactions.map((txn) => ({ at: ledgerDate(txn), amount: balanceEffect(txn) }));
+  const valuations = flowTransactions.map((txn, index) => ({
+    before: cashBefore(ledgerDate(txn)) + holdingsAt(ledgerDate(txn)),
+    flow: flows[index].amount,
+  }));
+  const netFlows = flows.reduce((total, flow) => total + flow.amount, 0);
+
+  return {
+    period,
+    start,
+    end,
+    startValue,
+    endValue,
+    flows,
+    netFlows,
+    gain: endValue - startValue - netFlows,
+    timeWeighted: timeWeightedReturn(startValue, valuations, endValue),
+    moneyWeighted: moneyWeightedReturn(startValue, flows, endValue, start, end),
+  };
+}
+
+/**
+ * Several ranches as one portfolio. The money-weighted return is solved over the
+ * combined flows; the time-weighted one averages each ranch's, weighted by the
+ * capital it had at work.
+ */
+export function combineReturns(returns: PortfolioReturn[], period: ReturnPeriod): PortfolioReturn | null {
+  if (returns.length === 0) return null;
+  const start = new Date(Math.min(...returns.map((item) => item.start.getTime())));
+  const end = new Date(Math.max(...returns.map((item) => item.end.getTime())));
+  const startValue = returns.reduce((total, item) => total + item.startValue, 0);
+  const endValue = returns.reduce((total, item) => total + item.endValue, 0);
+  const flows = returns
+    .flatMap((item) => item.flows)
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+  const netFlows = returns.reduce((total, item) => total + item.netFlows, 0);
+
+  const capital = (item: PortfolioReturn) =>
+    item.startValue + item.flows.reduce((total, flow) => total + Math.max(0, flow.amount), 0);
+  const weighted = returns.filter((item) => item.timeWeighted !== null && capital(item) > 0);
+  const totalCapital = weighted.reduce((total, item) => total + capital(item), 0);
+
+  return {
+    period,
+    start,
+    end,
+    startValue,
+    endValue,
+    flows,
+    netFlows,
+    gain: endValue - startValue - netFlows,
+    timeWeighted:
+      totalCapital > 0
+        ? weighted.reduce((total, item) => total + (item.timeWeighted ?? 0) * capital(item), 0) / totalCapital
+        : null,
+    moneyWeighted: moneyWeightedReturn(startValue, flows, endValue, start, end),
+  };
+}
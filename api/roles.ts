@@ -0,0 +1,164 @@
+/**
+ * Roles & Permissions
+ * Who may do what in a ranch (owner > admin > member), changing a member's role,
+ * handing the ranch to another member, and removing members, each directly or
+ * through a vote when the ranch policy asks for one
+ */
+
+import { apiRequest } from './client';
+import { removeMember } from './groups';
+import type { ApprovalPolicy } from './policy';
+import { createTransaction } from './transactions';
+import type { Group, MemberRole } from './types';
+
+export const MEMBER_ROLES: MemberRole[] = ['owner', 'admin', 'member'];
+
+export const PERMISSIONS = [
+  'dissolveRanch',
+  'manageMembers',
+  'changeRoles',
+  'transferOwnership',
+  'editPolicy',
+  'execute',
+] as const;
+export type Permission = (typeof PERMISSIONS)[number];
+
+/**
+ * What each role may do. Everyone can deposit, propose, vote and leave.
+ */
+export const ROLE_PERMISSIONS: Record<MemberRole, Permission[]> = {
+  owner: ['dissolveRanch', 'manageMembers', 'changeRoles', 'transferOwnership', 'editPolicy', 'execute'],
+  admin: ['manageMembers', 'execute'],
+  member: [],
+};
+
+export const ROLE_LABELS: Record<MemberRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  member: 'Member',
+};
+
+const ROLE_RANK: Record<MemberRole, number> = { owner: 2, admin: 1, member: 0 };
+
+type GroupRoles = Pick<Group, 'roles'> & Partial<Pick<Group, 'ownerId' | 'createdBy'>>;
+
+/**
+ * The group's current owner: `ownerId`, else whoever `roles` lists as owner.
+ * Only a group that reports neither (never transferred) falls back to its creator.
+ */
+export function getGroupOwner(group: GroupRoles): string | null {
+  if (group.ownerId) return group.ownerId;
+  const owner = Object.keys(group.roles ?? {}).find((userId) => group.roles?.[userId] === 'owner');
+  return owner ?? group.createdBy ?? null;
+}
+
+/**
+ * A member's role in a group, there is exactly one owner (see `getGroupOwner`)
+ */
+export function getMemberRole(group: GroupRoles, userId: string | null): MemberRole {
+  if (!userId) return 'member';
+  if (userId === getGroupOwner(group)) return 'owner';
+  const role = group.roles?.[userId];
+  return role && role !== 'owner' ? role : 'member';
+}
+
+export function hasPermission(role: MemberRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Whether `actor` may remove `target`: only members ranked below them,
+ * so admins cannot remove each other or the owner
+ */
+export function canRemoveMember(actor: MemberRole, target: MemberRole): boolean {
+  return hasPermission(actor, 'manageMembers') && ROLE_RANK[actor] > ROLE_RANK[target];
+}
+
+/**
+ * Make a member an admin or back (owner only). Ownership moves with `requestOwnershipTransfer`.
+ */
+export async function setMemberRole(
+  groupId: string,
+  userId: string,
+  role: Exclude<MemberRole, 'owner'>,
+  token: string
+): Promise<void> {
+  await apiRequest(`/groups/${groupId}/members/${userId}/role`, {
+    method: 'PUT',
+    token,
+    body: { role },
+    errorMessage: 'Failed to change role',
+  });
+}
+
+export type RemovalResult = { status: 'removed' } | { status: 'proposed'; transactionId: string };
+
+/**
+ * Remove a member, or when the policy requires a vote open a `member_removal`
+ * proposal that removes them once it is executed
+ */
+export async function requestMemberRemoval(
+  groupId: string,
+  userId: string,
+  policy: ApprovalPolicy,
+  description: string,
+  token: string
+): Promise<RemovalResult> {
+  if (!policy.removalRequiresVote) {
+    await removeMember(groupId, userId, token);
+    return { status: 'removed' };
+  }
+  const created = await createTransaction(
+    {
+      groupId,
+      amount: 0,
+      description,
+      transactionType: 'member_removal',
+      targetUserId: userId,
+    },
+    token
+  );
+  return { status: 'proposed', transactionId: created.transactionId };
+}
+
+export type TransferResult = { status: 'transferred' } | { status: 'proposed'; transactionId: string };
+
+/**
+ * Hand the ranch to another member (owner only). The previous owner stays on as an admin.
+ */
+export async function transferOwnership(groupId: string, userId: string, token: string): Promise<void> {
+  await apiRequest(`/groups/${groupId}/owner`, {
+    method: 'PUT',
+    token,
+    body: { userId },
+    errorMessage: 'Failed to transfer ownership',
+  });
+}
+
+/**
+ * Transfer ownership, or when the policy requires a vote open an `ownership_transfer`
+ * proposal that hands the ranch over once it is executed
+ */
+export async function requestOwnershipTransfer(
+  groupId: string,
+  userId: string,
+  policy: ApprovalPolicy,
+  description: string,
+  token: string
+): Promise<TransferResult> {
+  if (!policy.transferRequiresVote) {
+    await transferOwnership(groupId, userId, token);
+    return { status: 'transferred' };
+  }
+  const created = await createTransaction(
+    {
+      groupId,
+      amount: 0,
+      description,
+      transactionType: 'ownership_transfer',
+      targetUserId: userId,
+    },
+    token
+  );
+  return { status: 'proposed', transactionId: created.transactionId };
+}
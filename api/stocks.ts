@@ -0,0 +1,83 @@
+/**
+ * Stock API Client
+ * Handles stock lists, quotes, buy and sell proposals, and what a ranch
+ * can still sell out of its holdings
+ */
+
+import { apiRequest } from './client';
+import type { Transaction } from './transactions';
+import type {
+  StockHolding,
+  StockLists,
+  StockQuote,
+  StockTradeRequest,
+  StockTradeResponse,
+} from './types';
+
+/**
+ * Get the tradable stocks grouped by category
+ */
+export async function getStockLists(token: string): Promise<StockLists> {
+  return apiRequest<StockLists>('/stocks/lists', {
+    token,
+    errorMessage: 'Failed to load stock lists',
+  });
+}
+
+/**
+ * Get the latest price for a symbol
+ */
+export async function getStockQuote(
+  symbol: string,
+  token: string
+): Promise<StockQuote> {
+  return apiRequest<StockQuote>(`/stocks/quote/${encodeURIComponent(symbol)}`, {
+    token,
+    errorMessage: `Failed to get price for ${symbol}`,
+  });
+}
+
+/**
+ * Propose buying or selling a stock for a group, members vote on it like any other transaction
+ */
+export async function proposeStockTrade(
+  request: StockTradeRequest,
+  token: string,
+  idempotencyKey?: string
+): Promise<StockTradeResponse> {
+  return apiRequest<StockTradeResponse>('/stocks/trade', {
+    method: 'POST',
+    token,
+    body: request,
+    errorMessage: 'Failed to create trade proposal',
+    idempotencyKey,
+  });
+}
+
+/**
+ * Shares of a holding still free to sell: what the ranch holds minus what
+ * open sell proposals for the same symbol already promise
+ */
+export function getSellableQuantity(holding: StockHolding, proposals: Transaction[]): number {
+  const promised = proposals
+    .filter(
+      (txn) =>
+        (txn.status === 'pending' || txn.status === 'approved') &&
+        txn.trade?.side === 'sell' &&
+        txn.trade.symbol === holding.symbol
+    )
+    .reduce((sum, txn) => sum + (txn.trade?.quantity ?? 0), 0);
+  return Math.max(0, holding.quantity - promised);
+}
+
+/**
+ * Gain or loss from selling `quantity` shares at `price`, when the average cost is known
+ */
+export function estimateRealizedGain(
+  holding: StockHolding,
+  quantity: number,
+  price: number
+): number | undefined {
+  if (holding.average_cost === undefined) return undefined;
+  return (price - holding.average_cost) * quantity;
+}
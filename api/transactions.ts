@@ -3,31 +3,275 @@
  * Handles all transaction-related API calls
  */
 
-// Backend API URL
-// For local development: http://localhost:8080
-// For testing on real device, change to your computer's IP: http://192.168.1.XXX:8080
-const API_BASE_URL = 'http://localhost:8080';
+import { apiRequest } from './client';
+import {
+  DecodeError,
+  expectArray,
+  expectDate,
+  expectNumber,
+  expectObject,
+  expectOneOf,
+  expectString,
+  optionalDate,
+  optionalNumber,
+  optionalString,
+  type RawObject,
+} from './decode';
 
+export const TRANSACTION_STATUSES = [
+  'pending',
+  'approved',
+  'rejected',
+  'executed',
+  'expired',
+  'cancelled',
+] as const;
+export type TransactionStatus = (typeof TRANSACTION_STATUSES)[number];
+
+/** Everything but executed: what the proposals list shows, the ledger pages through the rest */
+export const PROPOSAL_STATUSES: TransactionStatus[] = TRANSACTION_STATUSES.filter(
+  (status) => status !== 'executed'
+);
+
+export type VoteChoice = 'approve' | 'reject';
+
+/**
+ * The one transaction model used by the app.
+ * Always produced by `decodeTransaction`, never built from raw JSON by hand.
+ */
 export interface Transaction {
   transactionID: string;
   groupID: string;
-  userID: string;
-  amount: string;
+  proposedBy: string; // userId of the proposer
+  amount: number;
+  description: string;
+  status: TransactionStatus;
+  transactionType?: string; // "investment", "withdrawal", ...
+  votes: Record<string, VoteChoice>; // userId -> vote
+  voteReasons: Record<string, string>; // userId -> optional reason given with the vote
+  createdAt: Date;
+  executedAt?: Date;
+  expiresAt?: Date; // voting deadline, the backend resolves the proposal per the ranch policy after it
+  commentCount: number;
+  revision: number; // 1 until the proposer amends it
+  previousRevision?: { amount: number; description: string }; // what the last amendment changed
+  voteTimes: Record<string, Date>; // userId -> when the current vote was cast
+  statusHistory: StatusChange[]; // oldest first, empty when the backend does not track it
+  previousBalance?: number; // ranch balance before execution
+  newBalance?: number; // ranch balance after execution
+  trade?: TradeDetails; // set for stock trade proposals
+  targetUserId?: string; // the member a `member_removal` proposal removes, or an `ownership_transfer` hands the ranch to
+}
+
+/**
+ * One step in a transaction's lifecycle, e.g. pending -> approved
+ */
+export interface StatusChange {
+  status: TransactionStatus;
+  at: Date;
+  by?: string; // userId who caused it, absent for automatic changes
+}
+
+export const TRADE_SIDES = ['buy', 'sell'] as const;
+export type TradeSide = (typeof TRADE_SIDES)[number];
+
+export interface TradeDetails {
+  symbol: string;
+  side: TradeSide;
+  quantity: number;
+  fillPrice?: number; // price per share once executed
+  costBasis?: number; // sells: average price per share originally paid
+  realizedGain?: number; // executed sells: proceeds minus what the shares cost
+}
+
+/**
+ * One saved version of an amended proposal, oldest first in the history
+ */
+export interface TransactionRevision {
+  revision: number;
+  amount: number;
   description: string;
-  status: 'pending' | 'approved' | 'rejected' | 'executed';
-  votes: Record<string, 'approve' | 'reject'>;
-  createdAt: string;
-  executedAt?: string;
+  amendedBy: string; // userId
+  createdAt: Date;
+  note?: string;
+}
+
+/**
+ * Validate a transaction payload from the backend and normalize it.
+ * Accepts both `transactionID` and `transactionId` style keys, amounts sent as
+ * strings, boolean votes and `{ vote, reason }` votes. Throws `DecodeError` on
+ * anything else, including statuses the app does not know about.
+ */
+export function decodeTransaction(raw: unknown, path = 'transaction'): Transaction {
+  const data = expectObject(raw, path);
+
+  const rawVotes = data.votes === undefined || data.votes === null ? {} : data.votes;
+  const votes: Record<string, VoteChoice> = {};
+  const voteReasons: Record<string, string> = {};
+  const voteTimes: Record<string, Date> = {};
+  Object.entries(expectObject(rawVotes, `${path}.votes`)).forEach(([userId, raw]) => {
+    let vote = raw;
+    if (raw !== null && typeof raw === 'object') {
+      const detail = expectObject(raw, `${path}.votes.${userId}`);
+      vote = detail.vote;
+      const reason = optionalString(detail.reason, `${path}.votes.${userId}.reason`);
+      if (reason) voteReasons[userId] = reason;
+      const votedAt = optionalDate(detail.votedAt, `${path}.votes.${userId}.votedAt`);
+      if (votedAt) voteTimes[userId] = votedAt;
+    }
+    votes[userId] =
+      typeof vote === 'boolean'
+        ? vote
+          ? 'approve'
+          : 'reject'
+        : expectOneOf(vote, ['approve', 'reject'], `${path}.votes.${userId}`);
+  });
+
+  return {
+    transactionID: expectString(data.transactionID ?? data.transactionId, `${path}.transactionID`),
+    groupID: expectString(data.groupID ?? data.groupId, `${path}.groupID`),
+    proposedBy: expectString(data.proposedBy ?? data.userID ?? data.userId, `${path}.proposedBy`),
+    amount: expectNumber(data.amount, `${path}.amount`),
+    description: typeof data.description === 'string' ? data.description : '',
+    status: expectOneOf(data.status, TRANSACTION_STATUSES, `${path}.status`),
+    transactionType: optionalString(data.transactionType, `${path}.transactionType`),
+    votes,
+    voteReasons,
+    createdAt: expectDate(data.createdAt, `${path}.createdAt`),
+    executedAt: optionalDate(data.executedAt, `${path}.executedAt`),
+    expiresAt: optionalDate(data.expiresAt, `${path}.expiresAt`),
+    commentCount: optionalNumber(data.commentCount, `${path}.commentCount`) ?? 0,
+    revision: optionalNumber(data.revision, `${path}.revision`) ?? 1,
+    previousRevision:
+      data.previousRevision === undefined || data.previousRevision === null
+        ? undefined
+        : decodeRevisionSummary(data.previousRevision, `${path}.previousRevision`),
+    voteTimes,
+    statusHistory:
+      data.statusHistory === undefined || data.statusHistory === null
+        ? []
+        : expectArray(data.statusHistory, `${path}.statusHistory`).map((item, index) =>
+            decodeStatusChange(item, `${path}.statusHistory[${index}]`)
+          ),
+    previousBalance: optionalNumber(data.previousBalance, `${path}.previousBalance`),
+    newBalance: optionalNumber(data.newBalance, `${path}.newBalance`),
+    trade: decodeTradeDetails(data, path),
+    targetUserId: optionalString(data.targetUserId ?? data.targetUserID, `${path}.targetUserId`),
+  };
+}
+
+function decodeStatusChange(raw: unknown, path: string): StatusChange {
+  const data = expectObject(raw, path);
+  return {
+    status: expectOneOf(data.status, TRANSACTION_STATUSES, `${path}.status`),
+    at: expectDate(data.at ?? data.timestamp, `${path}.at`),
+    by: optionalString(data.by ?? data.userId, `${path}.by`),
+  };
+}
+
+// Stock trades carry their symbol either at the top level or in a `trade` object
+function decodeTradeDetails(data: RawObject, path: string): TradeDetails | undefined {
+  const source =
+    data.trade !== undefined && data.trade !== null ? expectObject(data.trade, `${path}.trade`) : data;
+  const symbol = optionalString(source.symbol ?? source.stockSymbol, `${path}.symbol`);
+  if (!symbol) {
+    return undefined;
+  }
+  return {
+    symbol,
+    side: source.side === undefined ? 'buy' : expectOneOf(source.side, TRADE_SIDES, `${path}.side`),
+    quantity: expectNumber(source.quantity, `${path}.quantity`),
+    fillPrice: optionalNumber(source.fillPrice, `${path}.fillPrice`),
+    costBasis: optionalNumber(source.costBasis, `${path}.costBasis`),
+    realizedGain: optionalNumber(source.realizedGain, `${path}.realizedGain`),
+  };
+}
+
+/**
+ * Lifecycle steps for display. Falls back to what the timestamps alone tell us
+ * when the backend sends no `statusHistory`.
+ */
+export function getStatusTimeline(transaction: Transaction): StatusChange[] {
+  if (transaction.statusHistory.length > 0) {
+    return transaction.statusHistory;
+  }
+  const steps: StatusChange[] = [
+    { status: 'pending', at: transaction.createdAt, by: transaction.proposedBy },
+  ];
+  if (transaction.executedAt) {
+    steps.push({ status: 'executed', at: transaction.executedAt });
+  } else if (transaction.status === 'expired' && transaction.expiresAt) {
+    steps.push({ status: 'expired', at: transaction.expiresAt });
+  }
+  return steps;
+}
+
+function decodeRevisionSummary(raw: unknown, path: string) {
+  const data = expectObject(raw, path);
+  return {
+    amount: expectNumber(data.amount, `${path}.amount`),
+    description: typeof data.description === 'string' ? data.description : '',
+  };
+}
+
+export function decodeTransactionRevision(raw: unknown, path = 'revision'): TransactionRevision {
+  const data = expectObject(raw, path);
+  return {
+    ...decodeRevisionSummary(data, path),
+    revision: expectNumber(data.revision, `${path}.revision`),
+    amendedBy: expectString(data.amendedBy ?? data.userId, `${path}.amendedBy`),
+    createdAt: expectDate(data.createdAt, `${path}.createdAt`),
+    note: optionalString(data.note, `${path}.note`),
+  };
+}
+
+/**
+ * Whether members can still vote: pending and the deadline (if any) has not passed.
+ * Between the deadline and the backend resolving it, a proposal is pending but closed.
+ */
+export function isOpenForVoting(
+  transaction: Pick<Transaction, 'status' | 'expiresAt'>,
+  now = Date.now()
+): boolean {
+  return (
+    transaction.status === 'pending' &&
+    (!transaction.expiresAt || transaction.expiresAt.getTime() > now)
+  );
+}
+
+export function decodeTransactions(raw: unknown, path = 'transactions'): Transaction[] {
+  if (raw === undefined || raw === null) {
+    return [];
+  }
+  return expectArray(raw, path).map((item, index) =>
+    decodeTransaction(item, `${path}[${index}]`)
+  );
 }
 
 export interface CreateTransactionRequest {
   groupId: string;
   amount: number;
   description: string;
+  transactionType?: 'investment' | 'withdrawal' | 'deposit' | 'member_removal' | 'ownership_transfer' | 'dissolution';
+  targetUserId?: string; // required for 'member_removal' and 'ownership_transfer'
+  votingPeriodHours?: number; // overrides the ranch's default deadline
+}
+
+export interface AmendTransactionRequest {
+  amount: number;
+  description: string;
+  note?: string; // why it changed, shown in the revision history
+}
+
+export interface CreateTransactionResponse {
+  transactionId: string;
+  message: string;
+  status: string;
 }
 
 export interface VoteRequest {
-  vote: 'approve' | 'reject';
+  vote: VoteChoice;
+  reason?: string;
 }
 
 export interface VoteResponse {
@@ -46,31 +290,27 @@ export interface ExecuteResponse {
   previousBalance: number;
   newBalance: number;
   status: string;
+  realizedGain?: number; // stock sells: proceeds minus what the shares cost
 }
 
+// Ids come from links and the backend, keep them inside their path segment
+const transactionPath = (transactionId: string) => `/transactions/${encodeURIComponent(transactionId)}`;
+
 /**
- * Get all transactions for a group
+ * Get all transactions for a group, optionally only those in `statuses`
  */
 export async function getGroupTransactions(
   groupId: string,
-  token: string
+  token: string,
+  statuses?: TransactionStatus[]
 ): Promise<Transaction[]> {
-  const response = await fetch(
-    `${API_BASE_URL}/transactions?groupId=${groupId}`,
-    {
-      headers: {
-        Authorization: `Bearer ${token}`,
-      },
-    }
+  const query = statuses ? `&status=${statuses.join(',')}` : '';
+  const data = await apiRequest<{ transactions?: unknown }>(
+    `/transactions?groupId=${encodeURIComponent(groupId)}${query}`,
+    { token, errorMessage: 'Failed to fetch transactions' }
   );
-
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.detail || 'Failed to fetch transactions');
-  }
-
-  const data = await response.json();
-  return data.transactions;
+  const transactions = decodeTransactions(data.transactions);
+  return statuses ? transactions.filter((txn) => statuses.includes(txn.status)) : transactions;
 }
 
 /**
@@ -79,19 +319,11 @@ export async function getGroupTransactions(
 export async function getTransactionHistory(
   token: string
 ): Promise<Transaction[]> {
-  const response = await fetch(`${API_BASE_URL}/transactions/history/me`, {
-    headers: {
-      Authorization: `Bearer ${token}`,
-    },
-  });
-
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.detail || 'Failed to fetch transaction history');
-  }
-
-  const data = await response.json();
-  return data.transactions;
+  const data = await apiRequest<{ transactions?: unknown }>(
+    '/transactions/history/me',
+    { token, errorMessage: 'Failed to fetch transaction history' }
+  );
+  return decodeTransactions(data.transactions);
 }
 
 /**
@@ -101,22 +333,14 @@ export async function getTransaction(
   transactionId: string,
   token: string
 ): Promise<Transaction> {
-  const response = await fetch(
-    `${API_BASE_URL}/transactions/${transactionId}`,
-    {
-      headers: {
-        Authorization: `Bearer ${token}`,
-      },
-    }
+  const data = await apiRequest<{ transaction?: unknown }>(
+    transactionPath(transactionId),
+    { token, errorMessage: 'Failed to fetch transaction' }
   );
-
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.detail || 'Failed to fetch transaction');
+  if (!data.transaction) {
+    throw new DecodeError('missing transaction', 'transaction');
   }
-
-  const data = await response.json();
-  return data.transaction;
+  return decodeTransaction(data.transaction);
 }
 
 /**
@@ -124,51 +348,50 @@ export async function getTransaction(
  */
 export async function createTransaction(
   request: CreateTransactionRequest,
-  token: string
-): Promise<{ transactionId: string; message: string; status: string }> {
-  const response = await fetch(`${API_BASE_URL}/transactions`, {
+  token: string,
+  idempotencyKey?: string
+): Promise<CreateTransactionResponse> {
+  return apiRequest<CreateTransactionResponse>('/transactions', {
     method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${token}`,
-    },
-    body: JSON.stringify(request),
+    token,
+    body: request,
+    errorMessage: 'Failed to create transaction',
+    idempotencyKey,
   });
-
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.detail || 'Failed to create transaction');
-  }
-
-  return response.json();
 }
 
 /**
- * Vote on a transaction
+ * Vote on a transaction, or change an earlier vote while it is still open
  */
 export async function voteOnTransaction(
   transactionId: string,
-  vote: 'approve' | 'reject',
-  token: string
+  request: VoteRequest,
+  token: string,
+  idempotencyKey?: string
 ): Promise<VoteResponse> {
-  const response = await fetch(
-    `${API_BASE_URL}/transactions/${transactionId}/vote`,
-    {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${token}`,
-      },
-      body: JSON.stringify({ vote }),
-    }
-  );
-
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.detail || 'Failed to vote on transaction');
-  }
+  return apiRequest<VoteResponse>(`${transactionPath(transactionId)}/vote`, {
+    method: 'POST',
+    token,
+    body: request,
+    errorMessage: 'Failed to vote on transaction',
+    idempotencyKey,
+  });
+}
 
-  return response.json();
+/**
+ * Withdraw the signed-in user's vote while the transaction is still open
+ */
+export async function retractVote(
+  transactionId: string,
+  token: string,
+  idempotencyKey?: string
+): Promise<VoteResponse> {
+  return apiRequest<VoteResponse>(`${transactionPath(transactionId)}/vote`, {
+    method: 'DELETE',
+    token,
+    errorMessage: 'Failed to retract vote',
+    idempotencyKey,
+  });
 }
 
 /**
@@ -178,20 +401,58 @@ export async function executeTransaction(
   transactionId: string,
   token: string
 ): Promise<ExecuteResponse> {
-  const response = await fetch(
-    `${API_BASE_URL}/transactions/${transactionId}/execute`,
-    {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${token}`,
-      },
-    }
-  );
+  return apiRequest<ExecuteResponse>(`${transactionPath(transactionId)}/execute`, {
+    method: 'POST',
+    token,
+    errorMessage: 'Failed to execute transaction',
+  });
+}
 
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.detail || 'Failed to execute transaction');
-  }
+/**
+ * Withdraw a pending proposal (proposer or ranch owner)
+ */
+export async function cancelTransaction(transactionId: string, token: string): Promise<Transaction> {
+  const data = await apiRequest<{ transaction?: unknown }>(`${transactionPath(transactionId)}/cancel`, {
+    method: 'POST',
+    token,
+    errorMessage: 'Failed to cancel proposal',
+  });
+  return decodeTransaction(data.transaction);
+}
 
-  return response.json();
+/**
+ * Replace a pending proposal's amount and description with a new revision.
+ * The backend clears the votes so members vote on what actually changed.
+ */
+export async function amendTransaction(
+  transactionId: string,
+  request: AmendTransactionRequest,
+  token: string
+): Promise<Transaction> {
+  const data = await apiRequest<{ transaction?: unknown }>(`${transactionPath(transactionId)}/amend`, {
+    method: 'POST',
+    token,
+    body: request,
+    errorMessage: 'Failed to amend proposal',
+  });
+  return decodeTransaction(data.transaction);
+}
+
+/**
+ * Every revision of a transaction, oldest first
+ */
+export async function getTransactionRevisions(
+  transactionId: string,
+  token: string
+): Promise<TransactionRevision[]> {
+  const data = await apiRequest<{ revisions?: unknown }>(`${transactionPath(transactionId)}/revisions`, {
+    token,
+    errorMessage: 'Failed to load revision history',
+  });
+  if (data.revisions === undefined || data.revisions === null) {
+    return [];
+  }
+  return expectArray(data.revisions, 'revisions')
+    .map((item, index) => decodeTransactionRevision(item, `revisions[${index}]`))
+    .sort((a, b) => a.revision - b.revision);
 }
@@ -18,25 +18,45 @@ export interface AuthResponse {
   userId: string;
   username: string;
   token: string;
-  role: 'member' | 'owner';
+  role: MemberRole;
 }
 
 // ========== Group Types ==========
 
+// owner > admin > member, what each may do is in api/roles.ts
+export type MemberRole = 'owner' | 'admin' | 'member';
+
 export interface CreateGroupRequest {
   name: string;
-  description: string;
-  initialBalance?: number;
+  createdBy: string;
 }
 
 export interface Group {
-  groupId: string;
+  groupID: string;
   name: string;
-  description: string;
-  ownerId: string;
-  balance: number;
+  createdBy: string;
+  ownerId?: string; // current owner, moves on with an ownership transfer
+  balance: number; // liquid cash
+  investedAmount?: number;
+  totalAssets?: number; // liquid + invested
   members: string[];
-  createdAt: string;
+  roles?: Record<string, MemberRole>; // userId -> role, members left out are plain members
+  createdAt?: string;
+  archivedAt?: string; // set once the ranch is dissolved, its ledger is then read-only
+}
+
+export interface GroupResponse {
+  group: Group;
+}
+
+// Members of one ranch with their usernames, nothing about anyone else
+export interface GroupMember {
+  userId: string;
+  username: string;
+}
+
+export interface GroupMembersResponse {
+  members: GroupMember[];
 }
 
 export interface GroupSummary {
@@ -45,7 +65,7 @@ export interface GroupSummary {
   description: string;
   balance: number;
   memberCount: number;
-  role: 'owner' | 'member';
+  role: MemberRole;
 }
 
 export interface GroupsResponse {
@@ -56,59 +76,109 @@ export interface AddMemberRequest {
   userId: string;
 }
 
-// ========== Transaction Types ==========
-
-export interface CreateTransactionRequest {
-  groupId: string;
-  description: string;
+export interface DepositRequest {
   amount: number;
-  category: string;
 }
 
-export interface Transaction {
-  transactionId: string;
-  groupId: string;
-  description: string;
-  amount: number;
-  proposedBy: string;
-  status: 'pending' | 'approved' | 'rejected';
-  votes: Record<string, boolean>; // userId -> approve/reject
-  createdAt: string;
+export interface DepositResponse {
+  message: string;
+  userBalance?: number; // caller's personal balance after the deposit
+  newBalance?: number; // group balance after the deposit
 }
 
-export interface VoteRequest {
-  approve: boolean;
+export interface StockHolding {
+  symbol: string;
+  name: string;
+  quantity: number;
+  current_price: number;
+  current_value: number;
+  percentage: number;
+  average_cost?: number; // what the ranch paid per share, on average
 }
 
-export interface VoteResponse {
-  message: string;
-  transactionId: string;
-  status: 'pending' | 'approved' | 'rejected';
-  voteCount: number;
-  requiredVotes: number;
+export interface HoldingsResponse {
+  holdings: StockHolding[];
 }
 
+// ========== Transaction Types ==========
+
+// Transactions are modelled and validated in api/transactions.ts (`decodeTransaction`)
+
 // ========== User Types ==========
 
 export interface User {
   userId: string;
   username: string;
   email: string;
-  role: 'member' | 'owner';
+  role: MemberRole;
   groups: string[]; // array of groupIds
   createdAt: string;
 }
 
+// Response of GET /users/me, groups are expanded
+export interface UserProfile {
+  userId: string;
+  username: string;
+  email: string;
+  balance: number;
+  totalInvested?: number;
+  groups: Group[];
+}
+
+export interface BalanceResponse {
+  message?: string;
+  newBalance: number;
+}
+
+export interface InitializeBalanceResponse extends BalanceResponse {
+  initialized: boolean;
+}
+
+// ========== Stock Types ==========
+
+export interface Stock {
+  symbol: string;
+  name: string;
+  price?: number;
+  change?: number;
+  change_percent?: number;
+}
+
+// category key (e.g. "blue_chips") -> stocks
+export type StockLists = Record<string, Stock[]>;
+
+export interface StockQuote {
+  symbol: string;
+  price: number;
+  change: number;
+  change_percent: number;
+}
+
+export interface StockTradeRequest {
+  symbol: string;
+  quantity: number;
+  group_id: string;
+  side?: 'buy' | 'sell'; // 'buy' when omitted
+  voting_period_hours?: number; // overrides the ranch's default deadline
+}
+
+export interface StockTradeResponse {
+  message: string;
+  transactionId?: string;
+  status?: string;
+}
+
 // ========== API Error Types ==========
 
-export interface ApiError {
+// Error body sent by the backend, surfaced to callers as `ApiError` from api/client
+export interface ApiErrorResponse {
   detail: string;
   status?: number;
 }
 
 // ========== Utility Types ==========
 
-export type ApiResponse<T> = T | ApiError;
+export type ApiResponse<T> = T | ApiErrorResponse;
 
 export interface HealthResponse {
   status: 'healthy' | 'unhealthy';
@@ -0,0 +1,46 @@
+/**
+ * User API Client
+ * Handles the signed-in user's profile and balance
+ */
+
+import { apiRequest } from './client';
+import type {
+  BalanceResponse,
+  InitializeBalanceResponse,
+  UserProfile,
+} from './types';
+
+/**
+ * Get the signed-in user's profile, balance and groups
+ */
+export async function getCurrentUser(token: string): Promise<UserProfile> {
+  const data = await apiRequest<UserProfile>('/users/me', {
+    token,
+    errorMessage: 'Failed to fetch user details',
+  });
+  return { ...data, groups: data.groups || [] };
+}
+
+/**
+ * Give an existing account its starting balance if it has none
+ */
+export async function initializeBalance(
+  token: string
+): Promise<InitializeBalanceResponse> {
+  return apiRequest<InitializeBalanceResponse>('/users/me/initialize-balance', {
+    method: 'POST',
+    token,
+    errorMessage: 'Failed to initialize balance',
+  });
+}
+
+/**
+ * Add $1000 of play money to the signed-in user's balance
+ */
+export async function addFunds(token: string): Promise<BalanceResponse> {
+  return apiRequest<BalanceResponse>('/users/me/add-funds', {
+    method: 'POST',
+    token,
+    errorMessage: 'Failed to add funds',
+  });
+}
@@ -1,15 +1,76 @@
 import * as Haptics from 'expo-haptics';
-import { Tabs } from 'expo-router';
+import { Redirect, Tabs, useGlobalSearchParams, usePathname } from 'expo-router';
 import React from 'react';
-import { Alert, Pressable } from 'react-native';
+import { ActivityIndicator, Alert, Pressable, View } from 'react-native';
 
+import type { OutboxConflict } from '@/api';
 import { HapticTab } from '@/components/haptic-tab';
 import { Colors } from '@/constants/theme';
+import { useAuth } from '@/contexts/AuthContext';
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useOutboxSync } from '@/hooks/use-outbox';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 
+// Rebuild the URL that was requested (e.g. /ranch?id=...) so login can send the user back to it
+const buildReturnPath = (pathname: string, params: Record<string, string | string[] | undefined>) => {
+  const query = Object.entries(params)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) =>
+      `${encodeURIComponent(key)}=${encodeURIComponent(Array.isArray(value) ? value.join(',') : String(value))}`
+    )
+    .join('&');
+  return query ? `${pathname}?${query}` : pathname;
+};
+
+const describeConflict = ({ item, reason }: OutboxConflict) => {
+  const { mutation } = item;
+  switch (mutation.kind) {
+    case 'vote':
+      return `Your ${mutation.vote} vote was not applied: ${reason}`;
+    case 'retractVote':
+      return `Your vote was not retracted: ${reason}`;
+    case 'deposit':
+      return `Deposit of $${mutation.amount.toLocaleString()} was not applied: ${reason}`;
+    case 'createTransaction':
+      return `Proposal "${mutation.request.description}" was not created: ${reason}`;
+    case 'stockTrade':
+      return `${mutation.request.side === 'sell' ? 'Sell' : 'Buy'} proposal for ${mutation.request.quantity} ${mutation.request.symbol} was not created: ${reason}`;
+  }
+};
+
 export default function TabLayout() {
   const colorScheme = useColorScheme();
+  const { isAuthenticated, isLoading, sessionExpired, token } = useAuth();
+  const pathname = usePathname();
+  const params = useGlobalSearchParams();
+
+  // Replay votes/deposits/proposals queued while offline once the backend is back
+  useOutboxSync(token, (conflicts) => {
+    Alert.alert('Some Offline Changes Were Not Synced', conflicts.map(describeConflict).join('\n\n'));
+  });
+
+  // Auth gate: nothing under (tabs) renders without a session
+  if (isLoading) {
+    return (
+      <View style={{ flex: 1, backgroundColor: '#0B1120', justifyContent: 'center', alignItems: 'center' }}>
+        <ActivityIndicator size="large" color="#ffffff" />
+      </View>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return (
+      <Redirect
+        href={{
+          pathname: '/login',
+          params: {
+            redirect: buildReturnPath(pathname, params),
+            ...(sessionExpired ? { reason: 'expired' } : {}),
+          },
+        }}
+      />
+    );
+  }
 
   return (
     <Tabs
@@ -1,8 +1,9 @@
+import { addFunds, getCurrentUser, getErrorMessage, initializeBalance as initializeUserBalance } from '@/api';
 import ParallaxScrollView from '@/components/parallax-scroll-view';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
+import { useAuth } from '@/contexts/AuthContext';
 import { useRouter } from 'expo-router';
-import * as SecureStore from 'expo-secure-store';
 import React, { useEffect, useState } from 'react';
 import {
     ActivityIndicator,
@@ -10,40 +11,15 @@ import {
     Image,
     ImageBackground,
     Platform,
+    Pressable,
     StyleSheet,
     TouchableOpacity,
     View
 } from 'react-native';
 
-const API_BASE_URL = 'http://localhost:8080';
-
-// Platform-specific storage helpers
-const storeData = async (key: string, value: string) => {
-  if (Platform.OS === 'web') {
-    localStorage.setItem(key, value);
-  } else {
-    await SecureStore.setItemAsync(key, value);
-  }
-};
-
-const getData = async (key: string) => {
-  if (Platform.OS === 'web') {
-    return localStorage.getItem(key);
-  } else {
-    return await SecureStore.getItemAsync(key);
-  }
-};
-
-const removeData = async (key: string) => {
-  if (Platform.OS === 'web') {
-    localStorage.removeItem(key);
-  } else {
-    await SecureStore.deleteItemAsync(key);
-  }
-};
-
 export default function AccountScreen() {
   const router = useRouter();
+  const { token, isLoading: authLoading, logout } = useAuth();
   const [userId, setUserId] = useState('');
   const [username, setUsername] = useState('');
   const [email, setEmail] = useState('');
@@ -56,8 +32,6 @@ export default function AccountScreen() {
     // Fetch user details from backend
     const fetchUserDetails = async () => {
       try {
-        const token = await getData('authToken');
-        
         if (!token) {
           console.log('⚠️ Not logged in, redirecting to login');
           router.replace('/login');
@@ -65,31 +39,18 @@ export default function AccountScreen() {
         }
 
         console.log('🔍 Fetching user details from /users/me');
-        const response = await fetch(`${API_BASE_URL}/users/me`, {
-          headers: {
-            'Authorization': `Bearer ${token}`,
-          },
-        });
+        const data = await getCurrentUser(token);
+        console.log('✅ User data loaded:', data);
+        setUserId(data.userId || 'Not available');
+        setUsername(data.username || 'Not available');
+        setEmail(data.email || 'Not available');
+        setBalance(data.balance || 0);
+        setTotalInvested(data.totalInvested || 0);
 
-        if (response.ok) {
-          const data = await response.json();
-          console.log('✅ User data loaded:', data);
-          setUserId(data.userId || 'Not available');
-          setUsername(data.username || 'Not available');
-          setEmail(data.email || 'Not available');
-          setBalance(data.balance || 0);
-          setTotalInvested(data.totalInvested || 0);
-          
-          // If balance is 0, initialize it for existing users
-          if (data.balance === 0 || data.balance === undefined) {
-            console.log('⚠️ Balance is 0, initializing...');
-            await initializeBalance(token);
-          }
-        } else {
-          console.error('❌ Failed to fetch user details:', response.status);
-          setUserId('Unable to load');
-          setUsername('Unable to load');
-          setEmail('Unable to load');
+        // If balance is 0, initialize it for existing users
+        if (data.balance === 0 || data.balance === undefined) {
+          console.log('⚠️ Balance is 0, initializing...');
+          await initializeBalance(token);
         }
       } catch (error) {
         console.error('❌ Error fetching user details:', error);
@@ -101,25 +62,18 @@ export default function AccountScreen() {
       }
     };
 
-    fetchUserDetails();
-  }, []);
+    if (!authLoading) {
+      fetchUserDetails();
+    }
+  }, [token, authLoading]);
 
   const initializeBalance = async (token: string) => {
     try {
       console.log('💰 Initializing balance...');
-      const response = await fetch(`${API_BASE_URL}/users/me/initialize-balance`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        console.log('✅ Balance initialized:', data);
-        if (data.initialized) {
-          setBalance(data.newBalance);
-        }
+      const data = await initializeUserBalance(token);
+      console.log('✅ Balance initialized:', data);
+      if (data.initialized) {
+        setBalance(data.newBalance);
       }
     } catch (error) {
       console.error('❌ Error initializing balance:', error);
@@ -131,35 +85,21 @@ export default function AccountScreen() {
     setAddingFunds(true);
     
     try {
-      const token = await getData('authToken');
-      
       if (!token) {
         Alert.alert('Error', 'Please log in again');
         return;
       }
 
-      const response = await fetch(`${API_BASE_URL}/users/me/add-funds`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        console.log('✅ Funds added:', data);
-        setBalance(data.newBalance);
-        Alert.alert(
-          'Success! 💰',
-          `Added $1000 to your account!\n\nNew balance: $${data.newBalance.toFixed(2)}`
-        );
-      } else {
-        console.error('❌ Failed to add funds:', response.status);
-        Alert.alert('Error', 'Failed to add funds. Please try again.');
-      }
+      const data = await addFunds(token);
+      console.log('✅ Funds added:', data);
+      setBalance(data.newBalance);
+      Alert.alert(
+        'Success! 💰',
+        `Added $1000 to your account!\n\nNew balance: $${data.newBalance.toFixed(2)}`
+      );
     } catch (error) {
       console.error('❌ Error adding funds:', error);
-      Alert.alert('Error', 'Network error occurred');
+      Alert.alert('Error', getErrorMessage(error, 'Failed to add funds. Please try again.'));
     } finally {
       setAddingFunds(false);
     }
@@ -173,9 +113,7 @@ export default function AccountScreen() {
       const confirmed = window.confirm('Are you sure you want to log out?');
       if (confirmed) {
         console.log('🚪 Logout confirmed, clearing data...');
-        await removeData('authToken');
-        await removeData('userId');
-        await removeData('username');
+        await logout();
         console.log('🚪 Logged out successfully');
         router.replace('/login');
       } else {
@@ -193,9 +131,7 @@ export default function AccountScreen() {
             style: 'destructive',
             onPress: async () => {
               console.log('🚪 Logout confirmed, clearing data...');
-              await removeData('authToken');
-              await removeData('userId');
-              await removeData('username');
+              await logout();
               console.log('🚪 Logged out successfully');
               router.replace('/login');
             }
@@ -221,7 +157,10 @@ export default function AccountScreen() {
       }
     >
       <ThemedView style={styles.titleContainer}>
-        <ThemedText style={styles.titleText}>👤 Account</ThemedText>
+        {/* Long-press opens the hidden developer screen (backend picker) */}
+        <Pressable onLongPress={() => router.push('/developer')} delayLongPress={1500}>
+          <ThemedText style={styles.titleText}>👤 Account</ThemedText>
+        </Pressable>
       </ThemedView>
 
       {loading ? (
@@ -1,16 +1,47 @@
+import {
+  acceptInvite,
+  createGroup,
+  declineInvite,
+  fetchQuery,
+  getCached,
+  getCurrentUser,
+  combineReturns,
+  getErrorMessage,
+  getGroupReturn,
+  getGroupTransactions,
+  getMyInvites,
+  getMyJoinRequests,
+  getProposalKind,
+  getTransactionHistory,
+  isOpenForVoting,
+  PROPOSAL_STATUSES,
+  queryKeys,
+  RETURN_PERIOD_LABELS,
+  RETURN_PERIODS,
+  revalidateQuery,
+  updateCachedQuery,
+  type Group,
+  type Invite,
+  type JoinRequest,
+  type PortfolioReturn,
+  type ReturnPeriod,
+  type Transaction,
+  type UserProfile,
+} from "@/api";
+import { OfflineBanner } from "@/components/offline-banner";
 import ParallaxScrollView from "@/components/parallax-scroll-view";
 import { ThemedText } from "@/components/themed-text";
 import { ThemedView } from "@/components/themed-view";
+import { useAuth } from "@/contexts/AuthContext";
+import { useGroupEvents } from "@/hooks/use-group-events";
 import { useFocusEffect, useRouter } from "expo-router";
-import * as SecureStore from "expo-secure-store";
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import {
   ActivityIndicator,
   Alert,
   Image,
   ImageBackground,
   Modal,
-  Platform,
   StyleSheet,
   TextInput,
   TouchableOpacity,
@@ -18,21 +49,6 @@ import {
   View,
 } from "react-native";
 
-const API_BASE_URL = Platform.select({
-  ios: "http://localhost:8080",
-  android: "http://10.0.2.2:8080",
-  web: "http://localhost:8080",
-}) as string;
-
-// Helper function to get data (works on web and native)
-const getData = async (key: string) => {
-  if (Platform.OS === "web") {
-    return localStorage.getItem(key);
-  } else {
-    return await SecureStore.getItemAsync(key);
-  }
-};
-
 interface Ranch {
   id: string;
   name: string;
@@ -41,37 +57,50 @@ interface Ranch {
   investedAmount: number;
   members: string[];
   pendingApprovals?: number; // NEW: Track pending approvals
+  archived?: boolean; // Dissolved, kept as a read-only ledger
 }
 
+// An executed deposit or investment the signed-in user made in one of their ranches
 interface Contribution {
+  transactionId: string;
   ranchId: string;
   ranchName: string;
   amount: number;
-  date: string;
+  date: Date;
+  kind: "deposit" | "investment";
 }
 
-const getMockReturn = (balance: number) => {
-  // NEW: If balance is less than $60, return 0%
-  if (balance < 60) {
-    return `+$0.00 (0.0%)`;
-  }
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Computed returns are reused for this long before the ledger and holdings are fetched again
+const RETURNS_MAX_AGE_MS = 10 * 60 * 1000;
 
-  const percent = (Math.random() * 3 + 1) / 100;
-  const amount = Math.round(balance * percent * 100) / 100;
-  const percentString = (percent * 100).toFixed(1);
-  return `+$${amount.toLocaleString()} (${percentString}%)`;
-};
+const formatPercent = (value: number | null) =>
+  value === null ? "—" : `${value < 0 ? "" : "+"}${(value * 100).toFixed(2)}%`;
+
+const formatGain = (amount: number) =>
+  `${amount < 0 ? "-" : "+"}$${Math.abs(amount).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
 
 export default function HomeScreen() {
   const router = useRouter();
   const { width } = useWindowDimensions();
+  const { token, userId } = useAuth();
 
   const [ranches, setRanches] = useState<Ranch[]>([]);
-  const [contributions, setContributions] = useState<Contribution[]>([]);
+  const [history, setHistory] = useState<Transaction[]>([]); // The user's transactions across ranches
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [returnPeriod, setReturnPeriod] = useState<ReturnPeriod>("1M");
+  const [returns, setReturns] = useState<Record<string, PortfolioReturn>>({}); // ranch id -> latest computed return
+  const [invitations, setInvitations] = useState<Invite[]>([]); // Invites addressed to the user
+  const [joinRequests, setJoinRequests] = useState<JoinRequest[]>([]); // The user's own requests to join ranches
+  const [respondingTo, setRespondingTo] = useState<string | null>(null); // Invite code being accepted / declined
   const [addRanchModalVisible, setAddRanchModalVisible] = useState(false);
   const [newRanchName, setNewRanchName] = useState("");
   const [loading, setLoading] = useState(false);
   const [fetchingRanches, setFetchingRanches] = useState(true);
+  const [lastUpdated, setLastUpdated] = useState<number | null>(null);
 
   // Responsive columns
   const breakpoint768 = 768;
@@ -79,118 +108,103 @@ export default function HomeScreen() {
   const numColumns =
     width >= breakpoint1200 ? 3 : width >= breakpoint768 ? 2 : 1;
 
-  // Fetch pending approvals for a ranch
-  const fetchPendingApprovals = async (ranchId: string, token: string) => {
+  // Count pending transactions that the user hasn't voted on yet
+  const countPendingApprovals = (transactions: Transaction[]) =>
+    transactions.filter((tx) => {
+      if (!userId) return false;
+      // Proposals past their deadline can no longer be voted on, even before the backend resolves them
+      return isOpenForVoting(tx) && (!tx.votes || !tx.votes[userId]);
+    }).length;
+
+  // Fetch pending approvals for a ranch (cachedOnly: read the last known list without hitting the network)
+  const fetchPendingApprovals = async (
+    ranchId: string,
+    token: string,
+    cachedOnly: boolean
+  ) => {
     try {
-      const response = await fetch(
-        `${API_BASE_URL}/transactions?groupId=${ranchId}`,
-        {
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
-        }
-      );
-
-      if (response.ok) {
-        const userId = await getData("userId");
-        const data = await response.json();
-        // Count pending transactions that the user hasn't voted on yet
-        const pendingCount =
-          data.transactions?.filter((tx: any) => {
-            if (!userId) return false;
-            return tx.status === "pending" && (!tx.votes || !tx.votes[userId]);
-          }).length || 0;
-        return pendingCount;
-      }
-      return 0;
+      const key = queryKeys.groupTransactions(ranchId);
+      const entry = cachedOnly
+        ? await getCached<Transaction[]>(key)
+        : await fetchQuery(key, () => getGroupTransactions(ranchId, token, PROPOSAL_STATUSES));
+      return entry ? countPendingApprovals(entry.data) : 0;
     } catch (error) {
       console.error("Error fetching pending approvals:", error);
       return 0;
     }
   };
 
-  // Fetch user's ranches from backend
+  const applyUserData = async (
+    data: UserProfile,
+    token: string,
+    fromCache: boolean
+  ) => {
+    console.log(fromCache ? "💾 Cached user data:" : "📦 User data:", data);
+    setGroups(data.groups);
+
+    if (data.groups.length > 0) {
+      // Fetch pending approvals for each ranch
+      const userRanches: Ranch[] = await Promise.all(
+        data.groups.map(async (group) => {
+          const pendingApprovals = await fetchPendingApprovals(
+            group.groupID,
+            token,
+            fromCache
+          );
+          return {
+            id: group.groupID,
+            name: group.name,
+            liquidBalance: group.balance || 0,
+            investedAmount: group.investedAmount || 0,
+            balance:
+              group.totalAssets ||
+              group.balance + (group.investedAmount || 0) ||
+              0,
+            members: group.members || [],
+            pendingApprovals,
+            archived: !!group.archivedAt,
+          };
+        })
+      );
+
+      console.log("✅ Loaded ranches:", userRanches);
+      setRanches(userRanches);
+
+    } else {
+      console.log("📭 No ranches found");
+      setRanches([]);
+    }
+  };
+
+  // Fetch user's ranches: render the cached copy instantly, then revalidate from the backend
   const fetchRanches = async () => {
     try {
-      const token = await getData("authToken");
-
       if (!token) {
         console.log("⚠️ Not logged in, skipping ranch fetch");
+        setRanches([]);
+        setHistory([]);
+        setGroups([]);
+        setInvitations([]);
+        setJoinRequests([]);
+        setLastUpdated(null);
         setFetchingRanches(false);
         return;
       }
 
       console.log("🔍 Fetching ranches from /users/me");
-      const response = await fetch(`${API_BASE_URL}/users/me`, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
-
-      console.log("📡 Response status:", response.status);
-
-      if (response.ok) {
-        const data = await response.json();
-        console.log("📦 User data:", data);
-
-        if (data.groups && data.groups.length > 0) {
-          // Fetch pending approvals for each ranch
-          const userRanches: Ranch[] = await Promise.all(
-            data.groups.map(async (group: any) => {
-              const pendingApprovals = await fetchPendingApprovals(
-                group.groupID,
-                token
-              );
-              return {
-                id: group.groupID,
-                name: group.name,
-                liquidBalance: group.balance || 0,
-                investedAmount: group.investedAmount || 0,
-                balance:
-                  group.totalAssets ||
-                  group.balance + (group.investedAmount || 0) ||
-                  0,
-                members: group.members || [],
-                pendingApprovals,
-              };
-            })
-          );
-
-          console.log("✅ Loaded ranches:", userRanches);
-          setRanches(userRanches);
-
-          // Mock contributions based on ranches (replace with real API)
-          const mockContributions: Contribution[] = userRanches.flatMap(
-            (ranch) => [
-              {
-                ranchId: ranch.id,
-                ranchName: ranch.name,
-                amount: Math.round(ranch.liquidBalance * 0.3),
-                date: new Date(
-                  Date.now() - 5 * 24 * 60 * 60 * 1000
-                ).toISOString(),
-              },
-              {
-                ranchId: ranch.id,
-                ranchName: ranch.name,
-                amount: Math.round(ranch.liquidBalance * 0.2),
-                date: new Date(
-                  Date.now() - 15 * 24 * 60 * 60 * 1000
-                ).toISOString(),
-              },
-            ]
-          );
-          setContributions(mockContributions);
-        } else {
-          console.log("📭 No ranches found");
-          setRanches([]);
-          setContributions([]);
-        }
-      } else {
-        console.error("❌ Failed to fetch ranches:", response.status);
-        const errorText = await response.text();
-        console.error("❌ Error details:", errorText);
-      }
+      await Promise.all([
+        revalidateQuery(
+          queryKeys.currentUser(),
+          () => getCurrentUser(token),
+          async (entry, fromCache) => {
+            await applyUserData(entry.data, token, fromCache);
+            setLastUpdated(entry.updatedAt);
+            setFetchingRanches(false);
+          }
+        ),
+        fetchContributionHistory(token),
+        fetchInbox(token),
+      ]);
     } catch (error) {
       console.error("❌ Error fetching ranches:", error);
     } finally {
@@ -198,14 +212,125 @@ export default function HomeScreen() {
     }
   };
 
+  // The user's own transactions, contributions are derived from them below
+  const fetchContributionHistory = async (token: string) => {
+    try {
+      await revalidateQuery(
+        queryKeys.transactionHistory(),
+        () => getTransactionHistory(token),
+        ({ data }) => setHistory(data)
+      );
+    } catch (error) {
+      console.error("❌ Error fetching contribution history:", error);
+    }
+  };
+
+  // Invitations inbox: invites addressed to the user and their pending join requests
+  const fetchInbox = async (token: string) => {
+    try {
+      await Promise.all([
+        revalidateQuery(
+          queryKeys.myInvites(),
+          () => getMyInvites(token),
+          ({ data }) => setInvitations(data)
+        ),
+        revalidateQuery(
+          queryKeys.myJoinRequests(),
+          () => getMyJoinRequests(token),
+          ({ data }) =>
+            setJoinRequests(data.filter((request) => request.status === "pending"))
+        ),
+      ]);
+    } catch (error) {
+      console.error("❌ Error fetching invitations:", error);
+    }
+  };
+
+  // Time- and money-weighted return of each ranch over the selected period,
+  // recomputed only once the cached one is older than RETURNS_MAX_AGE_MS
+  const fetchReturns = async (
+    groups: Group[],
+    period: ReturnPeriod,
+    token: string
+  ) => {
+    await Promise.all(
+      groups.map(async (group) => {
+        try {
+          const key = queryKeys.groupReturns(group.groupID, period);
+          const cached = await getCached<PortfolioReturn>(key);
+          if (cached) {
+            setReturns((prev) => ({ ...prev, [group.groupID]: cached.data }));
+            if (Date.now() - cached.updatedAt < RETURNS_MAX_AGE_MS) return;
+          }
+          const { data } = await fetchQuery(key, () => getGroupReturn(group, period, token));
+          setReturns((prev) => ({ ...prev, [group.groupID]: data }));
+        } catch (error) {
+          console.error(`❌ Error computing returns for ${group.name}:`, error);
+        }
+      })
+    );
+  };
+
+  // Live updates: keep each ranch's balance and pending approvals badge current
+  useGroupEvents(
+    ranches.map((ranch) => ranch.id),
+    token,
+    async (event) => {
+      if (event.type === "balance_changed") {
+        setRanches((prev) =>
+          prev.map((ranch) =>
+            ranch.id === event.groupId
+              ? {
+                  ...ranch,
+                  liquidBalance: event.balance,
+                  investedAmount: event.investedAmount ?? ranch.investedAmount,
+                  balance:
+                    event.totalAssets ??
+                    event.balance + (event.investedAmount ?? ranch.investedAmount),
+                }
+              : ranch
+          )
+        );
+        return;
+      }
+
+      // A deposit or investment may just have gone through
+      if (event.type === "status_changed" && event.status === "executed" && token) {
+        fetchContributionHistory(token);
+      }
+
+      // The realtime layer has already applied the event to the cached transactions
+      const entry = await getCached<Transaction[]>(
+        queryKeys.groupTransactions(event.groupId)
+      );
+      if (!entry) return;
+      const pendingApprovals = countPendingApprovals(entry.data);
+      setRanches((prev) =>
+        prev.map((ranch) =>
+          ranch.id === event.groupId ? { ...ranch, pendingApprovals } : ranch
+        )
+      );
+    }
+  );
+
   useEffect(() => {
     fetchRanches();
-  }, []);
+  }, [token]);
+
+  // Keyed on the ranch ids, not the groups array that every cache pass and focus replaces
+  const groupIds = groups.map((group) => group.groupID).join(",");
+  const latestGroups = useRef(groups);
+  latestGroups.current = groups;
+  useEffect(() => {
+    if (token && latestGroups.current.length > 0) {
+      fetchReturns(latestGroups.current, returnPeriod, token);
+    }
+  }, [groupIds, returnPeriod, token]);
 
   useFocusEffect(
     useCallback(() => {
       fetchRanches();
-    }, [])
+    }, [token])
   );
 
   const handlePressRanch = (ranch: Ranch) => {
@@ -221,6 +346,35 @@ export default function HomeScreen() {
     });
   };
 
+  const handleRespondToInvite = async (invite: Invite, accept: boolean) => {
+    if (!token) return;
+    setRespondingTo(invite.code);
+    try {
+      if (accept) {
+        await acceptInvite(invite.code, token);
+        console.log("🤠 Joined ranch:", invite.groupId);
+      } else {
+        await declineInvite(invite.code, token);
+      }
+      setInvitations((prev) => prev.filter((item) => item.code !== invite.code));
+      await updateCachedQuery<Invite[]>(queryKeys.myInvites(), (cached) =>
+        cached.filter((item) => item.code !== invite.code)
+      );
+      if (accept) {
+        Alert.alert("Welcome! 🎉", `You joined ${invite.groupName || "the ranch"}`);
+        fetchRanches();
+      }
+    } catch (error) {
+      console.error("❌ Error responding to invite:", error);
+      Alert.alert(
+        "Error",
+        getErrorMessage(error, accept ? "Failed to join ranch" : "Failed to decline invite")
+      );
+    } finally {
+      setRespondingTo(null);
+    }
+  };
+
   const handleAddNewRanch = async () => {
     if (!newRanchName.trim()) {
       Alert.alert("Error", "Please enter a name for your ranch.");
@@ -229,81 +383,108 @@ export default function HomeScreen() {
 
     setLoading(true);
     try {
-      const token = await getData("authToken");
-      const userId = await getData("userId");
-
       if (!token || !userId) {
         Alert.alert("Error", "You must be logged in to create a ranch");
         return;
       }
 
       console.log("Creating ranch:", newRanchName);
-      const response = await fetch(`${API_BASE_URL}/groups`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${token}`,
-        },
-        body: JSON.stringify({
-          name: newRanchName.trim(),
-          createdBy: userId,
-        }),
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        console.log("✅ Ranch created:", data);
-
-        const newRanch: Ranch = {
-          id: data.groupID,
-          name: data.name,
-          balance: data.balance || 0,
-          liquidBalance: data.balance || 0,
-          investedAmount: data.investedAmount || 0,
-          members: data.members || [userId],
-          pendingApprovals: 0,
-        };
-
-        setRanches((prev) => [newRanch, ...prev]);
-        setNewRanchName("");
-        setAddRanchModalVisible(false);
-        Alert.alert("Success!", `Ranch "${data.name}" created!`);
-      } else {
-        const error = await response.text();
-        console.error("❌ Failed to create ranch:", error);
-        Alert.alert("Error", "Failed to create ranch. Please try again.");
-      }
+      const data = await createGroup(
+        { name: newRanchName.trim(), createdBy: userId },
+        token
+      );
+      console.log("✅ Ranch created:", data);
+
+      const newRanch: Ranch = {
+        id: data.groupID,
+        name: data.name,
+        balance: data.balance || 0,
+        liquidBalance: data.balance || 0,
+        investedAmount: data.investedAmount || 0,
+        members: data.members || [userId],
+        pendingApprovals: 0,
+      };
+
+      setRanches((prev) => [newRanch, ...prev]);
+      setNewRanchName("");
+      setAddRanchModalVisible(false);
+      Alert.alert("Success!", `Ranch "${data.name}" created!`);
     } catch (error) {
       console.error("❌ Error creating ranch:", error);
-      Alert.alert("Error", "Network error occurred");
+      Alert.alert(
+        "Error",
+        getErrorMessage(error, "Failed to create ranch. Please try again.")
+      );
     } finally {
       setLoading(false);
     }
   };
 
-  // Calculate contribution growth
-  const calculateContributionGrowth = () => {
-    const now = new Date();
-    const thirtyDaysAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
+  // Executed deposits and investments the user proposed in ranches they still belong to, newest first
+  const ranchNames = new Map(ranches.map((ranch) => [ranch.id, ranch.name]));
+  const contributions: Contribution[] = history
+    .filter((txn) => txn.status === "executed" && txn.proposedBy === userId)
+    .flatMap((txn) => {
+      const kind = getProposalKind(txn);
+      const ranchName = ranchNames.get(txn.groupID);
+      if ((kind !== "deposit" && kind !== "investment") || !ranchName) return [];
+      return [
+        {
+          transactionId: txn.transactionID,
+          ranchId: txn.groupID,
+          ranchName,
+          amount: txn.amount,
+          date: txn.executedAt ?? txn.createdAt,
+          kind,
+        },
+      ];
+    })
+    .sort((a, b) => b.date.getTime() - a.date.getTime());
 
-    const recentContributions = contributions.filter(
-      (c) => new Date(c.date) >= thirtyDaysAgo
-    );
+  // Calculate contribution growth: the last 30 days against everything contributed before them
+  const calculateContributionGrowth = () => {
+    const thirtyDaysAgo = Date.now() - 30 * DAY_MS;
 
-    const totalRecent = recentContributions.reduce(
-      (sum, c) => sum + c.amount,
-      0
-    );
+    const totalRecent = contributions
+      .filter((c) => c.date.getTime() >= thirtyDaysAgo)
+      .reduce((sum, c) => sum + c.amount, 0);
     const totalAll = contributions.reduce((sum, c) => sum + c.amount, 0);
+    const before = totalAll - totalRecent;
 
     return {
       total: totalAll,
       lastMonth: totalRecent,
-      percentChange:
-        totalAll > 0 ? ((totalRecent / totalAll) * 100).toFixed(1) : "0",
+      // null: nothing was contributed before the window, so there is no base to grow from
+      percentChange: before > 0 ? ((totalRecent / before) * 100).toFixed(1) : null,
     };
   };
 
+  const contributionGrowth = calculateContributionGrowth();
+  const contributionsByRanch = ranches
+    .map((ranch) => ({
+      ranch,
+      total: contributions
+        .filter((c) => c.ranchId === ranch.id)
+        .reduce((sum, c) => sum + c.amount, 0),
+    }))
+    .filter(({ total }) => total > 0);
+  const largestRanchContribution = Math.max(
+    0,
+    ...contributionsByRanch.map(({ total }) => total)
+  );
+
+  // Returns for the selected period only, older periods stay until they are replaced
+  const returnOf = (ranchId: string) =>
+    returns[ranchId]?.period === returnPeriod ? returns[ranchId] : undefined;
+  const periodReturns = ranches.flatMap((ranch) => {
+    const item = returnOf(ranch.id);
+    return item ? [item] : [];
+  });
+  const overallReturn =
+    periodReturns.length === ranches.length
+      ? combineReturns(periodReturns, returnPeriod)
+      : null;
+
   // Calculate totals
   const totalValue = ranches.reduce((sum, r) => sum + r.balance, 0);
   const totalLiquid = ranches.reduce((sum, r) => sum + r.liquidBalance, 0);
@@ -337,6 +518,8 @@ export default function HomeScreen() {
           </ThemedText>
         </ThemedView>
 
+        <OfflineBanner lastUpdated={lastUpdated} />
+
         {/* NOTIFICATIONS BANNER */}
         {totalPendingApprovals > 0 && (
           <TouchableOpacity
@@ -376,6 +559,61 @@ export default function HomeScreen() {
           </TouchableOpacity>
         )}
 
+        {/* INVITATIONS INBOX */}
+        {(invitations.length > 0 || joinRequests.length > 0) && (
+          <ThemedView style={styles.inboxCard}>
+            <ThemedText type="subtitle" style={styles.inboxTitle}>
+              📬 Invitations
+            </ThemedText>
+            {invitations.map((invite) => (
+              <View key={invite.code} style={styles.inboxItem}>
+                <View style={styles.inboxInfo}>
+                  <ThemedText style={styles.inboxRanchName}>
+                    {invite.groupName || "A ranch"}
+                  </ThemedText>
+                  <ThemedText style={styles.inboxDetail}>
+                    Expires {invite.expiresAt.toLocaleString()}
+                  </ThemedText>
+                </View>
+                <TouchableOpacity
+                  style={[
+                    styles.inboxButton,
+                    styles.inboxDecline,
+                    respondingTo === invite.code && styles.inboxButtonDisabled,
+                  ]}
+                  onPress={() => handleRespondToInvite(invite, false)}
+                  disabled={respondingTo === invite.code}
+                >
+                  <ThemedText style={styles.inboxButtonText}>Decline</ThemedText>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[
+                    styles.inboxButton,
+                    styles.inboxAccept,
+                    respondingTo === invite.code && styles.inboxButtonDisabled,
+                  ]}
+                  onPress={() => handleRespondToInvite(invite, true)}
+                  disabled={respondingTo === invite.code}
+                >
+                  <ThemedText style={styles.inboxButtonText}>Accept</ThemedText>
+                </TouchableOpacity>
+              </View>
+            ))}
+            {joinRequests.map((request) => (
+              <View key={request.requestId} style={styles.inboxItem}>
+                <View style={styles.inboxInfo}>
+                  <ThemedText style={styles.inboxRanchName}>
+                    {request.groupName || request.groupId}
+                  </ThemedText>
+                  <ThemedText style={styles.inboxDetail}>
+                    🙋 Requested {request.createdAt.toLocaleDateString()} · waiting for approval
+                  </ThemedText>
+                </View>
+              </View>
+            ))}
+          </ThemedView>
+        )}
+
         {/* PORTFOLIO SUMMARY */}
         {ranches.length > 0 && (
           <ThemedView style={styles.summaryCard}>
@@ -410,6 +648,163 @@ export default function HomeScreen() {
                 </ThemedText>
               </View>
             </View>
+
+            <View style={styles.periodRow}>
+              {RETURN_PERIODS.map((period) => (
+                <TouchableOpacity
+                  key={period}
+                  style={[
+                    styles.periodChip,
+                    returnPeriod === period && styles.periodChipSelected,
+                  ]}
+                  onPress={() => setReturnPeriod(period)}
+                >
+                  <ThemedText
+                    style={[
+                      styles.periodChipText,
+                      returnPeriod === period && styles.periodChipTextSelected,
+                    ]}
+                  >
+                    {RETURN_PERIOD_LABELS[period]}
+                  </ThemedText>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <View style={styles.summaryGrid}>
+              <View style={styles.summaryItem}>
+                <ThemedText style={styles.summaryLabel}>
+                  Time-Weighted
+                </ThemedText>
+                <ThemedText
+                  style={[
+                    styles.summaryValue,
+                    (overallReturn?.timeWeighted ?? 0) < 0 && styles.returnNegative,
+                  ]}
+                >
+                  {overallReturn ? formatPercent(overallReturn.timeWeighted) : "…"}
+                </ThemedText>
+              </View>
+              <View style={styles.summaryItem}>
+                <ThemedText style={styles.summaryLabel}>
+                  Money-Weighted
+                </ThemedText>
+                <ThemedText
+                  style={[
+                    styles.summaryValue,
+                    (overallReturn?.moneyWeighted ?? 0) < 0 && styles.returnNegative,
+                  ]}
+                >
+                  {overallReturn ? formatPercent(overallReturn.moneyWeighted) : "…"}
+                </ThemedText>
+              </View>
+              <View style={styles.summaryItem}>
+                <ThemedText style={styles.summaryLabel}>Gain</ThemedText>
+                <ThemedText
+                  style={[
+                    styles.summaryValue,
+                    (overallReturn?.gain ?? 0) < 0 && styles.returnNegative,
+                  ]}
+                >
+                  {overallReturn ? formatGain(overallReturn.gain) : "…"}
+                </ThemedText>
+              </View>
+            </View>
+          </ThemedView>
+        )}
+
+        {/* CONTRIBUTIONS */}
+        {contributions.length > 0 && (
+          <ThemedView style={styles.contributionsCard}>
+            <View style={styles.contributionsHeader}>
+              <ThemedText type="subtitle" style={styles.contributionsTitle}>
+                💵 Your Contributions
+              </ThemedText>
+            </View>
+
+            <View style={styles.growthStats}>
+              <View style={styles.growthStatItem}>
+                <ThemedText style={styles.growthLabel}>Total Contributed</ThemedText>
+                <ThemedText style={styles.growthValue}>
+                  ${contributionGrowth.total.toLocaleString()}
+                </ThemedText>
+              </View>
+              <View style={styles.growthStatItem}>
+                <ThemedText style={styles.growthLabel}>Last 30 Days</ThemedText>
+                <ThemedText style={styles.growthValue}>
+                  ${contributionGrowth.lastMonth.toLocaleString()}
+                </ThemedText>
+              </View>
+              <View style={styles.growthStatItem}>
+                <ThemedText style={styles.growthLabel}>30-Day Growth</ThemedText>
+                <ThemedText
+                  style={[
+                    styles.growthValue,
+                    contributionGrowth.lastMonth > 0 && styles.growthPositive,
+                  ]}
+                >
+                  {contributionGrowth.percentChange === null
+                    ? contributionGrowth.lastMonth > 0
+                      ? "New"
+                      : "—"
+                    : `+${contributionGrowth.percentChange}%`}
+                </ThemedText>
+              </View>
+            </View>
+
+            <View style={styles.recentContributions}>
+              <ThemedText style={styles.recentTitle}>Recent</ThemedText>
+              {contributions.slice(0, 5).map((contribution) => (
+                <View key={contribution.transactionId} style={styles.contributionItem}>
+                  <View style={styles.contributionLeft}>
+                    <View style={styles.contributionIcon}>
+                      <ThemedText style={styles.contributionIconText}>
+                        {contribution.kind === "deposit" ? "📥" : "💰"}
+                      </ThemedText>
+                    </View>
+                    <View>
+                      <ThemedText style={styles.contributionRanchName}>
+                        {contribution.ranchName}
+                      </ThemedText>
+                      <ThemedText style={styles.contributionDate}>
+                        {contribution.kind === "deposit" ? "Deposit" : "Investment"} ·{" "}
+                        {contribution.date.toLocaleDateString()}
+                      </ThemedText>
+                    </View>
+                  </View>
+                  <ThemedText style={styles.contributionAmount}>
+                    +${contribution.amount.toLocaleString()}
+                  </ThemedText>
+                </View>
+              ))}
+            </View>
+
+            <View style={styles.miniChart}>
+              <ThemedText style={styles.chartTitle}>By ranch</ThemedText>
+              <View style={styles.chartBars}>
+                {contributionsByRanch.map(({ ranch, total }) => (
+                  <View key={ranch.id} style={styles.chartBarContainer}>
+                    <View
+                      style={[
+                        styles.chartBar,
+                        { height: `${(total / largestRanchContribution) * 100}%` },
+                      ]}
+                    />
+                  </View>
+                ))}
+              </View>
+              <View style={styles.chartLabels}>
+                {contributionsByRanch.map(({ ranch, total }) => (
+                  <View key={ranch.id} style={styles.chartLabel}>
+                    <ThemedText style={styles.chartLabelName} numberOfLines={1}>
+                      {ranch.name}
+                    </ThemedText>
+                    <ThemedText style={styles.chartLabelValue}>
+                      ${total.toLocaleString()}
+                    </ThemedText>
+                  </View>
+                ))}
+              </View>
+            </View>
           </ThemedView>
         )}
 
@@ -432,6 +827,19 @@ export default function HomeScreen() {
               <ThemedText style={styles.addRanchSubtext}>New Ranch</ThemedText>
             </TouchableOpacity>
 
+            {/* Join an existing ranch with an invite code */}
+            <TouchableOpacity
+              style={[
+                styles.addRanchCardSmall,
+                numColumns === 1 && styles.addRanchCardMobile,
+              ]}
+              onPress={() => router.push("/join")}
+              activeOpacity={0.8}
+            >
+              <ThemedText style={styles.addRanchText}>🎟️</ThemedText>
+              <ThemedText style={styles.addRanchSubtext}>Join with Code</ThemedText>
+            </TouchableOpacity>
+
             {/* Ranch Cards */}
             {ranches.map((ranch) => (
               <TouchableOpacity
@@ -458,6 +866,9 @@ export default function HomeScreen() {
                 <ThemedText type="subtitle" style={styles.ranchName}>
                   {ranch.name}
                 </ThemedText>
+                {ranch.archived && (
+                  <ThemedText style={styles.archivedTag}>🗄️ Dissolved · read-only</ThemedText>
+                )}
 
                 {/* Balance Breakdown */}
                 <View style={styles.balanceContainer}>
@@ -490,10 +901,23 @@ export default function HomeScreen() {
                 </ThemedText>
 
                 <ThemedText style={styles.monthlyReturn}>
-                  Monthly Return:{" "}
-                  <ThemedText style={styles.returnText}>
-                    {getMockReturn(ranch.balance)}
-                  </ThemedText>
+                  {RETURN_PERIOD_LABELS[returnPeriod]} Return:{" "}
+                  {(() => {
+                    const item = returnOf(ranch.id);
+                    if (!item) {
+                      return <ThemedText style={styles.returnPending}>…</ThemedText>;
+                    }
+                    return (
+                      <ThemedText
+                        style={[
+                          styles.returnText,
+                          item.gain < 0 && styles.returnNegative,
+                        ]}
+                      >
+                        {formatGain(item.gain)} ({formatPercent(item.timeWeighted)})
+                      </ThemedText>
+                    );
+                  })()}
                 </ThemedText>
               </TouchableOpacity>
             ))}
@@ -504,8 +928,8 @@ export default function HomeScreen() {
         <ThemedView style={[styles.sectionContainer, styles.tipContainer]}>
           <ThemedText type="subtitle">💡 Pro Tip</ThemedText>
           <ThemedText style={styles.tipText}>
-            Tap a ranch to view its detailed portfolio, or tap + to start a new
-            investment group with your partners.
+            Tap a ranch to view its detailed portfolio, tap + to start a new
+            investment group with your partners, or join theirs with an invite code.
           </ThemedText>
         </ThemedView>
       </ParallaxScrollView>
@@ -649,8 +1073,86 @@ const styles = StyleSheet.create({
     fontWeight: "bold",
     color: "#FFA500",
   },
+  periodRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 16,
+    marginBottom: 12,
+  },
+  periodChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: "#0B0C1F",
+    borderWidth: 1,
+    borderColor: "#374151",
+  },
+  periodChipSelected: {
+    borderColor: "#FFA500",
+  },
+  periodChipText: {
+    fontSize: 13,
+    color: "#9CA3AF",
+  },
+  periodChipTextSelected: {
+    color: "#FFA500",
+    fontWeight: "bold",
+  },
 
   // Contributions Card
+  inboxCard: {
+    backgroundColor: "#1B1F3B",
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 24,
+    borderWidth: 1,
+    borderColor: "#FBBF24",
+  },
+  inboxTitle: {
+    marginBottom: 12,
+  },
+  inboxItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    backgroundColor: "#0B0C1F",
+    borderRadius: 8,
+    marginBottom: 8,
+  },
+  inboxInfo: {
+    flex: 1,
+  },
+  inboxRanchName: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#fff",
+  },
+  inboxDetail: {
+    fontSize: 11,
+    color: "#9CA3AF",
+    marginTop: 2,
+  },
+  inboxButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+  },
+  inboxAccept: {
+    backgroundColor: "#10B981",
+  },
+  inboxDecline: {
+    backgroundColor: "#6B7280",
+  },
+  inboxButtonDisabled: {
+    opacity: 0.5,
+  },
+  inboxButtonText: {
+    fontSize: 12,
+    color: "#fff",
+    fontWeight: "600",
+  },
   contributionsCard: {
     backgroundColor: "#1B1F3B",
     padding: 16,
@@ -788,6 +1290,24 @@ const styles = StyleSheet.create({
     borderTopRightRadius: 4,
     minHeight: 8,
   },
+  chartLabels: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 6,
+  },
+  chartLabel: {
+    flex: 1,
+    alignItems: "center",
+  },
+  chartLabelName: {
+    fontSize: 11,
+    color: "#9CA3AF",
+  },
+  chartLabelValue: {
+    fontSize: 11,
+    color: "#fff",
+    fontWeight: "600",
+  },
 
   // Ranches Grid
   ranchesWrapper: {
@@ -886,6 +1406,11 @@ const styles = StyleSheet.create({
     color: "#9CA3AF",
   },
 
+  archivedTag: {
+    fontSize: 12,
+    color: "#9CA3AF",
+    marginBottom: 8,
+  },
   memberCount: {
     fontSize: 14,
     marginTop: 8,
@@ -898,6 +1423,12 @@ const styles = StyleSheet.create({
     color: "#32CD32",
     fontWeight: "bold",
   },
+  returnNegative: {
+    color: "#EF4444",
+  },
+  returnPending: {
+    color: "#9CA3AF",
+  },
 
   // Quick Actions
   quickActions: {
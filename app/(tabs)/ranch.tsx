@@ -1,9 +1,89 @@
+import {
+  amendTransaction,
+  cancelTransaction,
+  createInvite,
+  executeTransaction,
+  getCurrentUser,
+  getErrorMessage,
+  getGroup,
+  getGroupHoldings,
+  getGroupMembers,
+  getGroupInvites,
+  getGroupPolicy,
+  getGroupTransactions,
+  getJoinRequests,
+  getLedgerPage,
+  getFullLedger,
+  applyGroupEvent,
+  buildMonthlyStatement,
+  canRemoveMember,
+  computeOwnership,
+  getContributionHistory,
+  getGroupOwner,
+  getMemberRole,
+  getProposalKind,
+  DEFAULT_POLICY,
+  EMPTY_LEDGER_FILTERS,
+  hasLedgerFilters,
+  hasPermission,
+  matchesLedgerFilters,
+  PROPOSAL_STATUSES,
+  previewDissolution,
+  proposeDissolution,
+  queryKeys,
+  removeMember,
+  requestMemberRemoval,
+  requestOwnershipTransfer,
+  respondToJoinRequest,
+  revalidateQuery,
+  revokeInvite,
+  ROLE_LABELS,
+  setMemberRole,
+  submitMutation,
+  THRESHOLD_LABELS,
+  updateCachedQuery,
+  updateGroupPolicy,
+  type AmendTransactionRequest,
+  type ApprovalPolicy,
+  type CreateInviteRequest,
+  type CreateTransactionResponse,
+  type DepositResponse,
+  type Invite,
+  type JoinRequest,
+  type LedgerFilters,
+  type LedgerPage,
+  type MemberRole,
+  type StockHolding,
+  type StockTradeResponse,
+  type TradeSide,
+  type Transaction,
+  type VoteChoice,
+  type VoteResponse,
+} from "@/api";
+import { OfflineBanner } from "@/components/offline-banner";
+import {
+  ActionButtonsSection,
+  AmendProposalModal,
+  DissolutionModal,
+  ExportLedgerModal,
+  InviteModal,
+  LedgerSection,
+  MembersSection,
+  type LedgerExport,
+  PolicySettingsModal,
+  ProposalCard,
+  VotingPeriodPicker,
+} from "@/components/ranch";
 import { StockTradingModal } from "@/components/StockTradingModal";
 import { ThemedText } from "@/components/themed-text";
 import { ThemedView } from "@/components/themed-view";
+import { useAuth } from "@/contexts/AuthContext";
+import { useGroupEvents } from "@/hooks/use-group-events";
+import { useOutbox } from "@/hooks/use-outbox";
+import { safeFilename, shareCsv, sharePdf } from "@/utils/export";
+import { ledgerToCsv, statementHtml } from "@/utils/statements";
 import { router, useFocusEffect, useLocalSearchParams } from "expo-router";
-import * as SecureStore from "expo-secure-store";
-import React, { useCallback, useEffect, useState } from "react";
+import React, { useCallback, useEffect, useRef, useState } from "react";
 import {
     ActivityIndicator,
     Alert,
@@ -19,8 +99,6 @@ import {
 } from "react-native";
 import Svg, { G, Path } from "react-native-svg";
 
-const API_BASE_URL = "http://localhost:8080";
-
 // Format money to 2 decimal places with commas
 const formatMoney = (amount: number): string => {
   return amount.toLocaleString('en-US', {
@@ -29,33 +107,6 @@ const formatMoney = (amount: number): string => {
   });
 };
 
-// Platform-specific storage helpers
-const getData = async (key: string) => {
-  if (Platform.OS === "web") {
-    return localStorage.getItem(key);
-  } else {
-    return await SecureStore.getItemAsync(key);
-  }
-};
-
-interface Transaction {
-  transactionID: string;
-  groupID: string;
-  userID: string;
-  amount: string;
-  description: string;
-  status: "pending" | "approved" | "rejected" | "executed";
-  votes: Record<string, "approve" | "reject">;
-  createdAt: string;
-  proposedBy?: string;
-  transactionType?: string;
-  executedAt?: string;
-}
-
-interface UserBalance {
-  personalBalance: number; // This would come from user profile
-}
-
 // Helper function for pie chart arcs
 const createArcPath = (
   cx: number,
@@ -87,20 +138,13 @@ export default function RanchScreen() {
     members,
   });
 
-  const [authToken, setAuthToken] = useState<string | null>(null);
-  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const { token: authToken, userId: currentUserId } = useAuth();
   const [groupOwnerId, setGroupOwnerId] = useState<string | null>(null);
+  const [memberRoles, setMemberRoles] = useState<Record<string, MemberRole>>({}); // Admins, everyone else is a plain member
   const [ranchBalance, setRanchBalance] = useState(Number(balance)); // Liquid cash
   const [investedAmount, setInvestedAmount] = useState(0); // Locked in investments
   const [totalAssets, setTotalAssets] = useState(Number(balance)); // Total = liquid + invested
-  const [stockHoldings, setStockHoldings] = useState<Array<{
-    symbol: string;
-    name: string;
-    quantity: number;
-    current_price: number;
-    current_value: number;
-    percentage: number;
-  }>>([]);
+  const [stockHoldings, setStockHoldings] = useState<StockHolding[]>([]);
   const [memberList, setMemberList] = useState<string[]>(
     members ? members.split(",") : []
   );
@@ -113,32 +157,70 @@ export default function RanchScreen() {
   const [loading, setLoading] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
   const [proposals, setProposals] = useState<Transaction[]>([]);
-  const [ledger, setLedger] = useState<Transaction[]>([]); // Executed transactions
-  const [personalBalance, setPersonalBalance] = useState(10000); // Mock personal balance - replace with real data
-
-  // Load auth token and userId on mount
-  useEffect(() => {
-    const loadAuth = async () => {
-      const token = await getData("authToken");
-      const userId = await getData("userId");
-      console.log("🔐 Loaded auth:", {
-        tokenLength: token?.length,
-        tokenPreview: token?.substring(0, 20) + "...",
-        userId,
-      });
-      if (!token) {
-        console.error("❌ No auth token found!");
-      } else if (token.split(".").length !== 3) {
-        console.error(
-          "❌ Invalid token format! Segments:",
-          token.split(".").length
-        );
-      }
-      setAuthToken(token);
-      setCurrentUserId(userId);
+  const [ledger, setLedger] = useState<Transaction[]>([]); // Executed transactions, loaded a page at a time
+  const [ledgerCursor, setLedgerCursor] = useState<string | undefined>(undefined); // undefined: no more pages
+  const [ledgerFilters, setLedgerFilters] = useState<LedgerFilters>(EMPTY_LEDGER_FILTERS);
+  const [ledgerLoading, setLedgerLoading] = useState(false);
+  const ledgerRequest = useRef(0); // Ignore pages that arrive after the filters changed again
+  const ledgerSearchTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [lastUpdated, setLastUpdated] = useState<number | null>(null); // When the group data on screen was fetched
+  const [archivedAt, setArchivedAt] = useState<string | null>(null); // Set once the ranch is dissolved
+  const [approvalPolicy, setApprovalPolicy] = useState<ApprovalPolicy>(DEFAULT_POLICY);
+  const [contributions, setContributions] = useState<Transaction[] | null>(null); // Executed deposits, investments and withdrawals, null until loaded
+
+  // Votes, deposits, proposals and stock trades made offline for this ranch, waiting to be replayed
+  const outbox = useOutbox();
+  const ranchOutbox = outbox.filter((item) => item.mutation.groupId === id);
+  const queuedProposals = ranchOutbox.flatMap((item): Transaction[] => {
+    const queued = {
+      transactionID: item.id,
+      groupID: item.mutation.groupId,
+      proposedBy: currentUserId || "",
+      status: "pending" as const,
+      votes: {},
+      voteReasons: {},
+      voteTimes: {},
+      statusHistory: [],
+      createdAt: new Date(item.queuedAt),
+      commentCount: 0,
+      revision: 1,
     };
-    loadAuth();
-  }, []);
+    if (item.mutation.kind === "createTransaction") {
+      return [
+        {
+          ...queued,
+          amount: item.mutation.request.amount,
+          description: item.mutation.request.description,
+          transactionType: item.mutation.request.transactionType,
+        },
+      ];
+    }
+    if (item.mutation.kind === "stockTrade") {
+      const { symbol, quantity, side = "buy" } = item.mutation.request;
+      return [
+        {
+          ...queued,
+          amount: quantity * item.mutation.price,
+          description: `${side === "sell" ? "Sell" : "Buy"} ${quantity} shares of ${symbol}`,
+          transactionType: "trade",
+          trade: { symbol, side, quantity },
+        },
+      ];
+    }
+    return [];
+  });
+  const queuedVotes: Record<string, VoteChoice | null> = {}; // null = retraction queued
+  let queuedDepositTotal = 0;
+  ranchOutbox.forEach((item) => {
+    if (item.mutation.kind === "vote") {
+      queuedVotes[item.mutation.transactionId] = item.mutation.vote;
+    } else if (item.mutation.kind === "retractVote") {
+      queuedVotes[item.mutation.transactionId] = null;
+    } else if (item.mutation.kind === "deposit") {
+      queuedDepositTotal += item.mutation.amount;
+    }
+  });
+  const [personalBalance, setPersonalBalance] = useState(10000); // Mock personal balance - replace with real data
 
   // Fetch data when auth token is loaded or when ranch ID changes
   useEffect(() => {
@@ -146,10 +228,24 @@ export default function RanchScreen() {
       console.log("✅ Auth token loaded for ranch:", id);
       console.log("🧹 Clearing old proposals before fetching new ones");
       setProposals([]); // Clear proposals when switching ranches
+      setLedgerFilters(EMPTY_LEDGER_FILTERS);
       fetchGroupData();
       fetchProposals();
+      fetchLedger(EMPTY_LEDGER_FILTERS);
+      setContributions(null);
+      fetchContributions();
       fetchPersonalBalance();
       fetchStockHoldings();
+      fetchPolicy();
+    } else if (!authToken) {
+      // Logged out elsewhere: drop everything loaded with the old session
+      setLastUpdated(null);
+      setApprovalPolicy(DEFAULT_POLICY);
+      setProposals([]);
+      setLedger([]);
+      setLedgerCursor(undefined);
+      setContributions(null);
+      setStockHoldings([]);
     }
   }, [authToken, id]);
 
@@ -161,18 +257,14 @@ export default function RanchScreen() {
     }
     try {
       console.log("🔍 Fetching personal balance...");
-      const response = await fetch(`${API_BASE_URL}/users/me`, {
-        headers: {
-          Authorization: `Bearer ${authToken}`,
-        },
-      });
-      if (response.ok) {
-        const data = await response.json();
-        console.log("✅ User data fetched:", data);
-        setPersonalBalance(data.balance || 0);
-      } else {
-        console.log("❌ Failed to fetch personal balance:", response.status);
-      }
+      await revalidateQuery(
+        queryKeys.currentUser(),
+        () => getCurrentUser(authToken),
+        ({ data }) => {
+          console.log("✅ User data fetched:", data);
+          setPersonalBalance(data.balance || 0);
+        }
+      );
     } catch (error) {
       console.error("❌ Error fetching personal balance:", error);
     }
@@ -186,23 +278,36 @@ export default function RanchScreen() {
     }
     try {
       console.log("📊 Fetching stock holdings for group:", id);
-      const response = await fetch(`${API_BASE_URL}/groups/${id}/holdings`, {
-        headers: {
-          Authorization: `Bearer ${authToken}`,
-        },
-      });
-      if (response.ok) {
-        const data = await response.json();
-        console.log("✅ Stock holdings fetched:", data);
-        setStockHoldings(data.holdings || []);
-      } else {
-        console.log("❌ Failed to fetch stock holdings:", response.status);
-      }
+      await revalidateQuery(
+        queryKeys.groupHoldings(id),
+        () => getGroupHoldings(id, authToken),
+        ({ data: holdings }) => {
+          console.log("✅ Stock holdings fetched:", holdings);
+          setStockHoldings(holdings);
+        }
+      );
     } catch (error) {
       console.error("❌ Error fetching stock holdings:", error);
     }
   };
 
+  // Fetch the ranch's approval rules (quorum, thresholds, veto)
+  const fetchPolicy = async () => {
+    if (!authToken || !id) return;
+    try {
+      await revalidateQuery(
+        queryKeys.groupPolicy(id),
+        () => getGroupPolicy(id, authToken),
+        ({ data: policy }) => {
+          console.log("📜 Approval policy fetched:", policy);
+          setApprovalPolicy(policy);
+        }
+      );
+    } catch (error) {
+      console.error("❌ Error fetching approval policy:", error);
+    }
+  };
+
   // Color palette for stocks in pie chart
   const stockColors = [
     "#EF4444", // red
@@ -230,17 +335,21 @@ export default function RanchScreen() {
 
   // Modals
   const [inviteModalVisible, setInviteModalVisible] = useState(false);
-  const [availableUsers, setAvailableUsers] = useState<
-    Array<{ userId: string; username: string; email: string }>
-  >([]);
-  const [selectedUserId, setSelectedUserId] = useState<string>("");
+  const [invites, setInvites] = useState<Invite[]>([]);
+  const [invitesLoading, setInvitesLoading] = useState(false);
+  const [joinRequests, setJoinRequests] = useState<JoinRequest[]>([]); // Pending, only loaded for owners and admins
   const [manageMembersModalVisible, setManageMembersModalVisible] =
     useState(false);
   const [investModalVisible, setInvestModalVisible] = useState(false);
   const [stockModalVisible, setStockModalVisible] = useState(false);
   const [withdrawModalVisible, setWithdrawModalVisible] = useState(false);
   const [depositModalVisible, setDepositModalVisible] = useState(false);
+  const [policyModalVisible, setPolicyModalVisible] = useState(false);
+  const [amendingProposal, setAmendingProposal] = useState<Transaction | null>(null);
+  const [exportModalVisible, setExportModalVisible] = useState(false);
+  const [dissolveModalVisible, setDissolveModalVisible] = useState(false);
   const [transactionAmount, setTransactionAmount] = useState("");
+  const [votingPeriodHours, setVotingPeriodHours] = useState<number | null>(null); // null = ranch default
   const [depositAmount, setDepositAmount] = useState("");
 
   // Fetch updated group balance and members
@@ -253,42 +362,44 @@ export default function RanchScreen() {
     try {
       console.log("🔍 Fetching group data for:", id);
       console.log("🔑 Using token length:", authToken.length);
-      const response = await fetch(`${API_BASE_URL}/groups/${id}`, {
-        headers: {
-          Authorization: `Bearer ${authToken}`,
-        },
-      });
-      if (response.ok) {
-        const data = await response.json();
-        console.log("✅ Group data fetched:", data);
-        setRanchBalance(Math.round((data.group?.balance || data.balance || 0) * 100) / 100);
-        setInvestedAmount(Math.round((data.group?.investedAmount || 0) * 100) / 100);
-        setTotalAssets(Math.round((data.group?.totalAssets || data.group?.balance || 0) * 100) / 100);
-        setGroupOwnerId(data.group?.createdBy || null);
-        const membersArr: string[] = data.group?.members || [];
-        setMemberList(membersArr);
-        setMemberCount(membersArr.length || 0);
-
-        // Fetch usernames for these members (uses /users/all which returns basic info)
-        try {
-          const usersResp = await fetch(`${API_BASE_URL}/users/all`, {
-            headers: { Authorization: `Bearer ${authToken}` },
-          });
-          if (usersResp.ok) {
-            const usersData = await usersResp.json();
+      await revalidateQuery(
+        queryKeys.group(id),
+        () => getGroup(id, authToken),
+        ({ data: group, updatedAt }) => {
+          console.log("✅ Group data fetched:", group);
+          setRanchBalance(Math.round((group.balance || 0) * 100) / 100);
+          setInvestedAmount(Math.round((group.investedAmount || 0) * 100) / 100);
+          setTotalAssets(Math.round((group.totalAssets || group.balance || 0) * 100) / 100);
+          setGroupOwnerId(getGroupOwner(group));
+          setMemberRoles(group.roles || {});
+          setArchivedAt(group.archivedAt || null);
+          if (hasPermission(getMemberRole(group, currentUserId), "manageMembers")) {
+            fetchJoinRequests();
+          } else {
+            setJoinRequests([]);
+          }
+          const membersArr: string[] = group.members || [];
+          setMemberList(membersArr);
+          setMemberCount(membersArr.length || 0);
+          setLastUpdated(updatedAt);
+        }
+      );
+
+      // Fetch usernames for this ranch's members only
+      try {
+        await revalidateQuery(
+          queryKeys.groupMembers(id),
+          () => getGroupMembers(id, authToken),
+          ({ data: members }) => {
             const map: Record<string, string> = {};
-            (usersData.users || []).forEach((u: any) => {
-              map[u.userId] = u.username;
+            members.forEach((m) => {
+              map[m.userId] = m.username;
             });
             setMemberProfiles(map);
-          } else {
-            console.warn("Failed to fetch user profiles for members");
           }
-        } catch (err) {
-          console.warn("Error fetching user profiles:", err);
-        }
-      } else {
-        console.log("❌ Failed to fetch group data:", response.status);
+        );
+      } catch (err) {
+        console.warn("Error fetching user profiles:", err);
       }
     } catch (error) {
       console.error("Failed to fetch group balance:", error);
@@ -307,58 +418,149 @@ export default function RanchScreen() {
     }
     console.log("🔍 Fetching proposals for THIS group ONLY:", id);
     try {
-      const url = `${API_BASE_URL}/transactions?groupId=${id}`;
-      console.log("🌐 Fetching from:", url);
-      const response = await fetch(url, {
-        headers: {
-          Authorization: `Bearer ${authToken}`,
-        },
-      });
-      console.log("📡 Proposals response status:", response.status);
-      if (response.ok) {
-        const data = await response.json();
-        console.log("📦 Raw response data:", data);
-
-        // Filter to only show transactions for THIS specific group
-        const thisGroupTransactions = (data.transactions || []).filter(
-          (txn: Transaction) => txn.groupID === id
-        );
+      await revalidateQuery(
+        queryKeys.groupTransactions(id),
+        () => getGroupTransactions(id, authToken, PROPOSAL_STATUSES),
+        ({ data: transactions }) => {
+          // Filter to only show transactions for THIS specific group
+          const thisGroupTransactions = transactions.filter(
+            (txn) => txn.groupID === id
+          );
 
-        // Separate pending/active proposals from executed transactions
-        const pendingProposals = thisGroupTransactions.filter(
-          (txn: Transaction) => txn.status !== 'executed'
-        );
-        const executedTransactions = thisGroupTransactions.filter(
-          (txn: Transaction) => txn.status === 'executed'
-        );
+          // Executed transactions are paged in by fetchLedger
+          const pendingProposals = thisGroupTransactions.filter(
+            (txn) => txn.status !== 'executed'
+          );
 
-        console.log(
-          `✅ Total transactions received: ${data.transactions?.length || 0}`
-        );
-        console.log(
-          `✅ Transactions for THIS group (${id}): ${thisGroupTransactions.length}`
+          console.log(`✅ Total transactions received: ${transactions.length}`);
+          console.log(
+            `✅ Transactions for THIS group (${id}): ${thisGroupTransactions.length}`
+          );
+          console.log(`📋 Pending proposals: ${pendingProposals.length}`);
+
+          setProposals(pendingProposals);
+        }
+      );
+    } catch (error) {
+      console.error("❌ Failed to fetch proposals:", error);
+    }
+  };
+
+  // Deposits, investments and withdrawals behind the ownership figures
+  const fetchContributions = async () => {
+    if (!id || !authToken) return;
+    try {
+      await revalidateQuery(
+        queryKeys.groupContributions(id),
+        () => getContributionHistory(id, authToken),
+        ({ data }) => setContributions(data)
+      );
+    } catch (error) {
+      console.error("❌ Failed to fetch contributions:", error);
+    }
+  };
+
+  // First page of the ledger for the given filters (the unfiltered page is cached for offline use)
+  const fetchLedger = async (filters: LedgerFilters = ledgerFilters) => {
+    if (!id || !authToken) return;
+    const request = ++ledgerRequest.current;
+    const applyPage = ({ data }: { data: LedgerPage }) => {
+      if (request !== ledgerRequest.current) return;
+      console.log(`📜 Ledger page: ${data.transactions.length}, more: ${!!data.nextCursor}`);
+      setLedger(data.transactions);
+      setLedgerCursor(data.nextCursor);
+    };
+    setLedgerLoading(true);
+    try {
+      if (hasLedgerFilters(filters)) {
+        applyPage({ data: await getLedgerPage(id, filters, undefined, authToken) });
+      } else {
+        await revalidateQuery(
+          queryKeys.groupLedger(id),
+          () => getLedgerPage(id, filters, undefined, authToken),
+          applyPage
         );
-        console.log(`📋 Pending proposals: ${pendingProposals.length}`);
-        console.log(`📜 Executed (ledger): ${executedTransactions.length}`);
+      }
+    } catch (error) {
+      console.error("❌ Failed to fetch ledger:", error);
+    } finally {
+      if (request === ledgerRequest.current) setLedgerLoading(false);
+    }
+  };
 
-        setProposals(pendingProposals);
-        setLedger(executedTransactions);
+  // Append the next page of older transactions
+  const loadMoreLedger = async () => {
+    if (!id || !authToken || !ledgerCursor || ledgerLoading) return;
+    const request = ledgerRequest.current;
+    setLedgerLoading(true);
+    try {
+      const page = await getLedgerPage(id, ledgerFilters, ledgerCursor, authToken);
+      if (request !== ledgerRequest.current) return;
+      setLedger((prev) => [
+        ...prev,
+        ...page.transactions.filter(
+          (txn) => !prev.some((loaded) => loaded.transactionID === txn.transactionID)
+        ),
+      ]);
+      setLedgerCursor(page.nextCursor);
+    } catch (error) {
+      console.error("❌ Failed to load more ledger:", error);
+      Alert.alert("Error", getErrorMessage(error, "Failed to load older transactions"));
+    } finally {
+      if (request === ledgerRequest.current) setLedgerLoading(false);
+    }
+  };
+
+  // Export the books: every matching ledger page as CSV, or one month as a PDF statement
+  const handleExport = async (request: LedgerExport) => {
+    if (!id || !authToken) return;
+    const ranchName = String(name || "ranch");
+    try {
+      if (request.format === "csv") {
+        console.log("⬇️ Exporting ledger CSV", ledgerFilters);
+        const executed = await getFullLedger(id, ledgerFilters, authToken);
+        const rows = request.includeProposals ? [...proposals, ...executed] : executed;
+        await shareCsv(`${safeFilename(ranchName)}-ledger.csv`, ledgerToCsv(rows, memberProfiles));
       } else {
-        const errorText = await response.text();
-        console.log("❌ Error response:", errorText);
+        console.log("⬇️ Exporting statement for", request.month);
+        // Everything executed since the month began, to walk back from today's balance
+        const since = await getFullLedger(
+          id,
+          { ...EMPTY_LEDGER_FILTERS, from: request.month },
+          authToken
+        );
+        const statement = buildMonthlyStatement(since, ranchBalance, request.month);
+        const monthKey = request.month.toISOString().slice(0, 7);
+        await sharePdf(
+          `${safeFilename(ranchName)}-statement-${monthKey}.pdf`,
+          statementHtml(statement, ranchName, memberProfiles)
+        );
       }
+      setExportModalVisible(false);
     } catch (error) {
-      console.error("❌ Failed to fetch proposals:", error);
+      console.error("❌ Export failed:", error);
+      Alert.alert("Error", getErrorMessage(error, "Failed to export ledger"));
     }
   };
 
+  // Refetch from the first page, waiting for a pause in typing before hitting the backend
+  const handleLedgerFiltersChange = (filters: LedgerFilters) => {
+    setLedgerFilters(filters);
+    if (ledgerSearchTimer.current) clearTimeout(ledgerSearchTimer.current);
+    ledgerSearchTimer.current = setTimeout(() => fetchLedger(filters), 400);
+  };
+
   // Refresh all data
   const onRefresh = async () => {
     setRefreshing(true);
     await Promise.all([
       fetchGroupData(),
       fetchProposals(),
+      fetchLedger(),
+      fetchContributions(),
       fetchPersonalBalance(),
+      fetchPolicy(),
+      canManageMembers ? fetchJoinRequests() : undefined,
     ]);
     setRefreshing(false);
   };
@@ -368,10 +570,56 @@ export default function RanchScreen() {
     useCallback(() => {
       fetchGroupData();
       fetchProposals();
+      fetchLedger();
+      fetchContributions();
       fetchPersonalBalance();
-    }, [id])
+    }, [id, authToken])
   );
 
+  // Queued mutations were replayed: pick up what the backend made of them
+  const previousOutboxSize = useRef(ranchOutbox.length);
+  useEffect(() => {
+    if (ranchOutbox.length < previousOutboxSize.current) {
+      console.log("🔄 Offline changes synced, refreshing ranch");
+      fetchGroupData();
+      fetchProposals();
+      fetchLedger();
+      fetchPersonalBalance();
+    }
+    previousOutboxSize.current = ranchOutbox.length;
+  }, [ranchOutbox.length]);
+
+  // Live updates pushed by the backend: no pull-to-refresh needed to see votes land
+  useGroupEvents(id ? [id] : [], authToken, (event) => {
+    console.log("📡 Realtime event:", event.type, event);
+    if (event.type === "balance_changed") {
+      setRanchBalance(Math.round(event.balance * 100) / 100);
+      if (event.investedAmount !== undefined) {
+        setInvestedAmount(Math.round(event.investedAmount * 100) / 100);
+      }
+      setTotalAssets(
+        Math.round(
+          (event.totalAssets ?? event.balance + (event.investedAmount ?? investedAmount)) * 100
+        ) / 100
+      );
+      return;
+    }
+
+    const transactions = applyGroupEvent([...proposals, ...ledger], event);
+    setProposals(transactions.filter((txn) => txn.status !== "executed"));
+    setLedger(
+      transactions.filter(
+        (txn) => txn.status === "executed" && matchesLedgerFilters(txn, ledgerFilters)
+      )
+    );
+
+    // Executing moves money out of members' personal balances
+    if (event.type === "status_changed" && event.status === "executed") {
+      fetchPersonalBalance();
+      fetchContributions();
+    }
+  });
+
   // Log proposals whenever they change
   useEffect(() => {
     console.log(
@@ -385,10 +633,12 @@ export default function RanchScreen() {
   const handleInvest = () => setStockModalVisible(true);
 
   const handleStockTrade = async (
+    side: TradeSide,
     symbol: string,
     quantity: number,
     stockName: string,
-    price: number
+    price: number,
+    votingPeriod: number | null
   ) => {
     if (!authToken) {
       Alert.alert("Error", "Not authenticated. Please log in again.");
@@ -397,6 +647,7 @@ export default function RanchScreen() {
 
     try {
       console.log("📈 Creating stock trade proposal:", {
+        side,
         symbol,
         quantity,
         stockName,
@@ -404,36 +655,39 @@ export default function RanchScreen() {
         groupId: id,
       });
 
-      const response = await fetch(`${API_BASE_URL}/stocks/trade`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${authToken}`,
+      // Queued with an idempotency key if offline, like every other proposal
+      const submitted = await submitMutation<StockTradeResponse>(
+        {
+          kind: "stockTrade",
+          groupId: id,
+          request: {
+            symbol,
+            quantity,
+            group_id: id,
+            side,
+            ...(votingPeriod !== null ? { voting_period_hours: votingPeriod } : {}),
+          },
+          price,
         },
-        body: JSON.stringify({
-          symbol,
-          quantity,
-          group_id: id,
-        }),
-      });
-
-      if (response.ok) {
-        const result = await response.json();
-        console.log("✅ Trade proposal created:", result);
+        authToken
+      );
+      console.log("✅ Trade proposal submitted:", submitted);
+      if (submitted.queued) {
         Alert.alert(
-          "Success! 📈",
-          `Trade proposal created: Buy ${quantity} shares of ${stockName} @ $${price.toFixed(2)}\n\nTotal: $${(quantity * price).toFixed(2)}\n\nGroup members can now vote on this proposal.`
+          "📴 Saved Offline",
+          `Your proposal to ${side === "sell" ? "sell" : "buy"} ${quantity} shares of ${stockName} will be submitted when you're back online.`
         );
-        await fetchProposals();
-        await fetchGroupData();
-      } else {
-        const error = await response.json();
-        console.error("❌ Trade failed:", error);
-        Alert.alert("Error", error.detail || "Failed to create trade proposal");
+        return;
       }
+      Alert.alert(
+        "Success! 📈",
+        `Trade proposal created: ${side === "sell" ? "Sell" : "Buy"} ${quantity} shares of ${stockName} @ $${price.toFixed(2)}\n\nTotal: $${(quantity * price).toFixed(2)}\n\nGroup members can now vote on this proposal.`
+      );
+      await fetchProposals();
+      await fetchGroupData();
     } catch (error) {
-      console.error("❌ Network error:", error);
-      Alert.alert("Error", "Network error occurred");
+      console.error("❌ Trade failed:", error);
+      Alert.alert("Error", getErrorMessage(error, "Failed to create trade proposal"));
       throw error; // Re-throw to let modal know it failed
     }
   };
@@ -478,47 +732,48 @@ export default function RanchScreen() {
     console.log("🏠 Group ID:", id);
     setLoading(true);
     try {
-      // Create a transaction proposal (not direct deposit)
-      const response = await fetch(`${API_BASE_URL}/transactions`, {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${authToken}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
+      // Create a transaction proposal (not direct deposit), queued if offline
+      const submitted = await submitMutation<CreateTransactionResponse>(
+        {
+          kind: "createTransaction",
           groupId: id,
-          amount: amount,
-          description: `Investment proposal: $${amount.toLocaleString()}`,
-          transactionType: "investment",
-        }),
-      });
-
-      console.log("📡 Response status:", response.status);
-      if (response.ok) {
-        const data = await response.json();
-        console.log("✅ Success:", data);
-
-        // Close modal and clear input FIRST
-        setTransactionAmount("");
-        setInvestModalVisible(false);
+          request: {
+            groupId: id,
+            amount: amount,
+            description: `Investment proposal: $${amount.toLocaleString()}`,
+            transactionType: "investment",
+            ...(votingPeriodHours !== null ? { votingPeriodHours } : {}),
+          },
+        },
+        authToken
+      );
+      console.log("✅ Success:", submitted);
 
-        // Then fetch proposals
-        console.log("🔄 Fetching proposals after creation...");
-        await fetchProposals();
+      // Close modal and clear input FIRST
+      setTransactionAmount("");
+      setVotingPeriodHours(null);
+      setInvestModalVisible(false);
 
-        // Then show success message
+      if (submitted.queued) {
         Alert.alert(
-          "🎉 Proposal Created!",
-          `Your investment proposal of $${amount.toLocaleString()} has been submitted. Other members need to approve it before funds are added.`
+          "📴 Saved Offline",
+          `Your investment proposal of $${amount.toLocaleString()} will be submitted when you're back online.`
         );
-      } else {
-        const error = await response.json();
-        console.error("❌ API error:", error);
-        Alert.alert("Error", error.detail || "Failed to create proposal");
+        return;
       }
+
+      // Then fetch proposals
+      console.log("🔄 Fetching proposals after creation...");
+      await fetchProposals();
+
+      // Then show success message
+      Alert.alert(
+        "🎉 Proposal Created!",
+        `Your investment proposal of $${amount.toLocaleString()} has been submitted. Other members need to approve it before funds are added.`
+      );
     } catch (error) {
-      console.log("❌ Network error:", error);
-      Alert.alert("Error", "Network error occurred");
+      console.log("❌ Create proposal error:", error);
+      Alert.alert("Error", getErrorMessage(error, "Failed to create proposal"));
     } finally {
       setLoading(false);
     }
@@ -526,6 +781,51 @@ export default function RanchScreen() {
 
   const handleWithdraw = () => setWithdrawModalVisible(true);
 
+  // Roles decide which management actions the signed-in member sees
+  const roleOf = (userId: string | null) =>
+    getMemberRole({ ownerId: groupOwnerId || undefined, roles: memberRoles }, userId);
+  const myRole = roleOf(currentUserId);
+  const canExecute = hasPermission(myRole, "execute");
+  const canManageMembers = hasPermission(myRole, "manageMembers");
+
+  const handleRespondToJoinRequest = async (request: JoinRequest, approve: boolean) => {
+    if (!authToken || !id) return;
+    const requester = request.username || memberProfiles[request.userId] || request.userId;
+    try {
+      await respondToJoinRequest(id, request.requestId, approve, authToken);
+      console.log(approve ? "✅ Join request approved:" : "🚫 Join request denied:", request.requestId);
+      setJoinRequests((prev) => prev.filter((item) => item.requestId !== request.requestId));
+      await updateCachedQuery<JoinRequest[]>(queryKeys.groupJoinRequests(id), (cached) =>
+        cached.filter((item) => item.requestId !== request.requestId)
+      );
+      if (approve) {
+        Alert.alert("Member Added! 🎉", `${requester} has joined ${name}`);
+        await fetchGroupData();
+      }
+    } catch (error) {
+      console.error("❌ Join request response error:", error);
+      Alert.alert("Error", getErrorMessage(error, "Failed to answer join request"));
+    }
+  };
+
+  // What the signed-in member can withdraw without dipping into the others' share
+  const stakes = contributions
+    ? computeOwnership(contributions, totalAssets, memberList)
+    : undefined;
+  const myStake = stakes?.find((stake) => stake.userId === currentUserId);
+  const pendingWithdrawals = proposals
+    .filter(
+      (txn) =>
+        txn.proposedBy === currentUserId &&
+        getProposalKind(txn) === "withdrawal" &&
+        (txn.status === "pending" || txn.status === "approved")
+    )
+    .reduce((sum, txn) => sum + txn.amount, 0);
+  const withdrawableShare = myStake
+    ? Math.max(0, myStake.equity - pendingWithdrawals)
+    : null;
+  const withdrawAmount = parseFloat(transactionAmount);
+
   const handleWithdrawSubmit = async () => {
     const amount = parseFloat(transactionAmount);
     if (!amount || amount <= 0) {
@@ -541,110 +841,187 @@ export default function RanchScreen() {
       return;
     }
 
+    // Withdrawing more than you own takes from the other members, let them decide but warn first
+    if (withdrawableShare !== null && amount > withdrawableShare) {
+      const message = `You own $${formatMoney(withdrawableShare)} of this ranch${
+        pendingWithdrawals > 0 ? " after your pending withdrawals" : ""
+      }. Withdrawing $${amount.toLocaleString()} would take from other members' share. Propose it anyway?`;
+      const proceed =
+        Platform.OS === "web"
+          ? window.confirm(message)
+          : await new Promise((resolve) => {
+              Alert.alert("More Than Your Share", message, [
+                { text: "Cancel", style: "cancel", onPress: () => resolve(false) },
+                { text: "Propose Anyway", onPress: () => resolve(true) },
+              ]);
+            });
+      if (!proceed) return;
+    }
+
+    if (!authToken || !id) {
+      Alert.alert("Error", "Not authenticated. Please log in again.");
+      return;
+    }
+
     setLoading(true);
     try {
-      // Create a withdrawal proposal instead of direct withdrawal
-      const response = await fetch(`${API_BASE_URL}/transactions`, {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${authToken}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
+      // Create a withdrawal proposal instead of direct withdrawal, queued if offline
+      const submitted = await submitMutation<CreateTransactionResponse>(
+        {
+          kind: "createTransaction",
           groupId: id,
-          amount: amount,
-          description: `Withdrawal Request: $${amount.toLocaleString()} from ranch balance`,
-          transactionType: "withdrawal",
-        }),
-      });
-
-      if (response.ok) {
-        Alert.alert(
-          "Proposal Created! �",
-          `Withdrawal proposal for $${amount.toLocaleString()} has been submitted for group approval`
-        );
+          request: {
+            groupId: id,
+            amount: amount,
+            description: `Withdrawal Request: $${amount.toLocaleString()} from ranch balance`,
+            transactionType: "withdrawal",
+            ...(votingPeriodHours !== null ? { votingPeriodHours } : {}),
+          },
+        },
+        authToken
+      );
+      if (submitted.queued) {
         setTransactionAmount("");
+        setVotingPeriodHours(null);
         setWithdrawModalVisible(false);
-        await fetchProposals(); // Refresh proposals to show new one
-        await fetchGroupData();
-      } else {
-        const error = await response.json();
-        Alert.alert("Error", error.detail || "Failed to create withdrawal proposal");
+        Alert.alert(
+          "📴 Saved Offline",
+          `Your withdrawal proposal for $${amount.toLocaleString()} will be submitted when you're back online.`
+        );
+        return;
       }
+      Alert.alert(
+        "Proposal Created! �",
+        `Withdrawal proposal for $${amount.toLocaleString()} has been submitted for group approval`
+      );
+      setTransactionAmount("");
+      setVotingPeriodHours(null);
+      setWithdrawModalVisible(false);
+      await fetchProposals(); // Refresh proposals to show new one
+      await fetchGroupData();
     } catch (error) {
-      Alert.alert("Error", "Network error occurred");
+      Alert.alert(
+        "Error",
+        getErrorMessage(error, "Failed to create withdrawal proposal")
+      );
     } finally {
       setLoading(false);
     }
   };
 
-  const handleDelete = async () => {
-    const confirmDelete =
-      Platform.OS === "web"
-        ? window.confirm(
-            `Are you sure you want to delete ${name}? This action cannot be undone.`
-          )
-        : await new Promise((resolve) => {
-            Alert.alert(
-              "Delete Ranch",
-              `Are you sure you want to delete ${name}? This action cannot be undone.`,
-              [
-                { text: "Cancel", style: "cancel", onPress: () => resolve(false) },
-                {
-                  text: "Delete",
-                  style: "destructive",
-                  onPress: () => resolve(true),
-                },
-              ]
-            );
-          });
+  const handleSavePolicy = async (policy: ApprovalPolicy) => {
+    if (!authToken || !id) return;
+    try {
+      const saved = await updateGroupPolicy(id, policy, authToken);
+      console.log("✅ Approval policy saved:", saved);
+      setApprovalPolicy(saved);
+      setPolicyModalVisible(false);
+      Alert.alert("Rules Updated", "New proposals and open votes now follow these rules.");
+    } catch (error) {
+      console.error("❌ Error saving approval policy:", error);
+      Alert.alert("Error", getErrorMessage(error, "Failed to save approval rules"));
+    }
+  };
 
-    if (!confirmDelete) return;
+  // Dissolving goes to a vote: open the payout preview first
+  const handleDissolve = () => {
+    const openDissolution = proposals.some(
+      (txn) =>
+        getProposalKind(txn) === "dissolution" &&
+        (txn.status === "pending" || txn.status === "approved")
+    );
+    if (openDissolution) {
+      const message = `A proposal to dissolve ${name} is already open.`;
+      if (Platform.OS === "web") {
+        window.alert(message);
+      } else {
+        Alert.alert("Already Proposed", message);
+      }
+      return;
+    }
+    setDissolveModalVisible(true);
+  };
 
-    setLoading(true);
+  const handleProposeDissolution = async () => {
+    if (!authToken || !id) return;
     try {
-      const response = await fetch(`${API_BASE_URL}/groups/${id}`, {
-        method: "DELETE",
-        headers: {
-          Authorization: `Bearer ${authToken}`,
-        },
-      });
-
-      if (response.ok) {
-        if (Platform.OS === "web") {
-          window.alert("Ranch deleted successfully");
-        } else {
-          Alert.alert("Success", "Ranch deleted successfully");
-        }
-        router.replace("/(tabs)");
+      const created = await proposeDissolution(
+        id,
+        totalAssets,
+        `Dissolve ${name} and pay out $${formatMoney(totalAssets)} to the members`,
+        authToken
+      );
+      console.log("🏚️ Dissolution proposed:", created.transactionId);
+      setDissolveModalVisible(false);
+      const message = "The ranch is dissolved once the members approve and the proposal is executed.";
+      if (Platform.OS === "web") {
+        window.alert(message);
       } else {
-        const error = await response.json();
-        if (Platform.OS === "web") {
-          window.alert(error.detail || "Failed to delete ranch");
-        } else {
-          Alert.alert("Error", error.detail || "Failed to delete ranch");
-        }
+        Alert.alert("Dissolution Proposed", message);
       }
+      await fetchProposals();
     } catch (error) {
-      console.error("Delete error:", error);
+      console.error("❌ Dissolution proposal error:", error);
+      const message = getErrorMessage(error, "Failed to propose dissolving the ranch");
       if (Platform.OS === "web") {
-        window.alert("Network error occurred");
+        window.alert(message);
       } else {
-        Alert.alert("Error", "Network error occurred");
+        Alert.alert("Error", message);
       }
-    } finally {
-      setLoading(false);
     }
   };
 
   const handleLeave = async () => {
+    // A ranch always has an owner: hand it over first, or delete it when nobody else is left
+    if (myRole === "owner") {
+      const others = memberList.filter((member) => member !== currentUserId);
+      const message =
+        others.length > 0
+          ? `You own ${name}. Make another member the owner before leaving.`
+          : `You are the last member of ${name}. Dissolve the ranch instead of leaving it.`;
+      if (Platform.OS === "web") {
+        window.alert(message);
+        if (others.length > 0) setManageMembersModalVisible(true);
+      } else {
+        Alert.alert(
+          "Transfer Ownership First",
+          message,
+          others.length > 0
+            ? [
+                { text: "Cancel", style: "cancel" },
+                {
+                  text: "Choose New Owner",
+                  onPress: () => setManageMembersModalVisible(true),
+                },
+              ]
+            : [{ text: "OK" }]
+        );
+      }
+      return;
+    }
+
+    // What leaving pays out, so nobody is surprised by the balance that lands in their account
+    const payout =
+      withdrawableShare === null
+        ? "Your share of the ranch is paid out to your personal balance."
+        : `Your share of $${withdrawableShare.toFixed(2)} (${(
+            (myStake?.share ?? 0) * 100
+          ).toFixed(1)}% of the ranch${
+            pendingWithdrawals > 0 ? ", after your pending withdrawals" : ""
+          }) is paid out to your personal balance.`;
+    const cashNote =
+      withdrawableShare !== null && withdrawableShare > ranchBalance
+        ? `\n\nThe ranch only holds $${ranchBalance.toFixed(2)} in cash, holdings may have to be sold first.`
+        : "";
+    const leaveMessage = `Are you sure you want to leave ${name}?\n\n${payout}${cashNote}`;
+
     const confirmLeave =
       Platform.OS === "web"
-        ? window.confirm(`Are you sure you want to leave ${name}?`)
+        ? window.confirm(leaveMessage)
         : await new Promise((resolve) => {
             Alert.alert(
               "Leave Ranch",
-              `Are you sure you want to leave ${name}?`,
+              leaveMessage,
               [
                 { text: "Cancel", style: "cancel", onPress: () => resolve(false) },
                 {
@@ -656,41 +1033,24 @@ export default function RanchScreen() {
             );
           });
 
-    if (!confirmLeave) return;
+    if (!confirmLeave || !authToken || !id || !currentUserId) return;
 
     setLoading(true);
     try {
-      const response = await fetch(
-        `${API_BASE_URL}/groups/${id}/members/${currentUserId}`,
-        {
-          method: "DELETE",
-          headers: {
-            Authorization: `Bearer ${authToken}`,
-          },
-        }
-      );
-
-      if (response.ok) {
-        if (Platform.OS === "web") {
-          window.alert("You have left the ranch");
-        } else {
-          Alert.alert("Success", "You have left the ranch");
-        }
-        router.back();
+      await removeMember(id, currentUserId, authToken);
+      if (Platform.OS === "web") {
+        window.alert("You have left the ranch");
       } else {
-        const error = await response.json();
-        if (Platform.OS === "web") {
-          window.alert(error.detail || "Failed to leave ranch");
-        } else {
-          Alert.alert("Error", error.detail || "Failed to leave ranch");
-        }
+        Alert.alert("Success", "You have left the ranch");
       }
+      router.back();
     } catch (error) {
       console.error("Leave error:", error);
+      const message = getErrorMessage(error, "Failed to leave ranch");
       if (Platform.OS === "web") {
-        window.alert("Network error occurred");
+        window.alert(message);
       } else {
-        Alert.alert("Error", "Network error occurred");
+        Alert.alert("Error", message);
       }
     } finally {
       setLoading(false);
@@ -720,184 +1080,325 @@ export default function RanchScreen() {
       return;
     }
 
+    if (!authToken || !id) {
+      Alert.alert("Error", "Not authenticated. Please log in again.");
+      return;
+    }
+
     console.log("✅ Deposit validation passed, making API call");
     setLoading(true);
     try {
-      // Direct deposit to ranch balance
-      const response = await fetch(`${API_BASE_URL}/groups/${id}/deposit`, {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${authToken}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ amount: amount }), // Positive amount for deposit
-      });
-
-      if (response.ok) {
-        console.log("✅ Deposit successful");
-        const data = await response.json();
-        // Update personal balance from backend response
-        if (data.userBalance !== undefined) {
-          setPersonalBalance(data.userBalance);
-        }
-        // Close modal and refresh
+      // Direct deposit to ranch balance, queued if offline
+      const submitted = await submitMutation<DepositResponse>(
+        { kind: "deposit", groupId: id, amount }, // Positive amount for deposit
+        authToken
+      );
+      if (submitted.queued) {
         setDepositAmount("");
         setDepositModalVisible(false);
-        await fetchGroupData();
         Alert.alert(
-          "Success! 💰",
-          `Deposited $${amount.toLocaleString()} into ${name}. Your new balance is $${data.userBalance?.toLocaleString() || '...'}.`
+          "📴 Saved Offline",
+          `Your deposit of $${amount.toLocaleString()} into ${name} will be made when you're back online.`
         );
-      } else {
-        const error = await response.json();
-        console.log("❌ Deposit error response:", error);
-        Alert.alert("Error", error.detail || "Failed to deposit");
+        return;
+      }
+      const data = submitted.result;
+      console.log("✅ Deposit successful");
+      // Update personal balance from backend response
+      if (data.userBalance !== undefined) {
+        setPersonalBalance(data.userBalance);
       }
+      // Close modal and refresh
+      setDepositAmount("");
+      setDepositModalVisible(false);
+      await fetchGroupData();
+      Alert.alert(
+        "Success! 💰",
+        `Deposited $${amount.toLocaleString()} into ${name}. Your new balance is $${data.userBalance?.toLocaleString() || '...'}.`
+      );
     } catch (error) {
-      console.log("❌ Deposit network error:", error);
-      Alert.alert("Error", "Network error occurred");
+      console.log("❌ Deposit error:", error);
+      Alert.alert("Error", getErrorMessage(error, "Failed to deposit"));
     } finally {
       setLoading(false);
     }
   };
 
-  // Fetch all available users when opening invite modal
-  const handleInvite = async () => {
-    setLoading(true);
+  // Requests to join, for owners and admins to decide on
+  const fetchJoinRequests = async () => {
+    if (!authToken || !id) return;
     try {
-      // First, fetch the latest group data to get current members
-      console.log("🔄 Refreshing group data before fetching users...");
-      await fetchGroupData();
+      await revalidateQuery(
+        queryKeys.groupJoinRequests(id),
+        () => getJoinRequests(id, authToken),
+        ({ data }) => setJoinRequests(data)
+      );
+    } catch (error) {
+      console.error("❌ Failed to load join requests:", error);
+    }
+  };
 
-      console.log("👥 Fetching all users...");
-      const response = await fetch(`${API_BASE_URL}/users/all`, {
-        headers: {
-          Authorization: `Bearer ${authToken}`,
-        },
-      });
+  // The ranch's invite codes, shown in the invite modal
+  const fetchInvites = async () => {
+    if (!authToken || !id) return;
+    setInvitesLoading(true);
+    try {
+      await revalidateQuery(
+        queryKeys.groupInvites(id),
+        () => getGroupInvites(id, authToken),
+        ({ data }) => setInvites(data)
+      );
+    } catch (error) {
+      console.error("❌ Failed to load invites:", error);
+    } finally {
+      setInvitesLoading(false);
+    }
+  };
 
-      if (response.ok) {
-        const data = await response.json();
-        console.log("✅ Users fetched:", data.users.length);
-        console.log("👥 All users:", data.users);
-        console.log("📋 Current memberList:", memberList);
-        console.log("👤 Current user ID:", currentUserId);
-
-        // Filter out users who are already members
-        const nonMembers = data.users.filter((user: any) => {
-          const isAlreadyMember = memberList.includes(user.userId);
-          const isCurrentUser = user.userId === currentUserId;
-          console.log(
-            `🔍 Checking ${user.username}: isAlreadyMember=${isAlreadyMember}, isCurrentUser=${isCurrentUser}`
-          );
-          return !isAlreadyMember && !isCurrentUser;
-        });
+  const handleInvite = () => {
+    setInviteModalVisible(true);
+    fetchInvites();
+  };
 
-        console.log("✅ Available users after filtering:", nonMembers);
-        setAvailableUsers(nonMembers);
-        setInviteModalVisible(true);
-      } else {
-        console.error("❌ Failed to fetch users");
-        Alert.alert("Error", "Failed to load users");
+  const handleCreateInvite = async (request: CreateInviteRequest) => {
+    if (!authToken || !id) return;
+    try {
+      const invite = await createInvite(id, request, authToken);
+      console.log("🎟️ Invite created:", invite.code);
+      if (request.username) {
+        Alert.alert("Invite Sent", `${request.username} will find it in their invitations`);
       }
+      setInvites((prev) => [invite, ...prev]);
+      await updateCachedQuery<Invite[]>(queryKeys.groupInvites(id), (cached) => [
+        invite,
+        ...cached,
+      ]);
     } catch (error) {
-      console.error("❌ Network error:", error);
-      Alert.alert("Error", "Network error occurred");
-    } finally {
-      setLoading(false);
+      console.error("❌ Create invite error:", error);
+      Alert.alert("Error", getErrorMessage(error, "Failed to create invite"));
     }
   };
 
-  // Add selected user to the group
-  const handleAddMember = async () => {
-    if (!selectedUserId) {
-      Alert.alert("Error", "Please select a user");
-      return;
+  const handleRevokeInvite = async (code: string) => {
+    if (!authToken || !id) return;
+    try {
+      await revokeInvite(id, code, authToken);
+      setInvites((prev) =>
+        prev.map((invite) =>
+          invite.code === code ? { ...invite, revoked: true } : invite
+        )
+      );
+      await fetchInvites();
+    } catch (error) {
+      console.error("❌ Revoke invite error:", error);
+      Alert.alert("Error", getErrorMessage(error, "Failed to revoke invite"));
     }
+  };
 
-    console.log("➕ Adding member:", selectedUserId);
-    setLoading(true);
-    try {
-      const response = await fetch(`${API_BASE_URL}/groups/${id}/members`, {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${authToken}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          userId: selectedUserId,
-        }),
-      });
+  // Remove a member, or open a removal vote when the approval rules require one
+  const handleKickMember = async (member: string) => {
+    if (!authToken || !id) return;
+    const memberName = memberProfiles[member] || member;
+    const message = approvalPolicy.removalRequiresVote
+      ? `Propose removing ${memberName}? The ranch votes on it first.`
+      : `Remove ${memberName} from ${name}?`;
+    const confirmKick =
+      Platform.OS === "web"
+        ? window.confirm(message)
+        : await new Promise((resolve) => {
+            Alert.alert("Remove Member", message, [
+              { text: "Cancel", style: "cancel", onPress: () => resolve(false) },
+              {
+                text: approvalPolicy.removalRequiresVote ? "Propose" : "Remove",
+                style: "destructive",
+                onPress: () => resolve(true),
+              },
+            ]);
+          });
+    if (!confirmKick) return;
 
-      if (response.ok) {
-        console.log("✅ Member added");
-        const selectedUser = availableUsers.find(
-          (u) => u.userId === selectedUserId
-        );
+    try {
+      const result = await requestMemberRemoval(
+        id,
+        member,
+        approvalPolicy,
+        `Remove ${memberName} from the ranch`,
+        authToken
+      );
+      console.log("👢 Member removal:", result);
+      if (result.status === "removed") {
+        setMemberList((prev) => prev.filter((m) => m !== member));
+        Alert.alert("Member Removed", `${memberName} is no longer in ${name}`);
+        await fetchGroupData();
+      } else {
         Alert.alert(
-          "Member Added! 🎉",
-          `${selectedUser?.username} has been added to ${name}`
+          "Removal Proposed",
+          `${memberName} will be removed once the ranch approves and executes the proposal`
         );
-        setSelectedUserId("");
-        setInviteModalVisible(false);
-        await fetchGroupData(); // Refresh member list
-      } else {
-        const error = await response.json();
-        console.error("❌ Add member error:", error);
-        if (error.detail === "User is already a member") {
-          Alert.alert("Already a Member", "This user is already in the ranch");
-        } else {
-          Alert.alert("Error", error.detail || "Failed to add member");
-        }
+        setManageMembersModalVisible(false);
+        await fetchProposals();
       }
     } catch (error) {
-      console.error("❌ Network error:", error);
-      Alert.alert("Error", "Network error occurred");
-    } finally {
-      setLoading(false);
+      console.error("❌ Remove member error:", error);
+      Alert.alert("Error", getErrorMessage(error, "Failed to remove member"));
     }
   };
 
-  const handleKickMember = (member: string) => {
-    Alert.alert("Kick Member", `Kicked ${member} from the ranch`);
-    setMemberList(memberList.filter((m) => m !== member));
+  // Hand the ranch to another member, or open a vote on it when the approval rules require one
+  const handleTransferOwnership = async (member: string) => {
+    if (!authToken || !id) return;
+    const memberName = memberProfiles[member] || member;
+    const message = approvalPolicy.transferRequiresVote
+      ? `Propose making ${memberName} the owner of ${name}? The ranch votes on it first.`
+      : `Make ${memberName} the owner of ${name}? You stay on as an admin and can no longer dissolve the ranch or change its rules.`;
+    const confirmTransfer =
+      Platform.OS === "web"
+        ? window.confirm(message)
+        : await new Promise((resolve) => {
+            Alert.alert("Transfer Ownership", message, [
+              { text: "Cancel", style: "cancel", onPress: () => resolve(false) },
+              {
+                text: approvalPolicy.transferRequiresVote ? "Propose" : "Transfer",
+                style: "destructive",
+                onPress: () => resolve(true),
+              },
+            ]);
+          });
+    if (!confirmTransfer) return;
+
+    try {
+      const result = await requestOwnershipTransfer(
+        id,
+        member,
+        approvalPolicy,
+        `Make ${memberName} the owner of the ranch`,
+        authToken
+      );
+      console.log("👑 Ownership transfer:", result);
+      if (result.status === "transferred") {
+        setGroupOwnerId(member);
+        setMemberRoles((prev) => ({
+          ...prev,
+          ...(currentUserId ? { [currentUserId]: "admin" as const } : {}),
+          [member]: "owner",
+        }));
+        Alert.alert("Ownership Transferred", `${memberName} now owns ${name}`);
+        await fetchGroupData();
+      } else {
+        Alert.alert(
+          "Transfer Proposed",
+          `${memberName} becomes the owner once the ranch approves and executes the proposal`
+        );
+        await fetchProposals();
+      }
+      setManageMembersModalVisible(false);
+    } catch (error) {
+      console.error("❌ Transfer ownership error:", error);
+      Alert.alert("Error", getErrorMessage(error, "Failed to transfer ownership"));
+    }
   };
 
-  const handlePromoteMember = (member: string) => {
-    Alert.alert("Promote Member", `${member} is now an admin!`);
+  // Make a member an admin, or an admin a plain member again (owner only)
+  const handleChangeRole = async (
+    member: string,
+    role: Exclude<MemberRole, "owner">
+  ) => {
+    if (!authToken || !id) return;
+    const memberName = memberProfiles[member] || member;
+    try {
+      await setMemberRole(id, member, role, authToken);
+      setMemberRoles((prev) => ({ ...prev, [member]: role }));
+      Alert.alert("Role Changed", `${memberName} is now ${role === "admin" ? "an admin" : "a member"}`);
+      await fetchGroupData();
+    } catch (error) {
+      console.error("❌ Change role error:", error);
+      Alert.alert("Error", getErrorMessage(error, "Failed to change role"));
+    }
   };
 
   // Vote on a proposal
   const handleVote = async (
     transactionId: string,
-    vote: "approve" | "reject"
+    vote: VoteChoice,
+    reason?: string
   ) => {
+    if (!authToken || !id) return;
     try {
-      const response = await fetch(
-        `${API_BASE_URL}/transactions/${transactionId}/vote`,
-        {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${authToken}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({ vote }),
-        }
+      const submitted = await submitMutation<VoteResponse>(
+        { kind: "vote", groupId: id, transactionId, vote, reason },
+        authToken
       );
+      if (submitted.queued) {
+        Alert.alert(
+          "📴 Vote Saved Offline",
+          `Your ${vote} vote will be sent when you're back online.`
+        );
+        return;
+      }
+      Alert.alert("Vote Recorded", `You voted to ${vote} this proposal`);
+      await fetchProposals(); // Refresh proposals
+      await fetchGroupData(); // Refresh balance in case it auto-executed
+    } catch (error) {
+      Alert.alert("Error", getErrorMessage(error, "Failed to vote"));
+    }
+  };
 
-      if (response.ok) {
-        Alert.alert("Vote Recorded", `You voted to ${vote} this proposal`);
-        await fetchProposals(); // Refresh proposals
-        await fetchGroupData(); // Refresh balance in case it auto-executed
-      } else {
-        const error = await response.json();
-        Alert.alert("Error", error.detail || "Failed to vote");
+  const handleRetractVote = async (transactionId: string) => {
+    if (!authToken || !id) return;
+    try {
+      const submitted = await submitMutation<VoteResponse>(
+        { kind: "retractVote", groupId: id, transactionId },
+        authToken
+      );
+      if (submitted.queued) {
+        Alert.alert(
+          "📴 Saved Offline",
+          "Your vote will be retracted when you're back online."
+        );
+        return;
       }
+      Alert.alert("Vote Retracted", "Your vote no longer counts on this proposal");
+      await fetchProposals();
     } catch (error) {
-      Alert.alert("Error", "Network error occurred");
+      Alert.alert("Error", getErrorMessage(error, "Failed to retract vote"));
     }
   };
 
+  // Withdraw a pending proposal (proposer or owner)
+  const handleCancelProposal = async (transactionId: string) => {
+    if (!authToken) return;
+    try {
+      console.log("🚫 Cancelling proposal:", transactionId);
+      await cancelTransaction(transactionId, authToken);
+      Alert.alert("Proposal Cancelled", "Members can no longer vote on it");
+      await fetchProposals();
+    } catch (error) {
+      console.error("❌ Cancel failed:", error);
+      Alert.alert("Error", getErrorMessage(error, "Failed to cancel proposal"));
+    }
+  };
+
+  // Publish a new revision of a pending proposal, which resets its votes
+  const handleAmendProposal = async (
+    transactionId: string,
+    request: AmendTransactionRequest
+  ) => {
+    if (!authToken) return;
+    try {
+      console.log("✏️ Amending proposal:", transactionId, request);
+      await amendTransaction(transactionId, request, authToken);
+      setAmendingProposal(null);
+      Alert.alert("Proposal Amended", "Votes were reset so members can review the new revision");
+      await fetchProposals();
+    } catch (error) {
+      console.error("❌ Amend failed:", error);
+      Alert.alert("Error", getErrorMessage(error, "Failed to amend proposal"));
+    }
+  };
+
+  const handleOpenProposal = (transactionId: string) =>
+    router.push({ pathname: "/transaction/[id]", params: { id: transactionId } });
+
   // Execute an approved proposal
   const handleExecute = async (transactionId: string) => {
     if (!authToken) {
@@ -907,31 +1408,23 @@ export default function RanchScreen() {
 
     try {
       console.log("⚡ Executing transaction:", transactionId);
-      const response = await fetch(
-        `${API_BASE_URL}/transactions/${transactionId}/execute`,
-        {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${authToken}`,
-          },
-        }
+      const result = await executeTransaction(transactionId, authToken);
+      console.log("✅ Transaction executed:", result);
+      // Stock sells report what the shares made or lost against their cost
+      Alert.alert(
+        "Success! 🎉",
+        result.realizedGain === undefined
+          ? "Transaction executed successfully!"
+          : `Sale executed. Realized ${result.realizedGain >= 0 ? "gain" : "loss"}: $${formatMoney(
+              Math.abs(result.realizedGain)
+            )}`
       );
-
-      if (response.ok) {
-        const result = await response.json();
-        console.log("✅ Transaction executed:", result);
-        Alert.alert("Success! 🎉", "Transaction executed successfully!");
-        await fetchProposals();
-        await fetchGroupData();
-        await fetchPersonalBalance(); // Update personal balance after execution
-      } else {
-        const error = await response.json();
-        console.error("❌ Execute failed:", error);
-        Alert.alert("Error", error.detail || "Failed to execute");
-      }
+      await fetchProposals();
+      await fetchGroupData();
+      await fetchPersonalBalance(); // Update personal balance after execution
     } catch (error) {
-      console.error("❌ Network error:", error);
-      Alert.alert("Error", "Network error occurred");
+      console.error("❌ Execute failed:", error);
+      Alert.alert("Error", getErrorMessage(error, "Failed to execute"));
     }
   };
 
@@ -948,6 +1441,8 @@ export default function RanchScreen() {
         }
       >
         <ThemedView style={styles.contentContainer}>
+          <OfflineBanner lastUpdated={lastUpdated} />
+
           {/* Header */}
           <ThemedView style={styles.header}>
             <ThemedText type="title" style={styles.headerText}>
@@ -979,143 +1474,72 @@ export default function RanchScreen() {
             <ThemedText style={styles.personalBalance}>
               💰 Your Available Balance: ${formatMoney(personalBalance)}
             </ThemedText>
+            {queuedDepositTotal > 0 && (
+              <ThemedText style={styles.pendingSyncText}>
+                🔄 ${formatMoney(queuedDepositTotal)} in deposits pending sync
+              </ThemedText>
+            )}
           </ThemedView>
 
-          {/* Pending Proposals Section */}
-          <ThemedView style={styles.section}>
-            <ThemedText type="subtitle" style={styles.sectionTitle}>
-              📋 Proposals ({proposals.length})
-            </ThemedText>
-            {proposals.length === 0 ? (
-              <ThemedText style={styles.emptyText}>
-                No proposals yet. Click Invest to create one!
+          {archivedAt && (
+            <ThemedView style={styles.archivedBanner}>
+              <ThemedText style={styles.archivedTitle}>🗄️ Dissolved</ThemedText>
+              <ThemedText style={styles.archivedText}>
+                {name} was dissolved on {new Date(archivedAt).toLocaleDateString()} and its
+                members were paid out. The ledger below is a read-only archive.
               </ThemedText>
-            ) : (
-              proposals.map((proposal) => {
-                const voteCount = Object.keys(proposal.votes || {}).length;
-                const approveCount = Object.values(proposal.votes || {}).filter(
-                  (v) => v === "approve"
-                ).length;
-                const rejectCount = Object.values(proposal.votes || {}).filter(
-                  (v) => v === "reject"
-                ).length;
-                const votesNeeded = Math.ceil(memberCount / 2);
-                const votesRemaining = Math.max(0, votesNeeded - approveCount);
-                const userVote = proposal.votes?.[currentUserId || ""];
-
-                // Status colors and emojis
-                const statusConfig = {
-                  pending: { emoji: "⏳", color: "#FBBF24", text: "Pending" },
-                  approved: { emoji: "✓", color: "#10B981", text: "Approved" },
-                  rejected: { emoji: "✗", color: "#EF4444", text: "Rejected" },
-                  executed: { emoji: "✅", color: "#8B5CF6", text: "Executed" },
-                };
-                const status =
-                  statusConfig[proposal.status] || statusConfig.pending;
-
-                // Debug: Log if this proposal doesn't match the current group
-                if (proposal.groupID !== id) {
-                  console.warn(
-                    "⚠️ MISMATCH! Proposal",
-                    proposal.transactionID,
-                    "belongs to group",
-                    proposal.groupID,
-                    "but showing in",
-                    id
-                  );
-                }
-
-                return (
-                  <ThemedView
-                    key={proposal.transactionID}
-                    style={styles.proposalCard}
-                  >
-                    <View style={styles.proposalHeader}>
-                      <ThemedText style={styles.proposalAmount}>
-                        ${formatMoney(parseFloat(proposal.amount))}
-                      </ThemedText>
-                      <View
-                        style={[
-                          styles.statusBadge,
-                          { backgroundColor: status.color },
-                        ]}
-                      >
-                        <ThemedText style={styles.statusText}>
-                          {status.emoji} {status.text}
-                        </ThemedText>
-                      </View>
-                    </View>
-                    <ThemedText style={styles.proposalDescription}>
-                      {proposal.description}
-                    </ThemedText>
-
-                    <View style={styles.voteInfo}>
-                      <ThemedText style={styles.voteText}>
-                        👍 {approveCount} | 👎 {rejectCount} |
-                        {proposal.status === "pending"
-                          ? ` ${votesRemaining} more vote${
-                              votesRemaining !== 1 ? "s" : ""
-                            } needed`
-                          : proposal.status === "approved"
-                          ? " Ready to execute!"
-                          : proposal.status === "executed"
-                          ? " Funds added to ranch!"
-                          : " Not approved"}
-                      </ThemedText>
-                    </View>
+            </ThemedView>
+          )}
 
-                    {/* Only show voting buttons for pending proposals where user hasn't voted */}
-                    {userVote ? (
-                      <ThemedText style={styles.votedText}>
-                        You voted:{" "}
-                        {userVote === "approve" ? "👍 Approve" : "👎 Reject"}
-                      </ThemedText>
-                    ) : proposal.status === "pending" ? (
-                      <View style={styles.voteButtons}>
-                        <TouchableOpacity
-                          style={[styles.voteButton, styles.approveButton]}
-                          onPress={() =>
-                            handleVote(proposal.transactionID, "approve")
-                          }
-                        >
-                          <ThemedText style={styles.voteButtonText}>
-                            👍 Approve
-                          </ThemedText>
-                        </TouchableOpacity>
-                        <TouchableOpacity
-                          style={[styles.voteButton, styles.rejectButton]}
-                          onPress={() =>
-                            handleVote(proposal.transactionID, "reject")
-                          }
-                        >
-                          <ThemedText style={styles.voteButtonText}>
-                            👎 Reject
-                          </ThemedText>
-                        </TouchableOpacity>
-                      </View>
-                    ) : null}
-
-                    {/* Show execute button only for approved proposals */}
-                    {proposal.status === "approved" && (
-                      <TouchableOpacity
-                        style={styles.executeButton}
-                        onPress={() => handleExecute(proposal.transactionID)}
-                      >
-                        <ThemedText style={styles.executeButtonText}>
-                          ⚡ Execute Transaction
-                        </ThemedText>
-                      </TouchableOpacity>
-                    )}
-
-                    {/* Show timestamp */}
-                    <ThemedText style={styles.timestampText}>
-                      Created: {new Date(proposal.createdAt).toLocaleString()}
-                    </ThemedText>
-                  </ThemedView>
-                );
-              })
-            )}
-          </ThemedView>
+          {/* Pending Proposals Section */}
+          {!archivedAt && (
+            <ThemedView style={styles.section}>
+              <ThemedText type="subtitle" style={styles.sectionTitle}>
+                📋 Proposals ({proposals.length + queuedProposals.length})
+              </ThemedText>
+              {proposals.length === 0 && queuedProposals.length === 0 ? (
+                <ThemedText style={styles.emptyText}>
+                  No proposals yet. Click Invest to create one!
+                </ThemedText>
+              ) : (
+                <>
+                  {queuedProposals.map((proposal) => (
+                    <ProposalCard
+                      key={proposal.transactionID}
+                      proposal={proposal}
+                      currentUserId={currentUserId || ""}
+                      memberProfiles={memberProfiles}
+                      policy={approvalPolicy}
+                      memberCount={memberCount}
+                      groupOwnerId={groupOwnerId}
+                      onVote={handleVote}
+                      onExecute={canExecute ? handleExecute : undefined}
+                      pendingSync
+                    />
+                  ))}
+                  {proposals.map((proposal) => (
+                    <ProposalCard
+                      key={proposal.transactionID}
+                      proposal={proposal}
+                      currentUserId={currentUserId || ""}
+                      memberProfiles={memberProfiles}
+                      policy={approvalPolicy}
+                      memberCount={memberCount}
+                      groupOwnerId={groupOwnerId}
+                      onVote={handleVote}
+                      onRetract={handleRetractVote}
+                      onExecute={canExecute ? handleExecute : undefined}
+                      onCancel={handleCancelProposal}
+                      onAmend={setAmendingProposal}
+                      onOpen={handleOpenProposal}
+                      queuedVote={queuedVotes[proposal.transactionID]}
+                      memberIds={memberList}
+                    />
+                  ))}
+                </>
+              )}
+            </ThemedView>
+          )}
 
           {/* Pie Chart */}
           <ThemedView style={styles.section}>
@@ -1170,186 +1594,70 @@ export default function RanchScreen() {
           </ThemedView>
 
           {/* Members */}
-          <ThemedView style={styles.section}>
-            <ThemedText type="subtitle">
-              Members ({memberList.length || memberCount})
-            </ThemedText>
-            {memberList.length > 0 ? (
-              <FlatList
-                data={memberList}
-                keyExtractor={(item, idx) => idx.toString()}
-                renderItem={({ item }) => (
-                  <ThemedText>
-                    👨‍🚀 {memberProfiles[item] ? memberProfiles[item] : item}
-                  </ThemedText>
-                )}
-              />
-            ) : (
-              <ThemedText>Loading members...</ThemedText>
-            )}
-          </ThemedView>
+          <MembersSection
+            memberList={memberList}
+            memberProfiles={memberProfiles}
+            memberCount={memberCount}
+            stakes={stakes}
+            joinRequests={canManageMembers && !archivedAt ? joinRequests : undefined}
+            onRespondToJoinRequest={handleRespondToJoinRequest}
+          />
 
           {/* Ledger - Executed Transactions */}
-          {ledger.length > 0 && (
-            <ThemedView style={styles.section}>
-              <ThemedText type="subtitle">📜 Ledger</ThemedText>
-              <ThemedText style={styles.ledgerSubtitle}>
-                Transaction History (Executed)
-              </ThemedText>
-              {ledger.map((transaction) => {
-                const proposedBy = transaction.proposedBy
-                  ? memberProfiles[transaction.proposedBy] ||
-                    transaction.proposedBy
-                  : "Unknown";
-                const createdDate = new Date(
-                  transaction.createdAt
-                ).toLocaleDateString();
-                const executedDate = transaction.executedAt
-                  ? new Date(transaction.executedAt).toLocaleDateString()
-                  : "N/A";
-
-                return (
-                  <ThemedView
-                    key={transaction.transactionID}
-                    style={styles.ledgerEntry}
-                  >
-                    <View style={styles.ledgerHeader}>
-                      <ThemedText style={styles.ledgerAmount}>
-                        ${formatMoney(parseFloat(transaction.amount))}
-                      </ThemedText>
-                      <ThemedText style={styles.ledgerDate}>
-                        {executedDate}
-                      </ThemedText>
-                    </View>
-                    <ThemedText style={styles.ledgerDescription}>
-                      {transaction.description}
-                    </ThemedText>
-                    <ThemedText style={styles.ledgerProposer}>
-                      Proposed by: {proposedBy}
-                    </ThemedText>
-                    <ThemedText style={styles.ledgerType}>
-                      Type: {transaction.transactionType}
-                    </ThemedText>
-                  </ThemedView>
-                );
-              })}
-            </ThemedView>
-          )}
+          <LedgerSection
+            ledger={ledger}
+            memberProfiles={memberProfiles}
+            memberIds={memberList}
+            filters={ledgerFilters}
+            onChangeFilters={handleLedgerFiltersChange}
+            hasMore={!!ledgerCursor}
+            loading={ledgerLoading}
+            onLoadMore={loadMoreLedger}
+            onOpen={handleOpenProposal}
+            onExport={() => setExportModalVisible(true)}
+          />
 
           {/* Actions */}
-          <ThemedView style={styles.section}>
-            <View style={styles.buttonRow}>
-              {[
-                { label: "Deposit", color: "#10B981", onPress: handleDeposit },
-                { label: "Invest", color: "#FBBF24", onPress: handleInvest },
-                {
-                  label: "Withdraw",
-                  color: "#F59E0B",
-                  onPress: handleWithdraw,
-                },
-                { label: "Invite", color: "#3B82F6", onPress: handleInvite },
-                {
-                  label: "Manage Members",
-                  color: "#8B5CF6",
-                  onPress: () => setManageMembersModalVisible(true),
-                },
-                currentUserId === groupOwnerId
-                  ? {
-                      label: "Delete Ranch",
-                      color: "#EF4444",
-                      onPress: handleDelete,
-                    }
-                  : {
-                      label: "Leave Ranch",
-                      color: "#F97316",
-                      onPress: handleLeave,
-                    },
-              ].map((btn) => (
-                <TouchableOpacity
-                  key={btn.label}
-                  style={[styles.actionButton, { backgroundColor: btn.color }]}
-                  onPress={btn.onPress}
-                  activeOpacity={0.7}
-                >
-                  <ThemedText style={styles.buttonText}>{btn.label}</ThemedText>
-                </TouchableOpacity>
-              ))}
-            </View>
-          </ThemedView>
+          {!archivedAt && (
+            <ActionButtonsSection
+              role={myRole}
+              onDeposit={handleDeposit}
+              onInvest={handleInvest}
+              onWithdraw={handleWithdraw}
+              onInvite={handleInvite}
+              onManageMembers={() => setManageMembersModalVisible(true)}
+              onEditPolicy={() => setPolicyModalVisible(true)}
+              onDissolve={handleDissolve}
+              onLeave={handleLeave}
+            />
+          )}
         </ThemedView>
       </ScrollView>
 
+      {/* Dissolution Modal (owner only) */}
+      <DissolutionModal
+        visible={dissolveModalVisible}
+        ranchName={name || "this ranch"}
+        totalAssets={totalAssets}
+        investedAmount={investedAmount}
+        payouts={stakes ? previewDissolution(stakes, totalAssets) : undefined}
+        memberProfiles={memberProfiles}
+        thresholdLabel={THRESHOLD_LABELS[approvalPolicy.thresholds.dissolution]}
+        onClose={() => setDissolveModalVisible(false)}
+        onPropose={handleProposeDissolution}
+      />
+
       {/* Invite Modal */}
-      <Modal
-        transparent
-        animationType="slide"
+      <InviteModal
         visible={inviteModalVisible}
-        onRequestClose={() => setInviteModalVisible(false)}
-      >
-        <ThemedView style={styles.modalBackground}>
-          <ThemedView style={styles.modalContent}>
-            <ThemedText type="subtitle">� Add Member to {name}</ThemedText>
-            <ThemedText style={styles.modalSubtext}>
-              Select a user to add to your ranch
-            </ThemedText>
-
-            {availableUsers.length === 0 ? (
-              <ThemedText style={styles.emptyText}>
-                {loading ? "Loading users..." : "No users available to add"}
-              </ThemedText>
-            ) : (
-              <ScrollView style={styles.userList}>
-                {availableUsers.map((user) => (
-                  <TouchableOpacity
-                    key={user.userId}
-                    style={[
-                      styles.userItem,
-                      selectedUserId === user.userId && styles.userItemSelected,
-                    ]}
-                    onPress={() => setSelectedUserId(user.userId)}
-                  >
-                    <View>
-                      <ThemedText style={styles.username}>
-                        👤 {user.username}
-                      </ThemedText>
-                      <ThemedText style={styles.userEmail}>
-                        {user.email}
-                      </ThemedText>
-                    </View>
-                    {selectedUserId === user.userId && (
-                      <ThemedText style={styles.checkmark}>✓</ThemedText>
-                    )}
-                  </TouchableOpacity>
-                ))}
-              </ScrollView>
-            )}
-
-            <View style={styles.modalButtons}>
-              <TouchableOpacity
-                onPress={() => {
-                  setInviteModalVisible(false);
-                  setSelectedUserId("");
-                }}
-                style={styles.modalBtnCancel}
-                disabled={loading}
-              >
-                <ThemedText>Cancel</ThemedText>
-              </TouchableOpacity>
-              <TouchableOpacity
-                onPress={handleAddMember}
-                style={[styles.modalBtnSend, loading && styles.btnDisabled]}
-                disabled={loading || !selectedUserId}
-              >
-                {loading ? (
-                  <ActivityIndicator color="#fff" />
-                ) : (
-                  <ThemedText>Add Member</ThemedText>
-                )}
-              </TouchableOpacity>
-            </View>
-          </ThemedView>
-        </ThemedView>
-      </Modal>
+        ranchId={id || ""}
+        ranchName={name || "this ranch"}
+        invites={invites}
+        loading={invitesLoading}
+        onClose={() => setInviteModalVisible(false)}
+        onCreate={handleCreateInvite}
+        onRevoke={handleRevokeInvite}
+      />
 
       {/* Manage Members Modal */}
       <Modal
@@ -1364,25 +1672,49 @@ export default function RanchScreen() {
             <FlatList
               data={memberList}
               keyExtractor={(item, idx) => idx.toString()}
-              renderItem={({ item }) => (
-                <View style={styles.memberActionRow}>
-                  <ThemedText>👨‍🚀 {item}</ThemedText>
-                  <View style={styles.memberButtons}>
-                    <TouchableOpacity
-                      onPress={() => handleKickMember(item)}
-                      style={styles.kickBtn}
-                    >
-                      <ThemedText>Kick</ThemedText>
-                    </TouchableOpacity>
-                    <TouchableOpacity
-                      onPress={() => handlePromoteMember(item)}
-                      style={styles.promoteBtn}
-                    >
-                      <ThemedText>Promote</ThemedText>
-                    </TouchableOpacity>
+              renderItem={({ item }) => {
+                const role = roleOf(item);
+                return (
+                  <View style={styles.memberActionRow}>
+                    <View>
+                      <ThemedText>👨‍🚀 {memberProfiles[item] || item}</ThemedText>
+                      <ThemedText style={styles.roleText}>{ROLE_LABELS[role]}</ThemedText>
+                    </View>
+                    <View style={styles.memberButtons}>
+                      {canRemoveMember(myRole, role) && (
+                        <TouchableOpacity
+                          onPress={() => handleKickMember(item)}
+                          style={styles.kickBtn}
+                        >
+                          <ThemedText>
+                            {approvalPolicy.removalRequiresVote ? "Vote to Kick" : "Kick"}
+                          </ThemedText>
+                        </TouchableOpacity>
+                      )}
+                      {hasPermission(myRole, "changeRoles") && role !== "owner" && (
+                        <TouchableOpacity
+                          onPress={() =>
+                            handleChangeRole(item, role === "admin" ? "member" : "admin")
+                          }
+                          style={styles.promoteBtn}
+                        >
+                          <ThemedText>{role === "admin" ? "Demote" : "Promote"}</ThemedText>
+                        </TouchableOpacity>
+                      )}
+                      {hasPermission(myRole, "transferOwnership") && role !== "owner" && (
+                        <TouchableOpacity
+                          onPress={() => handleTransferOwnership(item)}
+                          style={styles.transferBtn}
+                        >
+                          <ThemedText>
+                            {approvalPolicy.transferRequiresVote ? "Vote Owner" : "Make Owner"}
+                          </ThemedText>
+                        </TouchableOpacity>
+                      )}
+                    </View>
                   </View>
-                </View>
-              )}
+                );
+              }}
             />
             <TouchableOpacity
               onPress={() => setManageMembersModalVisible(false)}
@@ -1401,6 +1733,32 @@ export default function RanchScreen() {
         onTradeSubmit={handleStockTrade}
         groupId={id || ""}
         authToken={authToken || ""}
+        defaultVotingPeriodHours={approvalPolicy.votingPeriodHours}
+        holdings={stockHoldings}
+        proposals={[...proposals, ...queuedProposals]}
+      />
+
+      {/* Approval Rules Modal (owner only) */}
+      <PolicySettingsModal
+        visible={policyModalVisible}
+        policy={approvalPolicy}
+        onClose={() => setPolicyModalVisible(false)}
+        onSave={handleSavePolicy}
+      />
+
+      {/* Ledger Export Modal */}
+      <ExportLedgerModal
+        visible={exportModalVisible}
+        filtered={hasLedgerFilters(ledgerFilters)}
+        onClose={() => setExportModalVisible(false)}
+        onExport={handleExport}
+      />
+
+      {/* Amend Proposal Modal (proposer only) */}
+      <AmendProposalModal
+        proposal={amendingProposal}
+        onClose={() => setAmendingProposal(null)}
+        onSubmit={handleAmendProposal}
       />
 
       {/* Invest Modal (Legacy - keeping for backward compatibility) */}
@@ -1430,11 +1788,17 @@ export default function RanchScreen() {
               value={transactionAmount}
               onChangeText={setTransactionAmount}
             />
+            <VotingPeriodPicker
+              value={votingPeriodHours}
+              defaultHours={approvalPolicy.votingPeriodHours}
+              onChange={setVotingPeriodHours}
+            />
             <View style={styles.modalButtons}>
               <TouchableOpacity
                 onPress={() => {
                   setInvestModalVisible(false);
                   setTransactionAmount("");
+                  setVotingPeriodHours(null);
                 }}
                 style={styles.modalBtnCancel}
                 disabled={loading}
@@ -1524,6 +1888,12 @@ export default function RanchScreen() {
             <ThemedText style={styles.modalSubtext}>
               Available Balance: ${ranchBalance.toLocaleString()}
             </ThemedText>
+            {withdrawableShare !== null && (
+              <ThemedText style={styles.modalSubtext}>
+                Your Share: ${formatMoney(withdrawableShare)}
+                {pendingWithdrawals > 0 ? " (after pending withdrawals)" : ""}
+              </ThemedText>
+            )}
             <TextInput
               style={styles.input}
               placeholder="Amount"
@@ -1532,11 +1902,22 @@ export default function RanchScreen() {
               value={transactionAmount}
               onChangeText={setTransactionAmount}
             />
+            {withdrawableShare !== null && withdrawAmount > withdrawableShare && (
+              <ThemedText style={styles.shareWarning}>
+                ⚠️ This is more than your share of the ranch
+              </ThemedText>
+            )}
+            <VotingPeriodPicker
+              value={votingPeriodHours}
+              defaultHours={approvalPolicy.votingPeriodHours}
+              onChange={setVotingPeriodHours}
+            />
             <View style={styles.modalButtons}>
               <TouchableOpacity
                 onPress={() => {
                   setWithdrawModalVisible(false);
                   setTransactionAmount("");
+                  setVotingPeriodHours(null);
                 }}
                 style={styles.modalBtnCancel}
                 disabled={loading}
@@ -1620,22 +2001,6 @@ const styles = StyleSheet.create({
     borderRadius: 8,
     alignItems: "center",
   },
-  buttonRow: {
-    flexDirection: "row",
-    flexWrap: "wrap",
-    justifyContent: "space-between",
-    gap: 12,
-  },
-  actionButton: {
-    flex: 1,
-    paddingVertical: 14,
-    marginVertical: 6,
-    borderRadius: 12,
-    alignItems: "center",
-    justifyContent: "center",
-    minWidth: "45%",
-  },
-  buttonText: { color: "#0B1120", fontWeight: "bold", fontSize: 16 },
   memberActionRow: {
     flexDirection: "row",
     justifyContent: "space-between",
@@ -1643,6 +2008,7 @@ const styles = StyleSheet.create({
     marginVertical: 6,
   },
   memberButtons: { flexDirection: "row", gap: 6 },
+  roleText: { color: "#9CA3AF", fontSize: 12 },
   kickBtn: {
     backgroundColor: "#EF4444",
     paddingHorizontal: 10,
@@ -1655,45 +2021,32 @@ const styles = StyleSheet.create({
     paddingVertical: 6,
     borderRadius: 8,
   },
-  modalSubtext: { color: "#9CA3AF", marginTop: 8, fontSize: 14 },
-  userList: {
-    maxHeight: 300,
-    marginVertical: 16,
-  },
-  userItem: {
-    flexDirection: "row",
-    justifyContent: "space-between",
-    alignItems: "center",
-    padding: 12,
-    marginBottom: 8,
-    backgroundColor: "#1D1F33",
+  transferBtn: {
+    backgroundColor: "#D97706",
+    paddingHorizontal: 10,
+    paddingVertical: 6,
     borderRadius: 8,
-    borderWidth: 1,
-    borderColor: "#374151",
-  },
-  userItemSelected: {
-    borderColor: "#10B981",
-    borderWidth: 2,
-    backgroundColor: "#1D2F26",
-  },
-  username: {
-    fontSize: 16,
-    fontWeight: "600",
-    color: "#fff",
-  },
-  userEmail: {
-    fontSize: 12,
-    color: "#9CA3AF",
-    marginTop: 2,
-  },
-  checkmark: {
-    fontSize: 24,
-    color: "#10B981",
-    fontWeight: "bold",
   },
+  modalSubtext: { color: "#9CA3AF", marginTop: 8, fontSize: 14 },
   btnDisabled: { opacity: 0.6 },
   contentContainer: { paddingBottom: 20 },
   personalBalance: { color: "#9CA3AF", fontSize: 14, marginTop: 4 },
+  archivedBanner: {
+    marginBottom: 24,
+    padding: 16,
+    borderRadius: 16,
+    backgroundColor: "#1F2937",
+    borderWidth: 1,
+    borderColor: "#6B7280",
+  },
+  archivedTitle: { fontWeight: "bold", fontSize: 16, marginBottom: 4 },
+  archivedText: { color: "#9CA3AF", fontSize: 14 },
+  pendingSyncText: {
+    color: "#FBBF24",
+    fontSize: 12,
+    fontWeight: "600",
+    marginTop: 4,
+  },
   balanceContainer: {
     marginVertical: 12,
     padding: 12,
@@ -1733,113 +2086,11 @@ const styles = StyleSheet.create({
     color: "#10B981",
   },
   sectionTitle: { marginBottom: 12, fontSize: 18 },
-  proposalCard: {
-    backgroundColor: "#0F1729",
-    padding: 16,
-    borderRadius: 12,
-    marginBottom: 12,
-    borderWidth: 1,
-    borderColor: "#374151",
-  },
-  proposalHeader: {
-    flexDirection: "row",
-    justifyContent: "space-between",
-    alignItems: "center",
-    marginBottom: 8,
-  },
-  proposalAmount: { fontSize: 24, fontWeight: "bold", color: "#FBBF24" },
-  statusBadge: {
-    paddingHorizontal: 12,
-    paddingVertical: 4,
-    borderRadius: 12,
-  },
-  statusText: { fontSize: 12, fontWeight: "bold", color: "#000" },
-  proposalDescription: { color: "#E5E7EB", marginBottom: 12 },
-  voteInfo: { marginBottom: 12 },
-  voteText: { color: "#9CA3AF", fontSize: 14 },
-  votedText: {
-    color: "#10B981",
-    fontSize: 14,
-    fontWeight: "bold",
-    textAlign: "center",
-    padding: 8,
-  },
-  voteButtons: {
-    flexDirection: "row",
-    gap: 8,
-    marginTop: 8,
-  },
-  voteButton: {
-    flex: 1,
-    padding: 12,
-    borderRadius: 8,
-    alignItems: "center",
-  },
-  approveButton: { backgroundColor: "#10B981" },
-  rejectButton: { backgroundColor: "#EF4444" },
-  voteButtonText: { color: "#fff", fontWeight: "bold" },
-  executeButton: {
-    backgroundColor: "#8B5CF6",
-    padding: 12,
-    borderRadius: 8,
-    alignItems: "center",
-    marginTop: 8,
-  },
-  executeButtonText: { color: "#fff", fontWeight: "bold", fontSize: 16 },
+  shareWarning: { color: "#F59E0B", fontSize: 13, marginBottom: 8 },
   emptyText: {
     color: "#9CA3AF",
     fontStyle: "italic",
     textAlign: "center",
     padding: 16,
   },
-  timestampText: {
-    color: "#6B7280",
-    fontSize: 12,
-    marginTop: 8,
-    fontStyle: "italic",
-  },
-  ledgerSubtitle: {
-    color: "#9CA3AF",
-    fontSize: 14,
-    marginBottom: 12,
-    fontStyle: "italic",
-  },
-  ledgerEntry: {
-    backgroundColor: "#0F1729",
-    padding: 14,
-    borderRadius: 10,
-    marginBottom: 10,
-    borderWidth: 1,
-    borderColor: "#1F2937",
-    opacity: 0.85,
-  },
-  ledgerHeader: {
-    flexDirection: "row",
-    justifyContent: "space-between",
-    alignItems: "center",
-    marginBottom: 6,
-  },
-  ledgerAmount: {
-    fontSize: 20,
-    fontWeight: "bold",
-    color: "#6B7280",
-  },
-  ledgerDate: {
-    fontSize: 13,
-    color: "#9CA3AF",
-  },
-  ledgerDescription: {
-    color: "#D1D5DB",
-    marginBottom: 6,
-    fontSize: 14,
-  },
-  ledgerProposer: {
-    color: "#9CA3AF",
-    fontSize: 12,
-  },
-  ledgerType: {
-    color: "#9CA3AF",
-    fontSize: 12,
-    fontStyle: "italic",
-  },
 });
@@ -1,4 +1,5 @@
 import SplashScreen from '@/components/splash-screen';
+import { AuthProvider } from '@/contexts/AuthContext';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native';
 import { Stack } from 'expo-router';
@@ -29,35 +30,41 @@ export default function RootLayout() {
   }, []);
 
   return (
-    <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
-      <Stack>
-        <Stack.Screen name="login" options={{ headerShown: false }} />
-        <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-        <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
-      </Stack>
-
-      {/* Splash overlay */}
-      {showSplash && (
-        <Animated.View
-          style={{
-            position: 'absolute',
-            top: 0,
-            left: 0,
-            right: 0,
-            bottom: 0,
-            backgroundColor: '#0B1120',
-            justifyContent: 'center',
-            alignItems: 'center',
-            opacity: fadeAnim,
-            zIndex: 9999,
-          }}
-        >
-          <SplashScreen />
-        </Animated.View>
-      )}
-
-      <StatusBar style="auto" />
-    </ThemeProvider>
+    <AuthProvider>
+      <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
+        <Stack>
+          <Stack.Screen name="login" options={{ headerShown: false }} />
+          <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+          <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
+          <Stack.Screen name="developer" options={{ title: 'Developer' }} />
+          <Stack.Screen name="transaction/[id]" options={{ title: 'Proposal' }} />
+          <Stack.Screen name="join/index" options={{ title: 'Join a Ranch' }} />
+          <Stack.Screen name="join/[code]" options={{ title: 'Ranch Invite' }} />
+        </Stack>
+
+        {/* Splash overlay */}
+        {showSplash && (
+          <Animated.View
+            style={{
+              position: 'absolute',
+              top: 0,
+              left: 0,
+              right: 0,
+              bottom: 0,
+              backgroundColor: '#0B1120',
+              justifyContent: 'center',
+              alignItems: 'center',
+              opacity: fadeAnim,
+              zIndex: 9999,
+            }}
+          >
+            <SplashScreen />
+          </Animated.View>
+        )}
+
+        <StatusBar style="auto" />
+      </ThemeProvider>
+    </AuthProvider>
   );
 }
 
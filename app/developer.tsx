@@ -0,0 +1,289 @@
+import {
+  checkHealth,
+  clearOutbox,
+  clearQueryCache,
+  getApiBaseUrl,
+  getDefaultApiBaseUrl,
+  getErrorMessage,
+  getOutbox,
+  getSavedBackends,
+  loadOutbox,
+  removeSavedBackend,
+  saveBackend,
+  selectBackend,
+  type SavedBackend,
+} from '@/api';
+import { ThemedText } from '@/components/themed-text';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+interface PingResult {
+  ok: boolean;
+  message: string;
+}
+
+// Hidden screen for testers, opened by long-pressing the Account title
+export default function DeveloperScreen() {
+  const defaultUrl = getDefaultApiBaseUrl();
+  const [activeUrl, setActiveUrl] = useState('');
+  const [savedBackends, setSavedBackends] = useState<SavedBackend[]>([]);
+  const [newLabel, setNewLabel] = useState('');
+  const [newUrl, setNewUrl] = useState('');
+  const [pinging, setPinging] = useState<string | null>(null);
+  const [pingResults, setPingResults] = useState<Record<string, PingResult>>({});
+
+  useEffect(() => {
+    const load = async () => {
+      setActiveUrl(await getApiBaseUrl());
+      setSavedBackends(await getSavedBackends());
+    };
+    load();
+  }, []);
+
+  const handlePing = async (url: string) => {
+    setPinging(url);
+    try {
+      const { health, latencyMs } = await checkHealth(url);
+      setPingResults((prev) => ({
+        ...prev,
+        [url]: {
+          ok: health.status === 'healthy',
+          message: `${health.status} · ${health.service} v${health.version} · ${latencyMs}ms`,
+        },
+      }));
+    } catch (error) {
+      setPingResults((prev) => ({
+        ...prev,
+        [url]: { ok: false, message: getErrorMessage(error, 'Unreachable') },
+      }));
+    } finally {
+      setPinging(null);
+    }
+  };
+
+  // Cached data and queued offline mutations (with their idempotency keys) belong to the
+  // previous server, replaying them against the new one would apply them there
+  const forgetPreviousBackend = async () => {
+    await loadOutbox();
+    const discarded = getOutbox().length;
+    await clearQueryCache();
+    await clearOutbox();
+    return discarded;
+  };
+
+  const handleSelect = async (url: string | null) => {
+    const previous = await getApiBaseUrl();
+    await selectBackend(url);
+    const next = await getApiBaseUrl();
+    const discarded = next !== previous ? await forgetPreviousBackend() : 0;
+    setActiveUrl(next);
+    Alert.alert(
+      'Backend Switched',
+      `Now using ${next}.\n\n${
+        discarded > 0 ? `${discarded} offline change(s) queued for the previous server were discarded. ` : ''
+      }Log out and back in if your session belongs to the previous server.`
+    );
+  };
+
+  const handleSave = async () => {
+    const url = newUrl.trim();
+    if (!/^https?:\/\/\S+$/.test(url)) {
+      Alert.alert('Invalid URL', 'Enter a full URL, e.g. http://192.168.1.20:8080');
+      return;
+    }
+    setSavedBackends(await saveBackend({ label: newLabel, url }));
+    setNewLabel('');
+    setNewUrl('');
+  };
+
+  const handleRemove = async (url: string) => {
+    const previous = await getApiBaseUrl();
+    setSavedBackends(await removeSavedBackend(url));
+    const next = await getApiBaseUrl();
+    // Removing the active server falls back to the build default
+    if (next !== previous) {
+      await forgetPreviousBackend();
+    }
+    setActiveUrl(next);
+  };
+
+  const renderBackendRow = (label: string, url: string, onUse: () => void, onRemove?: () => void) => {
+    const isActive = url === activeUrl;
+    const result = pingResults[url];
+    return (
+      <View key={url} style={[styles.backendRow, isActive && styles.backendRowActive]}>
+        <ThemedText style={styles.backendLabel}>
+          {isActive ? '✓ ' : ''}
+          {label}
+        </ThemedText>
+        <ThemedText style={styles.backendUrl}>{url}</ThemedText>
+        {result && (
+          <ThemedText style={[styles.pingText, { color: result.ok ? '#10B981' : '#EF4444' }]}>
+            {result.ok ? '🟢' : '🔴'} {result.message}
+          </ThemedText>
+        )}
+        <View style={styles.rowButtons}>
+          <TouchableOpacity style={styles.smallButton} onPress={() => handlePing(url)} disabled={pinging !== null}>
+            {pinging === url ? (
+              <ActivityIndicator color="#fff" size="small" />
+            ) : (
+              <ThemedText style={styles.smallButtonText}>Ping</ThemedText>
+            )}
+          </TouchableOpacity>
+          {!isActive && (
+            <TouchableOpacity style={[styles.smallButton, styles.useButton]} onPress={onUse}>
+              <ThemedText style={styles.smallButtonText}>Use</ThemedText>
+            </TouchableOpacity>
+          )}
+          {onRemove && (
+            <TouchableOpacity style={[styles.smallButton, styles.removeButton]} onPress={onRemove}>
+              <ThemedText style={styles.smallButtonText}>Remove</ThemedText>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <ThemedText type="subtitle" style={styles.sectionTitle}>🛰️ Backend</ThemedText>
+      <ThemedText style={styles.note}>
+        Requests go to the selected server. The build default comes from EXPO_PUBLIC_API_URL or the
+        Expo config for this build profile.
+      </ThemedText>
+
+      {renderBackendRow('Build default', defaultUrl, () => handleSelect(null))}
+      {savedBackends
+        .filter((backend) => backend.url !== defaultUrl)
+        .map((backend) =>
+          renderBackendRow(
+            backend.label,
+            backend.url,
+            () => handleSelect(backend.url),
+            () => handleRemove(backend.url)
+          )
+        )}
+
+      <ThemedText type="subtitle" style={styles.sectionTitle}>➕ Add Server</ThemedText>
+      <TextInput
+        style={styles.input}
+        placeholder="Label (e.g. Laptop on LAN)"
+        placeholderTextColor="#9CA3AF"
+        value={newLabel}
+        onChangeText={setNewLabel}
+      />
+      <TextInput
+        style={styles.input}
+        placeholder="http://192.168.1.XXX:8080"
+        placeholderTextColor="#9CA3AF"
+        value={newUrl}
+        onChangeText={setNewUrl}
+        autoCapitalize="none"
+        autoCorrect={false}
+        keyboardType="url"
+      />
+      <TouchableOpacity style={styles.saveButton} onPress={handleSave}>
+        <ThemedText style={styles.saveButtonText}>Save Server</ThemedText>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0B1120',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  sectionTitle: {
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  note: {
+    fontSize: 13,
+    color: '#9CA3AF',
+    marginBottom: 16,
+  },
+  backendRow: {
+    backgroundColor: '#1B1F3B',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#374151',
+  },
+  backendRowActive: {
+    borderColor: '#10B981',
+  },
+  backendLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  backendUrl: {
+    fontSize: 13,
+    color: '#9CA3AF',
+    marginTop: 2,
+  },
+  pingText: {
+    fontSize: 12,
+    marginTop: 6,
+  },
+  rowButtons: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 10,
+  },
+  smallButton: {
+    backgroundColor: '#374151',
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 8,
+    minWidth: 60,
+    alignItems: 'center',
+  },
+  useButton: {
+    backgroundColor: '#3B82F6',
+  },
+  removeButton: {
+    backgroundColor: '#EF4444',
+  },
+  smallButtonText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  input: {
+    backgroundColor: '#1B1F3B',
+    borderWidth: 1,
+    borderColor: '#374151',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 12,
+    color: '#fff',
+    fontSize: 15,
+  },
+  saveButton: {
+    backgroundColor: '#FBBF24',
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: '#0B1120',
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
+});
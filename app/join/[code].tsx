@@ -0,0 +1,209 @@
+import {
+  acceptInvite,
+  declineInvite,
+  getErrorMessage,
+  getInvitePreview,
+  parseInviteCode,
+  type InvitePreview,
+} from '@/api';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useAuth } from '@/contexts/AuthContext';
+import { Redirect, useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Platform, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+// Accept / decline step for an invite, opened by a `frontend://join/CODE` link or the join-by-code screen
+export default function JoinRanchScreen() {
+  const params = useLocalSearchParams<{ code: string }>();
+  // Deep links can carry anything, only a well-formed code goes to the backend
+  const code = params.code ? parseInviteCode(params.code) : null;
+  const router = useRouter();
+  const { token, isAuthenticated, isLoading } = useAuth();
+  const [preview, setPreview] = useState<InvitePreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [responding, setResponding] = useState(false);
+
+  useEffect(() => {
+    if (!token || !code) return;
+    setPreview(null);
+    setError(null);
+    getInvitePreview(code, token)
+      .then(setPreview)
+      .catch((err) => {
+        console.error('❌ Invite lookup failed:', err);
+        setError(getErrorMessage(err, 'This invite is not valid'));
+      });
+  }, [code, token]);
+
+  const notify = (title: string, message: string) => {
+    if (Platform.OS === 'web') {
+      window.alert(message);
+    } else {
+      Alert.alert(title, message);
+    }
+  };
+
+  const handleAccept = async () => {
+    if (!token || !code || !preview) return;
+    setResponding(true);
+    try {
+      const groupId = await acceptInvite(code, token);
+      console.log('🤠 Joined ranch:', groupId);
+      notify('Welcome! 🎉', `You joined ${preview.groupName}`);
+      router.replace({
+        pathname: '/(tabs)/ranch',
+        params: { id: groupId, name: preview.groupName, balance: '0', members: '' },
+      });
+    } catch (err) {
+      console.error('❌ Accept invite failed:', err);
+      notify('Error', getErrorMessage(err, 'Failed to join ranch'));
+    } finally {
+      setResponding(false);
+    }
+  };
+
+  const handleDecline = async () => {
+    if (!token || !code) return;
+    setResponding(true);
+    try {
+      await declineInvite(code, token);
+      router.replace('/(tabs)');
+    } catch (err) {
+      console.error('❌ Decline invite failed:', err);
+      notify('Error', getErrorMessage(err, 'Failed to decline invite'));
+    } finally {
+      setResponding(false);
+    }
+  };
+
+  if (!isLoading && !isAuthenticated) {
+    return <Redirect href={{ pathname: '/login', params: { redirect: code ? `/join/${code}` : '/join' } }} />;
+  }
+
+  if (!code) {
+    return (
+      <ThemedView style={styles.container}>
+        <ThemedText style={styles.emoji}>🚫</ThemedText>
+        <ThemedText type="subtitle" style={styles.title}>Invalid invite link</ThemedText>
+        <ThemedText style={styles.detail}>Check the link or ask for a new invite code.</ThemedText>
+        <View style={styles.buttonRow}>
+          <TouchableOpacity style={[styles.button, styles.declineButton]} onPress={() => router.replace('/(tabs)')}>
+            <ThemedText style={styles.buttonText}>Back to Home</ThemedText>
+          </TouchableOpacity>
+        </View>
+      </ThemedView>
+    );
+  }
+
+  if (error) {
+    return (
+      <ThemedView style={styles.container}>
+        <ThemedText style={styles.emoji}>🚫</ThemedText>
+        <ThemedText type="subtitle" style={styles.title}>Invite unavailable</ThemedText>
+        <ThemedText style={styles.detail}>{error}</ThemedText>
+        <ThemedText style={styles.detail}>It may have expired, been used up or been revoked.</ThemedText>
+        <View style={styles.buttonRow}>
+          <TouchableOpacity style={[styles.button, styles.declineButton]} onPress={() => router.replace('/(tabs)')}>
+            <ThemedText style={styles.buttonText}>Back to Home</ThemedText>
+          </TouchableOpacity>
+        </View>
+      </ThemedView>
+    );
+  }
+
+  if (!preview) {
+    return (
+      <View style={styles.loading}>
+        <ActivityIndicator size="large" color="#FBBF24" />
+      </View>
+    );
+  }
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedText style={styles.emoji}>🤠</ThemedText>
+      <ThemedText type="subtitle" style={styles.title}>Join {preview.groupName}?</ThemedText>
+      {preview.invitedBy && (
+        <ThemedText style={styles.detail}>{preview.invitedBy} invited you</ThemedText>
+      )}
+      <ThemedText style={styles.detail}>
+        {preview.memberCount} member{preview.memberCount === 1 ? '' : 's'} · invite expires{' '}
+        {preview.invite.expiresAt.toLocaleString()}
+      </ThemedText>
+
+      <View style={styles.buttonRow}>
+        <TouchableOpacity
+          style={[styles.button, styles.declineButton, responding && styles.buttonDisabled]}
+          onPress={handleDecline}
+          disabled={responding}
+        >
+          <ThemedText style={styles.buttonText}>Decline</ThemedText>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.button, styles.acceptButton, responding && styles.buttonDisabled]}
+          onPress={handleAccept}
+          disabled={responding}
+        >
+          {responding ? <ActivityIndicator color="#fff" /> : <ThemedText style={styles.buttonText}>Join Ranch</ThemedText>}
+        </TouchableOpacity>
+      </View>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0B1120',
+    padding: 24,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loading: {
+    flex: 1,
+    backgroundColor: '#0B1120',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emoji: {
+    fontSize: 48,
+    lineHeight: 56,
+    marginBottom: 12,
+  },
+  title: {
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  detail: {
+    color: '#9CA3AF',
+    textAlign: 'center',
+    marginBottom: 4,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 24,
+    alignSelf: 'stretch',
+  },
+  button: {
+    flex: 1,
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  acceptButton: {
+    backgroundColor: '#10B981',
+  },
+  declineButton: {
+    backgroundColor: '#6B7280',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: '#fff',
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
+});
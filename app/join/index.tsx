@@ -0,0 +1,207 @@
+import { getErrorMessage, parseInviteCode, requestToJoin } from '@/api';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useAuth } from '@/contexts/AuthContext';
+import { Redirect, useRouter } from 'expo-router';
+import React, { useState } from 'react';
+import { ActivityIndicator, Alert, Platform, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+// Join-by-code: takes a code (or a pasted invite link) and opens the accept / decline step.
+// Without a code, a user can ask an owner or admin to let them in by the ranch's ID.
+export default function JoinByCodeScreen() {
+  const router = useRouter();
+  const { token, isAuthenticated, isLoading } = useAuth();
+  const [mode, setMode] = useState<'code' | 'request'>('code');
+  const [text, setText] = useState('');
+  const [ranchId, setRanchId] = useState('');
+  const [message, setMessage] = useState('');
+  const [sending, setSending] = useState(false);
+  const code = parseInviteCode(text);
+
+  const handleContinue = () => {
+    if (!code) return;
+    router.push({ pathname: '/join/[code]', params: { code } });
+  };
+
+  const handleRequest = async () => {
+    if (!token || !ranchId.trim()) return;
+    setSending(true);
+    try {
+      await requestToJoin(ranchId.trim(), message.trim() || undefined, token);
+      const done = 'Request sent. You will see the ranch on Home once an owner or admin approves it.';
+      if (Platform.OS === 'web') {
+        window.alert(done);
+      } else {
+        Alert.alert('Request Sent 🙋', done);
+      }
+      router.replace('/(tabs)');
+    } catch (error) {
+      console.error('❌ Join request failed:', error);
+      const failed = getErrorMessage(error, 'Failed to send join request');
+      if (Platform.OS === 'web') {
+        window.alert(failed);
+      } else {
+        Alert.alert('Error', failed);
+      }
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (!isLoading && !isAuthenticated) {
+    return <Redirect href={{ pathname: '/login', params: { redirect: '/join' } }} />;
+  }
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedText type="subtitle" style={styles.title}>🎟️ Join a Ranch</ThemedText>
+
+      <View style={styles.tabs}>
+        {(['code', 'request'] as const).map((option) => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.tab, mode === option && styles.tabSelected]}
+            onPress={() => setMode(option)}
+          >
+            <ThemedText style={[styles.tabText, mode === option && styles.tabTextSelected]}>
+              {option === 'code' ? 'I have a code' : 'Ask to join'}
+            </ThemedText>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {mode === 'code' ? (
+        <>
+          <ThemedText style={styles.hint}>Enter the invite code a ranch owner or admin shared with you, or paste the link.</ThemedText>
+          <TextInput
+            style={styles.input}
+            placeholder="e.g. K7QX2M"
+            placeholderTextColor="#6B7280"
+            value={text}
+            onChangeText={setText}
+            autoCapitalize="none"
+            autoCorrect={false}
+            onSubmitEditing={handleContinue}
+          />
+          {text.trim() !== '' && !code && <ThemedText style={styles.error}>That does not look like an invite code</ThemedText>}
+          <TouchableOpacity
+            style={[styles.button, !code && styles.buttonDisabled]}
+            onPress={handleContinue}
+            disabled={!code}
+          >
+            <ThemedText style={styles.buttonText}>Continue</ThemedText>
+          </TouchableOpacity>
+        </>
+      ) : (
+        <>
+          <ThemedText style={styles.hint}>Ask a member for the ranch ID, its owner or an admin decides on your request.</ThemedText>
+          <TextInput
+            style={styles.input}
+            placeholder="Ranch ID"
+            placeholderTextColor="#6B7280"
+            value={ranchId}
+            onChangeText={setRanchId}
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          <TextInput
+            style={[styles.input, styles.messageInput]}
+            placeholder="Message (optional)"
+            placeholderTextColor="#6B7280"
+            value={message}
+            onChangeText={setMessage}
+            multiline
+          />
+          <TouchableOpacity
+            style={[styles.button, (!ranchId.trim() || sending) && styles.buttonDisabled]}
+            onPress={handleRequest}
+            disabled={!ranchId.trim() || sending}
+          >
+            {sending ? <ActivityIndicator color="#fff" /> : <ThemedText style={styles.buttonText}>Send Request</ThemedText>}
+          </TouchableOpacity>
+        </>
+      )}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0B1120',
+    padding: 24,
+    justifyContent: 'center',
+  },
+  title: {
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  tabs: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  tab: {
+    flex: 1,
+    padding: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#374151',
+    alignItems: 'center',
+  },
+  tabSelected: {
+    borderColor: '#FBBF24',
+    backgroundColor: '#1F2937',
+  },
+  tabText: {
+    color: '#9CA3AF',
+  },
+  tabTextSelected: {
+    color: '#FBBF24',
+    fontWeight: '600',
+  },
+  hint: {
+    color: '#9CA3AF',
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#374151',
+    borderRadius: 8,
+    padding: 14,
+    fontSize: 18,
+    letterSpacing: 1,
+    color: '#fff',
+    backgroundColor: '#0F1729',
+    textAlign: 'center',
+  },
+  messageInput: {
+    marginTop: 12,
+    fontSize: 15,
+    letterSpacing: 0,
+    textAlign: 'left',
+    minHeight: 80,
+  },
+  error: {
+    color: '#EF4444',
+    fontSize: 13,
+    marginTop: 6,
+    textAlign: 'center',
+  },
+  button: {
+    marginTop: 20,
+    padding: 14,
+    borderRadius: 8,
+    backgroundColor: '#3B82F6',
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: '#fff',
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
+});
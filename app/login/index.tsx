@@ -1,7 +1,8 @@
+import { getErrorMessage, login, signup } from '@/api';
 import { ThemedText } from '@/components/themed-text';
-import { useRouter } from 'expo-router';
-import * as SecureStore from 'expo-secure-store';
-import { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Href, useLocalSearchParams, useRouter } from 'expo-router';
+import { useEffect, useState } from 'react';
 import {
   ActivityIndicator,
   Alert,
@@ -16,28 +17,11 @@ import {
   View,
 } from 'react-native';
 
-const API_BASE_URL = 'http://localhost:8080';
-
-// Helper function to store data (works on web and native)
-const storeData = async (key: string, value: string) => {
-  if (Platform.OS === 'web') {
-    localStorage.setItem(key, value);
-  } else {
-    await SecureStore.setItemAsync(key, value);
-  }
-};
-
-// Helper function to get data (works on web and native)
-const getData = async (key: string) => {
-  if (Platform.OS === 'web') {
-    return localStorage.getItem(key);
-  } else {
-    return await SecureStore.getItemAsync(key);
-  }
-};
-
 export default function LoginScreen() {
   const router = useRouter();
+  const auth = useAuth();
+  // Set by the (tabs) auth gate: where the user was headed, and why they were sent here
+  const { reason, redirect } = useLocalSearchParams<{ reason?: string; redirect?: string }>();
   const [isSignup, setIsSignup] = useState(false);
   const [loading, setLoading] = useState(false);
   
@@ -47,6 +31,14 @@ export default function LoginScreen() {
   const [username, setUsername] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
 
+  // Once a session exists, go back to the originally requested route (only in-app paths)
+  useEffect(() => {
+    if (!auth.isAuthenticated) return;
+    const returnTo = redirect && redirect.startsWith('/') && !redirect.startsWith('//') ? redirect : '/(tabs)';
+    console.log('✅ Authenticated, navigating to', returnTo);
+    router.replace(returnTo as Href);
+  }, [auth.isAuthenticated, redirect, router]);
+
   const handleLogin = async () => {
     if (!email || !password) {
       Alert.alert('Missing Fields', 'Please enter email and password');
@@ -55,37 +47,16 @@ export default function LoginScreen() {
 
     setLoading(true);
     try {
-      const response = await fetch(`${API_BASE_URL}/auth/login`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ email, password }),
-      });
+      const data = await login({ email, password });
+      console.log('✅ Login successful:', data);
+      console.log('UserId:', data.userId);
+      console.log('Username:', data.username);
 
-      if (response.ok) {
-        const data = await response.json();
-        console.log('✅ Login successful:', data);
-        console.log('Token:', data.token);
-        console.log('UserId:', data.userId);
-        console.log('Username:', data.username);
-        
-        // Store auth credentials
-        await storeData('authToken', data.token);
-        await storeData('userId', data.userId);
-        await storeData('username', data.username);
-        
-        console.log('✅ Credentials stored, navigating...');
-        // Navigate to main app
-        router.push('/(tabs)');
-        console.log('✅ Navigation called');
-      } else {
-        const error = await response.json();
-        Alert.alert('Login Failed', error.detail || 'Invalid credentials');
-      }
+      // Start the session (persists credentials for web and native), the auth effect navigates
+      await auth.login(data.token, data.userId, data.username);
     } catch (error) {
       console.error('❌ Login error:', error);
-      Alert.alert('Error', 'Network error occurred');
+      Alert.alert('Login Failed', getErrorMessage(error, 'Invalid credentials'));
     } finally {
       setLoading(false);
     }
@@ -117,52 +88,19 @@ export default function LoginScreen() {
       console.log('✅ Validation passed, making API call...');
       setLoading(true);
       
-      const url = `${API_BASE_URL}/auth/signup`;
-      console.log('Calling URL:', url);
-      console.log('Request body:', { email, password, username });
-      
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ email, password, username }),
-      });
+      const data = await signup({ email, password, username });
+      console.log('✅ Signup successful:', data);
 
-      console.log('Response received. Status:', response.status);
-      
-      if (response.ok) {
-        const data = await response.json();
-        console.log('✅ Signup successful:', data);
-        
-        // Store auth credentials (backend returns token on signup)
-        await storeData('authToken', data.token);
-        await storeData('userId', data.userId);
-        await storeData('username', data.username);
-        
-        console.log('✅ Credentials stored, navigating to app...');
-        
-        // Navigate immediately
-        router.replace('/(tabs)');
-        console.log('✅ Navigation complete');
-        
-        setPassword('');
-        setConfirmPassword('');
-      } else {
-        const errorText = await response.text();
-        console.log('❌ Signup failed. Status:', response.status, 'Response:', errorText);
-        try {
-          const error = JSON.parse(errorText);
-          Alert.alert('Signup Failed', error.detail || 'Could not create account');
-        } catch (e) {
-          Alert.alert('Signup Failed', errorText || 'Could not create account');
-        }
-      }
+      // Store auth credentials (backend returns token on signup)
+      await auth.login(data.token, data.userId, data.username);
+
+      console.log('✅ Credentials stored, the auth effect will navigate');
+
+      setPassword('');
+      setConfirmPassword('');
     } catch (error) {
       console.error('❌ Signup error (caught):', error);
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      console.error('Error details:', errorMessage);
-      Alert.alert('Error', `Network error occurred: ${errorMessage}`);
+      Alert.alert('Signup Failed', getErrorMessage(error, 'Could not create account'));
     } finally {
       console.log('Setting loading to false');
       setLoading(false);
@@ -201,6 +139,14 @@ export default function LoginScreen() {
             </ThemedText>
           </View>
 
+          {reason === 'expired' && (
+            <View style={styles.expiredBanner}>
+              <ThemedText style={styles.expiredBannerText}>
+                ⏰ Your session expired. Please log in again.
+              </ThemedText>
+            </View>
+          )}
+
           {/* Form */}
           <View style={styles.formContainer}>
             {isSignup && (
@@ -279,15 +225,6 @@ export default function LoginScreen() {
               </ThemedText>
             </TouchableOpacity>
 
-            {/* Demo Button */}
-            <TouchableOpacity
-              style={[styles.button, styles.demoButton]}
-              onPress={() => router.replace('/(tabs)')}
-            >
-              <ThemedText style={styles.demoButtonText} lightColor="#fff" darkColor="#fff">
-                Continue as Guest 👻
-              </ThemedText>
-            </TouchableOpacity>
           </View>
         </ScrollView>
       </KeyboardAvoidingView>
@@ -335,6 +272,20 @@ const styles = StyleSheet.create({
     color: '#E5E7EB',
     textAlign: 'center',
   },
+  expiredBanner: {
+    backgroundColor: 'rgba(239, 68, 68, 0.15)',
+    borderColor: '#EF4444',
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+    width: '100%',
+  },
+  expiredBannerText: {
+    color: '#FCA5A5',
+    textAlign: 'center',
+    fontSize: 14,
+  },
   formContainer: {
     width: '100%',
     maxWidth: 400,
@@ -377,14 +328,4 @@ const styles = StyleSheet.create({
     fontSize: 14,
     textDecorationLine: 'underline',
   },
-  demoButton: {
-    backgroundColor: 'transparent',
-    borderWidth: 2,
-    borderColor: '#9CA3AF',
-    marginTop: 16,
-  },
-  demoButtonText: {
-    color: '#9CA3AF',
-    fontSize: 14,
-  },
 });
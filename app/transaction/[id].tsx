@@ -0,0 +1,540 @@
+import {
+  DEFAULT_POLICY,
+  amendTransaction,
+  applyGroupEvent,
+  cancelTransaction,
+  createComment,
+  deleteComment,
+  executeTransaction,
+  extractMentions,
+  getComments,
+  getErrorMessage,
+  getGroup,
+  getGroupMembers,
+  getGroupOwner,
+  getGroupPolicy,
+  getMemberRole,
+  getTransaction,
+  getTransactionRevisions,
+  hasPermission,
+  queryKeys,
+  revalidateQuery,
+  submitMutation,
+  updateComment,
+  updateCachedQuery,
+  type AmendTransactionRequest,
+  type ApprovalPolicy,
+  type Comment,
+  type Group,
+  type Transaction,
+  type TransactionRevision,
+  type VoteChoice,
+  type VoteResponse,
+} from '@/api';
+import { OfflineBanner } from '@/components/offline-banner';
+import { AmendProposalModal, AuditTimeline, CommentThread, ProposalCard } from '@/components/ranch';
+import { ThemedText } from '@/components/themed-text';
+import { useAuth } from '@/contexts/AuthContext';
+import { useGroupEvents } from '@/hooks/use-group-events';
+import { useOutbox } from '@/hooks/use-outbox';
+import { Redirect, Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+// Proposal detail with the member discussion, opened from ProposalCard and TransactionCard
+export default function TransactionDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { token, userId, isAuthenticated, isLoading } = useAuth();
+  const router = useRouter();
+  const [transaction, setTransaction] = useState<Transaction | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null); // only shown while nothing is loaded
+  const [group, setGroup] = useState<Group | null>(null);
+  const [policy, setPolicy] = useState<ApprovalPolicy>(DEFAULT_POLICY);
+  const [usernames, setUsernames] = useState<Record<string, string>>({});
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [revisions, setRevisions] = useState<TransactionRevision[]>([]);
+  const [amending, setAmending] = useState<Transaction | null>(null);
+  const [lastUpdated, setLastUpdated] = useState<number | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const groupId = transaction?.groupID;
+  const outbox = useOutbox();
+  // Latest vote or retraction for this proposal still waiting in the outbox (null: retraction)
+  let queuedVote: VoteChoice | null | undefined;
+  outbox.forEach(({ mutation }) => {
+    if (mutation.kind === 'vote' && mutation.transactionId === id) queuedVote = mutation.vote;
+    if (mutation.kind === 'retractVote' && mutation.transactionId === id) queuedVote = null;
+  });
+
+  // Only the ranch's members can be mentioned
+  const memberProfiles: Record<string, string> = {};
+  (group?.members || []).forEach((memberId) => {
+    memberProfiles[memberId] = usernames[memberId] || memberId;
+  });
+
+  const fetchTransaction = useCallback(async () => {
+    if (!token || !id) return;
+    try {
+      await revalidateQuery(
+        queryKeys.transaction(id),
+        () => getTransaction(id, token),
+        ({ data, updatedAt }) => {
+          setTransaction(data);
+          setLastUpdated(updatedAt);
+          setLoadError(null);
+        }
+      );
+    } catch (error) {
+      console.error('❌ Error fetching transaction:', error);
+      setLoadError(getErrorMessage(error, 'Failed to load proposal'));
+    }
+  }, [id, token]);
+
+  const fetchComments = useCallback(async () => {
+    if (!token || !id) return;
+    try {
+      await revalidateQuery(
+        queryKeys.transactionComments(id),
+        () => getComments(id, token),
+        ({ data }) => setComments(data)
+      );
+    } catch (error) {
+      console.error('❌ Error fetching comments:', error);
+    }
+  }, [id, token]);
+
+  const fetchRevisions = useCallback(async () => {
+    if (!token || !id) return;
+    try {
+      await revalidateQuery(
+        queryKeys.transactionRevisions(id),
+        () => getTransactionRevisions(id, token),
+        ({ data }) => setRevisions(data)
+      );
+    } catch (error) {
+      console.error('❌ Error fetching revisions:', error);
+    }
+  }, [id, token]);
+
+  // Members, owner and rules of the ranch the proposal belongs to
+  const fetchGroupContext = useCallback(async () => {
+    if (!token || !groupId) return;
+    try {
+      await Promise.all([
+        revalidateQuery(queryKeys.group(groupId), () => getGroup(groupId, token), ({ data }) =>
+          setGroup(data)
+        ),
+        revalidateQuery(queryKeys.groupPolicy(groupId), () => getGroupPolicy(groupId, token), ({ data }) =>
+          setPolicy(data)
+        ),
+        revalidateQuery(queryKeys.groupMembers(groupId), () => getGroupMembers(groupId, token), ({ data: members }) => {
+          const map: Record<string, string> = {};
+          members.forEach((m) => {
+            map[m.userId] = m.username;
+          });
+          setUsernames(map);
+        }),
+      ]);
+    } catch (error) {
+      console.error('❌ Error fetching ranch for transaction:', error);
+    }
+  }, [groupId, token]);
+
+  useEffect(() => {
+    fetchTransaction();
+    fetchComments();
+    fetchRevisions();
+  }, [fetchTransaction, fetchComments, fetchRevisions]);
+
+  useEffect(() => {
+    fetchGroupContext();
+  }, [fetchGroupContext]);
+
+  // Votes from other members land while the discussion is open
+  useGroupEvents(groupId ? [groupId] : [], token, (event) => {
+    if (event.type === 'balance_changed') return;
+    setTransaction((prev) => (prev ? applyGroupEvent([prev], event)[0] : prev));
+    if (event.type === 'proposal_amended' && event.transaction.transactionID === id) {
+      fetchRevisions();
+    }
+  });
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await Promise.all([fetchTransaction(), fetchComments(), fetchRevisions(), fetchGroupContext()]);
+    setRefreshing(false);
+  };
+
+  // Keep the card's comment count in step without refetching the ranch
+  const adjustCommentCount = async (delta: number) => {
+    if (!transaction) return;
+    const commentCount = Math.max(0, transaction.commentCount + delta);
+    setTransaction({ ...transaction, commentCount });
+    await updateCachedQuery<Transaction[]>(queryKeys.groupTransactions(transaction.groupID), (transactions) =>
+      transactions.map((txn) => (txn.transactionID === transaction.transactionID ? { ...txn, commentCount } : txn))
+    );
+  };
+
+  const handleSubmitComment = async (text: string) => {
+    if (!token || !id) return;
+    try {
+      const comment = await createComment(id, text, extractMentions(text, memberProfiles), token);
+      setComments((prev) => [...prev, comment]);
+      await adjustCommentCount(1);
+    } catch (error) {
+      Alert.alert('Error', getErrorMessage(error, 'Failed to post comment'));
+      throw error;
+    }
+  };
+
+  const handleEditComment = async (comment: Comment, text: string) => {
+    if (!token || !id) return;
+    try {
+      const updated = await updateComment(id, comment.commentId, text, extractMentions(text, memberProfiles), token);
+      setComments((prev) => prev.map((c) => (c.commentId === updated.commentId ? updated : c)));
+    } catch (error) {
+      Alert.alert('Error', getErrorMessage(error, 'Failed to edit comment'));
+      throw error;
+    }
+  };
+
+  const handleDeleteComment = async (comment: Comment) => {
+    if (!token || !id) return;
+    try {
+      await deleteComment(id, comment.commentId, token);
+      setComments((prev) => prev.filter((c) => c.commentId !== comment.commentId));
+      await adjustCommentCount(-1);
+    } catch (error) {
+      Alert.alert('Error', getErrorMessage(error, 'Failed to delete comment'));
+    }
+  };
+
+  const handleVote = async (transactionId: string, vote: VoteChoice, reason?: string) => {
+    if (!token || !groupId) return;
+    try {
+      const submitted = await submitMutation<VoteResponse>(
+        { kind: 'vote', groupId, transactionId, vote, reason },
+        token
+      );
+      if (submitted.queued) {
+        Alert.alert('📴 Vote Saved Offline', `Your ${vote} vote will be sent when you're back online.`);
+        return;
+      }
+      Alert.alert('Vote Recorded', `You voted to ${vote} this proposal`);
+      await fetchTransaction();
+    } catch (error) {
+      Alert.alert('Error', getErrorMessage(error, 'Failed to vote'));
+    }
+  };
+
+  const handleRetractVote = async (transactionId: string) => {
+    if (!token || !groupId) return;
+    try {
+      const submitted = await submitMutation<VoteResponse>({ kind: 'retractVote', groupId, transactionId }, token);
+      if (submitted.queued) {
+        Alert.alert('📴 Saved Offline', "Your vote will be retracted when you're back online.");
+        return;
+      }
+      Alert.alert('Vote Retracted', 'Your vote no longer counts on this proposal');
+      await fetchTransaction();
+    } catch (error) {
+      Alert.alert('Error', getErrorMessage(error, 'Failed to retract vote'));
+    }
+  };
+
+  const handleExecute = async (transactionId: string) => {
+    if (!token) return;
+    try {
+      const result = await executeTransaction(transactionId, token);
+      Alert.alert(
+        'Success! 🎉',
+        result.realizedGain === undefined
+          ? 'Transaction executed successfully!'
+          : `Sale executed. Realized ${result.realizedGain >= 0 ? 'gain' : 'loss'}: $${Math.abs(
+              result.realizedGain
+            ).toFixed(2)}`
+      );
+      await fetchTransaction();
+      // Not every backend stores the balances or the realized gain on the transaction, keep the ones this call returned
+      setTransaction((prev) =>
+        prev
+          ? {
+              ...prev,
+              previousBalance: prev.previousBalance ?? result.previousBalance,
+              newBalance: prev.newBalance ?? result.newBalance,
+              trade:
+                prev.trade && prev.trade.realizedGain === undefined
+                  ? { ...prev.trade, realizedGain: result.realizedGain }
+                  : prev.trade,
+            }
+          : prev
+      );
+    } catch (error) {
+      Alert.alert('Error', getErrorMessage(error, 'Failed to execute'));
+    }
+  };
+
+  const handleCancel = async (transactionId: string) => {
+    if (!token) return;
+    try {
+      const cancelled = await cancelTransaction(transactionId, token);
+      setTransaction(cancelled);
+      Alert.alert('Proposal Cancelled', 'Members can no longer vote on it');
+    } catch (error) {
+      Alert.alert('Error', getErrorMessage(error, 'Failed to cancel proposal'));
+    }
+  };
+
+  const handleAmend = async (transactionId: string, request: AmendTransactionRequest) => {
+    if (!token) return;
+    try {
+      const amended = await amendTransaction(transactionId, request, token);
+      setTransaction(amended);
+      setAmending(null);
+      Alert.alert('Proposal Amended', 'Votes were reset so members can review the new revision');
+      await fetchRevisions();
+    } catch (error) {
+      Alert.alert('Error', getErrorMessage(error, 'Failed to amend proposal'));
+    }
+  };
+
+  if (!isLoading && !isAuthenticated) {
+    return <Redirect href={{ pathname: '/login', params: { redirect: `/transaction/${id}` } }} />;
+  }
+
+  if (!transaction && loadError) {
+    return (
+      <View style={styles.loading}>
+        <ThemedText style={styles.errorEmoji}>🚫</ThemedText>
+        <ThemedText type="subtitle" style={styles.errorTitle}>Proposal unavailable</ThemedText>
+        <ThemedText style={styles.errorDetail}>{loadError}</ThemedText>
+        <View style={styles.buttonRow}>
+          <TouchableOpacity
+            style={[styles.button, styles.backButton]}
+            onPress={() => (router.canGoBack() ? router.back() : router.replace('/(tabs)'))}
+          >
+            <ThemedText style={styles.buttonText}>Back</ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.button, styles.retryButton]}
+            onPress={() => {
+              setLoadError(null);
+              fetchTransaction();
+            }}
+          >
+            <ThemedText style={styles.buttonText}>Retry</ThemedText>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  }
+
+  if (!transaction) {
+    return (
+      <View style={styles.loading}>
+        <ActivityIndicator size="large" color="#FBBF24" />
+      </View>
+    );
+  }
+
+  const memberCount = group?.members?.length || 1;
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      keyboardVerticalOffset={90}
+    >
+      <Stack.Screen options={{ title: transaction.description || 'Proposal' }} />
+      <ScrollView
+        contentContainerStyle={styles.content}
+        keyboardShouldPersistTaps="handled"
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor="#FBBF24" />}
+      >
+        <OfflineBanner lastUpdated={lastUpdated} />
+
+        <ProposalCard
+          proposal={transaction}
+          currentUserId={userId || ''}
+          memberProfiles={usernames}
+          policy={policy}
+          memberCount={memberCount}
+          groupOwnerId={group ? getGroupOwner(group) : null}
+          onVote={handleVote}
+          onRetract={handleRetractVote}
+          onExecute={
+            group && hasPermission(getMemberRole(group, userId), 'execute') ? handleExecute : undefined
+          }
+          onCancel={handleCancel}
+          onAmend={setAmending}
+          queuedVote={queuedVote}
+          memberIds={group?.members}
+        />
+
+        <ThemedText type="subtitle" style={styles.sectionTitle}>🧾 Details</ThemedText>
+        <AuditTimeline transaction={transaction} memberProfiles={usernames} />
+
+        {revisions.length > 1 && (
+          <>
+            <ThemedText type="subtitle" style={styles.sectionTitle}>📝 Revision history</ThemedText>
+            {revisions
+              .slice()
+              .reverse()
+              .map((rev, index, newestFirst) => {
+                const earlier = newestFirst[index + 1];
+                return (
+                  <View key={rev.revision} style={styles.revision}>
+                    <View style={styles.revisionHeader}>
+                      <ThemedText style={styles.revisionLabel}>
+                        Revision {rev.revision}
+                        {rev.revision === transaction.revision ? ' (current)' : ''}
+                      </ThemedText>
+                      <ThemedText style={styles.revisionMeta}>
+                        {usernames[rev.amendedBy] || rev.amendedBy} · {rev.createdAt.toLocaleString()}
+                      </ThemedText>
+                    </View>
+                    {earlier && earlier.amount !== rev.amount ? (
+                      <ThemedText style={styles.revisionText}>
+                        Amount: ${earlier.amount.toLocaleString()} → ${rev.amount.toLocaleString()}
+                      </ThemedText>
+                    ) : (
+                      <ThemedText style={styles.revisionText}>Amount: ${rev.amount.toLocaleString()}</ThemedText>
+                    )}
+                    {earlier && earlier.description !== rev.description && (
+                      <ThemedText style={[styles.revisionText, styles.removed]}>− {earlier.description}</ThemedText>
+                    )}
+                    <ThemedText
+                      style={[styles.revisionText, earlier && earlier.description !== rev.description && styles.added]}
+                    >
+                      {earlier && earlier.description !== rev.description ? '+ ' : ''}
+                      {rev.description}
+                    </ThemedText>
+                    {rev.note ? <ThemedText style={styles.revisionNote}>“{rev.note}”</ThemedText> : null}
+                  </View>
+                );
+              })}
+          </>
+        )}
+
+        <ThemedText type="subtitle" style={styles.sectionTitle}>💬 Discussion ({comments.length})</ThemedText>
+        <CommentThread
+          comments={comments}
+          currentUserId={userId || ''}
+          memberProfiles={memberProfiles}
+          onSubmit={handleSubmitComment}
+          onEdit={handleEditComment}
+          onDelete={handleDeleteComment}
+        />
+      </ScrollView>
+
+      <AmendProposalModal proposal={amending} onClose={() => setAmending(null)} onSubmit={handleAmend} />
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0B1120',
+  },
+  loading: {
+    flex: 1,
+    backgroundColor: '#0B1120',
+    padding: 24,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  errorEmoji: {
+    fontSize: 48,
+    lineHeight: 56,
+    marginBottom: 12,
+  },
+  errorTitle: {
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  errorDetail: {
+    color: '#9CA3AF',
+    textAlign: 'center',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 24,
+    alignSelf: 'stretch',
+  },
+  button: {
+    flex: 1,
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  backButton: {
+    backgroundColor: '#6B7280',
+  },
+  retryButton: {
+    backgroundColor: '#FBBF24',
+  },
+  buttonText: {
+    color: '#fff',
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  sectionTitle: {
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  revision: {
+    backgroundColor: '#0F1729',
+    padding: 12,
+    borderRadius: 10,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#1F2937',
+  },
+  revisionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+    gap: 8,
+  },
+  revisionLabel: {
+    color: '#60A5FA',
+    fontWeight: '600',
+    fontSize: 14,
+  },
+  revisionMeta: {
+    color: '#6B7280',
+    fontSize: 11,
+  },
+  revisionText: {
+    color: '#E5E7EB',
+    fontSize: 13,
+  },
+  removed: {
+    color: '#F87171',
+  },
+  added: {
+    color: '#34D399',
+  },
+  revisionNote: {
+    color: '#9CA3AF',
+    fontSize: 12,
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
+});
@@ -1,3 +1,15 @@
+import {
+  estimateRealizedGain,
+  getErrorMessage,
+  getSellableQuantity,
+  getStockLists,
+  getStockQuote,
+  type Stock,
+  type StockHolding,
+  type TradeSide,
+  type Transaction,
+} from "@/api";
+import { VotingPeriodPicker } from "@/components/ranch/VotingPeriodPicker";
 import { ThemedText } from "@/components/themed-text";
 import { ThemedView } from "@/components/themed-view";
 import React, { useEffect, useState } from "react";
@@ -12,14 +24,6 @@ import {
     View,
 } from "react-native";
 
-interface Stock {
-  symbol: string;
-  name: string;
-  price?: number;
-  change?: number;
-  change_percent?: number;
-}
-
 interface StockCategory {
   category: string;
   stocks: Stock[];
@@ -28,12 +32,26 @@ interface StockCategory {
 interface StockTradingModalProps {
   visible: boolean;
   onClose: () => void;
-  onTradeSubmit: (symbol: string, quantity: number, stockName: string, price: number) => Promise<void>;
+  onTradeSubmit: (
+    side: TradeSide,
+    symbol: string,
+    quantity: number,
+    stockName: string,
+    price: number,
+    votingPeriodHours: number | null
+  ) => Promise<void>;
   groupId: string;
   authToken: string;
+  /** The ranch's default voting deadline, shown next to the override choices */
+  defaultVotingPeriodHours: number;
+  /** What the ranch holds, each row can be sold from */
+  holdings: StockHolding[];
+  /** Open proposals, so shares already promised to a sell are not offered twice */
+  proposals: Transaction[];
 }
 
-const API_BASE_URL = "http://localhost:8080";
+const formatSigned = (amount: number) =>
+  `${amount >= 0 ? "+" : "-"}$${Math.abs(amount).toFixed(2)}`;
 
 export const StockTradingModal: React.FC<StockTradingModalProps> = ({
   visible,
@@ -41,11 +59,16 @@ export const StockTradingModal: React.FC<StockTradingModalProps> = ({
   onTradeSubmit,
   groupId,
   authToken,
+  defaultVotingPeriodHours,
+  holdings,
+  proposals,
 }) => {
   const [categories, setCategories] = useState<Record<string, Stock[]>>({});
   const [expandedCategory, setExpandedCategory] = useState<string | null>("blue_chips");
   const [selectedStock, setSelectedStock] = useState<Stock | null>(null);
+  const [side, setSide] = useState<TradeSide>("buy");
   const [quantity, setQuantity] = useState("");
+  const [votingPeriodHours, setVotingPeriodHours] = useState<number | null>(null);
   const [loading, setLoading] = useState(false);
   const [fetchingPrices, setFetchingPrices] = useState(false);
 
@@ -70,21 +93,11 @@ export const StockTradingModal: React.FC<StockTradingModalProps> = ({
   const fetchStockLists = async () => {
     try {
       setLoading(true);
-      const response = await fetch(`${API_BASE_URL}/stocks/lists`, {
-        headers: {
-          Authorization: `Bearer ${authToken}`,
-        },
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        setCategories(data);
-      } else {
-        Alert.alert("Error", "Failed to load stock lists");
-      }
+      const data = await getStockLists(authToken);
+      setCategories(data);
     } catch (error) {
       console.error("Error fetching stock lists:", error);
-      Alert.alert("Error", "Failed to load stock lists");
+      Alert.alert("Error", getErrorMessage(error, "Failed to load stock lists"));
     } finally {
       setLoading(false);
     }
@@ -93,36 +106,48 @@ export const StockTradingModal: React.FC<StockTradingModalProps> = ({
   const fetchStockPrice = async (stock: Stock) => {
     setFetchingPrices(true);
     try {
-      const response = await fetch(`${API_BASE_URL}/stocks/quote/${stock.symbol}`, {
-        headers: {
-          Authorization: `Bearer ${authToken}`,
-        },
+      const data = await getStockQuote(stock.symbol, authToken);
+      setSelectedStock({
+        ...stock,
+        price: data.price,
+        change: data.change,
+        change_percent: data.change_percent,
       });
-
-      if (response.ok) {
-        const data = await response.json();
-        setSelectedStock({
-          ...stock,
-          price: data.price,
-          change: data.change,
-          change_percent: data.change_percent,
-        });
-      } else {
-        Alert.alert("Error", `Failed to get price for ${stock.symbol}`);
-      }
     } catch (error) {
       console.error("Error fetching stock price:", error);
-      Alert.alert("Error", "Failed to fetch stock price");
+      Alert.alert("Error", getErrorMessage(error, "Failed to fetch stock price"));
     } finally {
       setFetchingPrices(false);
     }
   };
 
   const handleStockSelect = (stock: Stock) => {
+    setSide("buy");
     setSelectedStock(stock);
     fetchStockPrice(stock);
   };
 
+  // Selling starts from one of the ranch's holdings, priced fresh like a buy
+  const handleSellSelect = (holding: StockHolding) => {
+    const stock = { symbol: holding.symbol, name: holding.name, price: holding.current_price };
+    setSide("sell");
+    setQuantity("");
+    setSelectedStock(stock);
+    fetchStockPrice(stock);
+  };
+
+  const sellHolding =
+    side === "sell"
+      ? holdings.find((holding) => holding.symbol === selectedStock?.symbol)
+      : undefined;
+  const sellable = sellHolding ? getSellableQuantity(sellHolding, proposals) : 0;
+  const parsedQuantity = parseFloat(quantity);
+  const exceedsHolding = side === "sell" && parsedQuantity > sellable;
+  const estimatedGain =
+    sellHolding && selectedStock?.price && parsedQuantity > 0
+      ? estimateRealizedGain(sellHolding, parsedQuantity, selectedStock.price)
+      : undefined;
+
   const handleTradeSubmit = async () => {
     if (!selectedStock || !quantity || !selectedStock.price) {
       Alert.alert("Error", "Please select a stock and enter quantity");
@@ -135,11 +160,28 @@ export const StockTradingModal: React.FC<StockTradingModalProps> = ({
       return;
     }
 
+    if (side === "sell" && qty > sellable) {
+      Alert.alert(
+        "Not Enough Shares",
+        `The ranch can sell at most ${sellable} shares of ${selectedStock.symbol}`
+      );
+      return;
+    }
+
     try {
-      await onTradeSubmit(selectedStock.symbol, qty, selectedStock.name, selectedStock.price);
+      await onTradeSubmit(
+        side,
+        selectedStock.symbol,
+        qty,
+        selectedStock.name,
+        selectedStock.price,
+        votingPeriodHours
+      );
       // Reset form
       setSelectedStock(null);
+      setSide("buy");
       setQuantity("");
+      setVotingPeriodHours(null);
       onClose();
     } catch (error) {
       // Error handled by parent
@@ -169,13 +211,54 @@ export const StockTradingModal: React.FC<StockTradingModalProps> = ({
             📈 Stock Trading
           </ThemedText>
           <ThemedText style={styles.subtitle}>
-            Select a stock to create a trade proposal
+            Select a stock to buy, or sell one the ranch holds
           </ThemedText>
 
           {loading ? (
             <ActivityIndicator size="large" color="#FBBF24" style={styles.loader} />
           ) : (
             <ScrollView style={styles.scrollView}>
+              {/* Ranch Holdings */}
+              {holdings.length > 0 && (
+                <View style={styles.categoryContainer}>
+                  <View style={styles.categoryHeader}>
+                    <ThemedText style={styles.categoryTitle}>💼 Ranch Holdings</ThemedText>
+                  </View>
+                  <View style={styles.stockList}>
+                    {holdings.map((holding) => {
+                      const free = getSellableQuantity(holding, proposals);
+                      return (
+                        <View
+                          key={holding.symbol}
+                          style={[
+                            styles.stockItem,
+                            side === "sell" &&
+                              selectedStock?.symbol === holding.symbol &&
+                              styles.stockItemSelected,
+                          ]}
+                        >
+                          <View>
+                            <ThemedText style={styles.stockSymbol}>{holding.symbol}</ThemedText>
+                            <ThemedText style={styles.stockName}>
+                              {holding.quantity} shares · ${holding.current_value.toFixed(2)}
+                            </ThemedText>
+                          </View>
+                          <TouchableOpacity
+                            style={[styles.sellButton, free <= 0 && styles.buttonDisabled]}
+                            onPress={() => handleSellSelect(holding)}
+                            disabled={free <= 0}
+                          >
+                            <ThemedText style={styles.sellButtonText}>
+                              {free > 0 ? "Sell" : "In proposals"}
+                            </ThemedText>
+                          </TouchableOpacity>
+                        </View>
+                      );
+                    })}
+                  </View>
+                </View>
+              )}
+
               {/* Stock Categories */}
               {Object.entries(categories).map(([categoryKey, stocks]) => (
                 <View key={categoryKey} style={styles.categoryContainer}>
@@ -202,7 +285,8 @@ export const StockTradingModal: React.FC<StockTradingModalProps> = ({
                           key={stock.symbol}
                           style={[
                             styles.stockItem,
-                            selectedStock?.symbol === stock.symbol &&
+                            side === "buy" &&
+                              selectedStock?.symbol === stock.symbol &&
                               styles.stockItemSelected,
                           ]}
                           onPress={() => handleStockSelect(stock)}
@@ -215,7 +299,7 @@ export const StockTradingModal: React.FC<StockTradingModalProps> = ({
                               {stock.name}
                             </ThemedText>
                           </View>
-                          {selectedStock?.symbol === stock.symbol && (
+                          {side === "buy" && selectedStock?.symbol === stock.symbol && (
                             <ThemedText style={styles.checkmark}>✓</ThemedText>
                           )}
                         </TouchableOpacity>
@@ -229,7 +313,7 @@ export const StockTradingModal: React.FC<StockTradingModalProps> = ({
               {selectedStock && (
                 <ThemedView style={styles.selectedStockCard}>
                   <ThemedText style={styles.selectedStockTitle}>
-                    Selected: {selectedStock.symbol}
+                    {side === "sell" ? "Selling" : "Buying"}: {selectedStock.symbol}
                   </ThemedText>
                   <ThemedText style={styles.selectedStockName}>
                     {selectedStock.name}
@@ -255,18 +339,52 @@ export const StockTradingModal: React.FC<StockTradingModalProps> = ({
                         </ThemedText>
                       )}
 
+                      {sellHolding && (
+                        <View style={styles.heldRow}>
+                          <ThemedText style={styles.stockName}>
+                            Held: {sellHolding.quantity} shares
+                            {sellable < sellHolding.quantity ? ` · ${sellable} free to sell` : ""}
+                          </ThemedText>
+                          <TouchableOpacity onPress={() => setQuantity(String(sellable))}>
+                            <ThemedText style={styles.maxText}>Sell all</ThemedText>
+                          </TouchableOpacity>
+                        </View>
+                      )}
+
                       <TextInput
-                        style={styles.input}
+                        style={[styles.input, exceedsHolding && styles.inputError]}
                         placeholder="Quantity (shares)"
                         placeholderTextColor="#9CA3AF"
                         value={quantity}
                         onChangeText={setQuantity}
                         keyboardType="decimal-pad"
                       />
+                      {exceedsHolding && (
+                        <ThemedText style={styles.errorText}>
+                          Only {sellable} shares can be sold
+                        </ThemedText>
+                      )}
+
+                      <VotingPeriodPicker
+                        value={votingPeriodHours}
+                        defaultHours={defaultVotingPeriodHours}
+                        onChange={setVotingPeriodHours}
+                      />
 
                       <ThemedText style={styles.totalText}>
-                        Total: ${calculateTotal()}
+                        {side === "sell" ? "Proceeds" : "Total"}: ${calculateTotal()}
                       </ThemedText>
+                      {estimatedGain !== undefined && (
+                        <ThemedText
+                          style={[
+                            styles.gainText,
+                            { color: estimatedGain >= 0 ? "#10B981" : "#EF4444" },
+                          ]}
+                        >
+                          Est. realized {estimatedGain >= 0 ? "gain" : "loss"}:{" "}
+                          {formatSigned(estimatedGain)}
+                        </ThemedText>
+                      )}
                     </>
                   ) : null}
                 </ThemedView>
@@ -285,13 +403,15 @@ export const StockTradingModal: React.FC<StockTradingModalProps> = ({
             <TouchableOpacity
               style={[
                 styles.submitButton,
-                (!selectedStock || !quantity || fetchingPrices) && styles.buttonDisabled,
+                side === "sell" && styles.sellSubmitButton,
+                (!selectedStock || !quantity || fetchingPrices || exceedsHolding) &&
+                  styles.buttonDisabled,
               ]}
               onPress={handleTradeSubmit}
-              disabled={!selectedStock || !quantity || fetchingPrices}
+              disabled={!selectedStock || !quantity || fetchingPrices || exceedsHolding}
             >
               <ThemedText style={styles.buttonText}>
-                Create Proposal
+                {side === "sell" ? "Propose Sale" : "Create Proposal"}
               </ThemedText>
             </TouchableOpacity>
           </View>
@@ -422,12 +542,49 @@ const styles = StyleSheet.create({
     fontSize: 16,
     marginBottom: 12,
   },
+  inputError: {
+    borderColor: "#EF4444",
+  },
+  errorText: {
+    fontSize: 12,
+    color: "#EF4444",
+    marginTop: -8,
+    marginBottom: 12,
+  },
+  heldRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  maxText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#3B82F6",
+  },
+  sellButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+    backgroundColor: "#EF4444",
+  },
+  sellButtonText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#fff",
+  },
   totalText: {
     fontSize: 20,
     fontWeight: "bold",
     color: "#FBBF24",
     textAlign: "center",
   },
+  gainText: {
+    fontSize: 14,
+    fontWeight: "600",
+    textAlign: "center",
+    marginTop: 4,
+  },
   buttonRow: {
     flexDirection: "row",
     gap: 12,
@@ -447,6 +604,9 @@ const styles = StyleSheet.create({
     backgroundColor: "#10B981",
     alignItems: "center",
   },
+  sellSubmitButton: {
+    backgroundColor: "#EF4444",
+  },
   buttonDisabled: {
     opacity: 0.5,
   },
@@ -0,0 +1,49 @@
+import { ThemedText } from '@/components/themed-text';
+import { useIsOffline } from '@/hooks/use-connectivity';
+import { StyleSheet, View } from 'react-native';
+
+type OfflineBannerProps = {
+  /** Epoch ms of the data currently on screen, null if nothing has loaded yet */
+  lastUpdated: number | null;
+};
+
+const formatUpdatedAt = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const isToday = date.toDateString() === new Date().toDateString();
+  const time = date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+  return isToday ? time : `${date.toLocaleDateString()} ${time}`;
+};
+
+export function OfflineBanner({ lastUpdated }: OfflineBannerProps) {
+  const offline = useIsOffline();
+
+  if (!offline) {
+    return null;
+  }
+
+  return (
+    <View style={styles.banner}>
+      <ThemedText style={styles.text}>
+        📴 Offline
+        {lastUpdated ? ` — last updated at ${formatUpdatedAt(lastUpdated)}` : ' — no saved data yet'}
+      </ThemedText>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    backgroundColor: 'rgba(251, 191, 36, 0.15)',
+    borderColor: '#FBBF24',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    marginBottom: 12,
+  },
+  text: {
+    color: '#FBBF24',
+    fontSize: 13,
+    textAlign: 'center',
+  },
+});
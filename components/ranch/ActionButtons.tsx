@@ -1,3 +1,5 @@
+import { hasPermission } from "@/api/roles";
+import type { MemberRole } from "@/api/types";
 import { ThemedText } from "@/components/themed-text";
 import { ThemedView } from "@/components/themed-view";
 import React from "react";
@@ -10,29 +12,47 @@ interface ActionButton {
 }
 
 interface ActionButtonsSectionProps {
+  /** The current user's role, which decides the member and ranch management buttons */
+  role: MemberRole;
   onDeposit: () => void;
   onInvest: () => void;
   onWithdraw: () => void;
   onInvite: () => void;
   onManageMembers: () => void;
-  onDelete: () => void;
+  onEditPolicy: () => void;
+  onDissolve: () => void;
+  onLeave: () => void;
 }
 
 export const ActionButtonsSection: React.FC<ActionButtonsSectionProps> = ({
+  role,
   onDeposit,
   onInvest,
   onWithdraw,
   onInvite,
   onManageMembers,
-  onDelete,
+  onEditPolicy,
+  onDissolve,
+  onLeave,
 }) => {
   const buttons: ActionButton[] = [
     { label: "Deposit", color: "#10B981", onPress: onDeposit },
     { label: "Invest", color: "#FBBF24", onPress: onInvest },
     { label: "Withdraw", color: "#F59E0B", onPress: onWithdraw },
-    { label: "Invite", color: "#3B82F6", onPress: onInvite },
-    { label: "Manage Members", color: "#8B5CF6", onPress: onManageMembers },
-    { label: "Delete Ranch", color: "#EF4444", onPress: onDelete },
+    ...(hasPermission(role, "manageMembers")
+      ? [
+          { label: "Invite", color: "#3B82F6", onPress: onInvite },
+          { label: "Manage Members", color: "#8B5CF6", onPress: onManageMembers },
+        ]
+      : []),
+    ...(hasPermission(role, "editPolicy")
+      ? [{ label: "Approval Rules", color: "#6366F1", onPress: onEditPolicy }]
+      : []),
+    ...(hasPermission(role, "dissolveRanch")
+      ? [{ label: "Dissolve Ranch", color: "#EF4444", onPress: onDissolve }]
+      : []),
+    // The owner is sent to transfer ownership first
+    { label: "Leave Ranch", color: "#F97316", onPress: onLeave },
   ];
 
   return (
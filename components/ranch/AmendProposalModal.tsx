@@ -0,0 +1,238 @@
+import type { AmendTransactionRequest, Transaction } from "@/api/transactions";
+import { ThemedText } from "@/components/themed-text";
+import { ThemedView } from "@/components/themed-view";
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Modal,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+interface AmendProposalModalProps {
+  /** The proposal being amended, null while the modal is closed */
+  proposal: Transaction | null;
+  onClose: () => void;
+  onSubmit: (transactionId: string, request: AmendTransactionRequest) => Promise<void>;
+}
+
+// Proposer-only editor that publishes a new revision of a pending proposal
+export const AmendProposalModal: React.FC<AmendProposalModalProps> = ({
+  proposal,
+  onClose,
+  onSubmit,
+}) => {
+  const [amountText, setAmountText] = useState("");
+  const [description, setDescription] = useState("");
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  // Start from the current revision every time the modal opens
+  useEffect(() => {
+    if (proposal) {
+      setAmountText(String(proposal.amount));
+      setDescription(proposal.description);
+      setNote("");
+    }
+  }, [proposal]);
+
+  if (!proposal) return null;
+
+  const amount = parseFloat(amountText);
+  const amountInvalid = isNaN(amount) || amount <= 0;
+  const trimmed = description.trim();
+  const amountChanged = !amountInvalid && amount !== proposal.amount;
+  const descriptionChanged = trimmed !== "" && trimmed !== proposal.description;
+  const canSubmit = !amountInvalid && trimmed !== "" && (amountChanged || descriptionChanged);
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+    setSaving(true);
+    try {
+      await onSubmit(proposal.transactionID, {
+        amount,
+        description: trimmed,
+        note: note.trim() || undefined,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal transparent animationType="slide" visible onRequestClose={onClose}>
+      <ThemedView style={styles.modalBackground}>
+        <ThemedView style={styles.modalContent}>
+          <ThemedText type="subtitle" style={styles.title}>
+            ✏️ Amend Proposal
+          </ThemedText>
+          <ThemedText style={styles.warning}>
+            Amending resets all votes. Members will need to vote again on the new revision.
+          </ThemedText>
+
+          <ThemedText style={styles.label}>Amount ($)</ThemedText>
+          <TextInput
+            style={[styles.input, amountInvalid && styles.inputError]}
+            placeholderTextColor="#9CA3AF"
+            value={amountText}
+            onChangeText={setAmountText}
+            keyboardType="decimal-pad"
+          />
+
+          <ThemedText style={styles.label}>Description</ThemedText>
+          <TextInput
+            style={styles.input}
+            placeholderTextColor="#9CA3AF"
+            value={description}
+            onChangeText={setDescription}
+            multiline
+          />
+
+          <ThemedText style={styles.label}>Why are you changing it? (optional)</ThemedText>
+          <TextInput
+            style={styles.input}
+            placeholder="e.g. Price moved since I proposed this"
+            placeholderTextColor="#9CA3AF"
+            value={note}
+            onChangeText={setNote}
+            maxLength={280}
+          />
+
+          {(amountChanged || descriptionChanged) && (
+            <View style={styles.diffBox}>
+              <ThemedText style={styles.diffTitle}>
+                Revision {proposal.revision} → {proposal.revision + 1}
+              </ThemedText>
+              {amountChanged && (
+                <ThemedText style={styles.diffLine}>
+                  Amount: ${proposal.amount.toLocaleString()} → ${amount.toLocaleString()}
+                </ThemedText>
+              )}
+              {descriptionChanged && (
+                <>
+                  <ThemedText style={[styles.diffLine, styles.removed]}>
+                    − {proposal.description}
+                  </ThemedText>
+                  <ThemedText style={[styles.diffLine, styles.added]}>+ {trimmed}</ThemedText>
+                </>
+              )}
+            </View>
+          )}
+
+          <View style={styles.buttonRow}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+              <ThemedText style={styles.buttonText}>Cancel</ThemedText>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.submitButton, (saving || !canSubmit) && styles.buttonDisabled]}
+              onPress={handleSubmit}
+              disabled={saving || !canSubmit}
+            >
+              {saving ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <ThemedText style={styles.buttonText}>Publish Revision</ThemedText>
+              )}
+            </TouchableOpacity>
+          </View>
+        </ThemedView>
+      </ThemedView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalBackground: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "rgba(0,0,0,0.7)",
+  },
+  modalContent: {
+    width: "90%",
+    padding: 20,
+    borderRadius: 16,
+    backgroundColor: "#1A2332",
+    borderWidth: 1,
+    borderColor: "#374151",
+  },
+  title: {
+    marginBottom: 8,
+    textAlign: "center",
+  },
+  warning: {
+    color: "#FBBF24",
+    fontSize: 13,
+    textAlign: "center",
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    color: "#9CA3AF",
+    marginBottom: 6,
+  },
+  input: {
+    backgroundColor: "#1F2937",
+    color: "#fff",
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#374151",
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  inputError: {
+    borderColor: "#EF4444",
+  },
+  diffBox: {
+    backgroundColor: "#0F1729",
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 4,
+  },
+  diffTitle: {
+    color: "#60A5FA",
+    fontSize: 12,
+    fontWeight: "600",
+    marginBottom: 4,
+  },
+  diffLine: {
+    fontSize: 13,
+    color: "#E5E7EB",
+  },
+  removed: {
+    color: "#F87171",
+  },
+  added: {
+    color: "#34D399",
+  },
+  buttonRow: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 16,
+  },
+  cancelButton: {
+    flex: 1,
+    padding: 14,
+    borderRadius: 8,
+    backgroundColor: "#6B7280",
+    alignItems: "center",
+  },
+  submitButton: {
+    flex: 1,
+    padding: 14,
+    borderRadius: 8,
+    backgroundColor: "#3B82F6",
+    alignItems: "center",
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: "#fff",
+    fontWeight: "bold",
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,170 @@
+import {
+  getStatusTimeline,
+  type Transaction,
+  type TransactionStatus,
+} from "@/api/transactions";
+import { ThemedText } from "@/components/themed-text";
+import { ThemedView } from "@/components/themed-view";
+import React from "react";
+import { StyleSheet, View } from "react-native";
+
+interface AuditTimelineProps {
+  transaction: Transaction;
+  memberProfiles: Record<string, string>;
+}
+
+interface TimelineEntry {
+  key: string;
+  emoji: string;
+  text: string;
+  detail?: string;
+  at?: Date; // votes from older backends have no timestamp
+}
+
+const STATUS_STEPS: Record<TransactionStatus, { emoji: string; text: string }> = {
+  pending: { emoji: "📝", text: "Proposed" },
+  approved: { emoji: "✅", text: "Approved" },
+  rejected: { emoji: "❌", text: "Rejected" },
+  executed: { emoji: "⚡", text: "Executed" },
+  expired: { emoji: "⌛", text: "Expired" },
+  cancelled: { emoji: "🚫", text: "Cancelled" },
+};
+
+const formatMoney = (amount: number) =>
+  `$${amount.toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+// Everything recorded about a transaction: its terms, and every vote and status change in order
+export const AuditTimeline: React.FC<AuditTimelineProps> = ({
+  transaction,
+  memberProfiles,
+}) => {
+  const nameOf = (userId: string) => memberProfiles[userId] || userId;
+  const { trade } = transaction;
+
+  const entries: TimelineEntry[] = [
+    ...getStatusTimeline(transaction).map((step, index) => ({
+      key: `status-${index}`,
+      emoji: STATUS_STEPS[step.status].emoji,
+      text: step.by
+        ? `${STATUS_STEPS[step.status].text} by ${nameOf(step.by)}`
+        : STATUS_STEPS[step.status].text,
+      at: step.at,
+    })),
+    ...Object.entries(transaction.votes).map(([userId, vote]) => ({
+      key: `vote-${userId}`,
+      emoji: vote === "approve" ? "👍" : "👎",
+      text: `${nameOf(userId)} voted to ${vote}`,
+      detail: transaction.voteReasons[userId],
+      at: transaction.voteTimes[userId],
+    })),
+  ].sort((a, b) => {
+    if (!a.at) return b.at ? 1 : 0;
+    if (!b.at) return -1;
+    return a.at.getTime() - b.at.getTime();
+  });
+
+  const details: [string, string][] = [
+    ["Type", transaction.transactionType || "—"],
+    ["Amount", formatMoney(transaction.amount)],
+    ["Proposed by", nameOf(transaction.proposedBy)],
+    ["Proposed on", transaction.createdAt.toLocaleString()],
+  ];
+  if (trade) {
+    details.push(
+      ["Side", trade.side === "sell" ? "Sell" : "Buy"],
+      ["Symbol", trade.symbol],
+      ["Quantity", `${trade.quantity} shares`]
+    );
+    if (trade.fillPrice !== undefined) {
+      details.push(
+        ["Fill price", formatMoney(trade.fillPrice)],
+        ["Filled total", formatMoney(trade.fillPrice * trade.quantity)]
+      );
+    }
+    if (trade.costBasis !== undefined) {
+      details.push(["Cost basis", `${formatMoney(trade.costBasis)} / share`]);
+    }
+    if (trade.realizedGain !== undefined) {
+      details.push([
+        "Realized gain",
+        `${trade.realizedGain < 0 ? "-" : "+"}${formatMoney(Math.abs(trade.realizedGain))}`,
+      ]);
+    }
+  }
+  if (transaction.executedAt) {
+    details.push(["Executed on", transaction.executedAt.toLocaleString()]);
+  }
+  if (transaction.previousBalance !== undefined && transaction.newBalance !== undefined) {
+    details.push([
+      "Ranch balance",
+      `${formatMoney(transaction.previousBalance)} → ${formatMoney(transaction.newBalance)}`,
+    ]);
+  }
+
+  return (
+    <ThemedView style={styles.container}>
+      <View style={styles.card}>
+        {details.map(([label, value]) => (
+          <View key={label} style={styles.detailRow}>
+            <ThemedText style={styles.detailLabel}>{label}</ThemedText>
+            <ThemedText style={styles.detailValue}>{value}</ThemedText>
+          </View>
+        ))}
+      </View>
+
+      <ThemedText type="subtitle" style={styles.sectionTitle}>
+        🕒 Timeline
+      </ThemedText>
+      <View style={styles.card}>
+        {entries.map((entry, index) => (
+          <View key={entry.key} style={styles.entry}>
+            <View style={styles.markerColumn}>
+              <ThemedText style={styles.emoji}>{entry.emoji}</ThemedText>
+              {index < entries.length - 1 && <View style={styles.connector} />}
+            </View>
+            <View style={styles.entryBody}>
+              <ThemedText style={styles.entryText}>{entry.text}</ThemedText>
+              {entry.detail ? (
+                <ThemedText style={styles.entryDetail}>“{entry.detail}”</ThemedText>
+              ) : null}
+              <ThemedText style={styles.entryTime}>
+                {entry.at ? entry.at.toLocaleString() : "Time not recorded"}
+              </ThemedText>
+            </View>
+          </View>
+        ))}
+      </View>
+    </ThemedView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: { backgroundColor: "transparent" },
+  card: {
+    backgroundColor: "#0F1729",
+    padding: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#1F2937",
+  },
+  detailRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 4,
+    gap: 12,
+  },
+  detailLabel: { color: "#9CA3AF", fontSize: 14 },
+  detailValue: { color: "#E5E7EB", fontSize: 14, fontWeight: "600", flexShrink: 1, textAlign: "right" },
+  sectionTitle: { marginTop: 16, marginBottom: 8 },
+  entry: { flexDirection: "row", gap: 10 },
+  markerColumn: { alignItems: "center", width: 24 },
+  emoji: { fontSize: 16 },
+  connector: { flex: 1, width: 2, backgroundColor: "#1F2937", marginVertical: 2 },
+  entryBody: { flex: 1, paddingBottom: 12 },
+  entryText: { color: "#E5E7EB", fontSize: 14 },
+  entryDetail: { color: "#9CA3AF", fontSize: 13, fontStyle: "italic" },
+  entryTime: { color: "#6B7280", fontSize: 11, marginTop: 2 },
+});
@@ -0,0 +1,266 @@
+import type { Comment } from "@/api/comments";
+import { ThemedText } from "@/components/themed-text";
+import { ThemedView } from "@/components/themed-view";
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Platform,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+interface CommentThreadProps {
+  comments: Comment[];
+  currentUserId: string;
+  /** userId -> username for the ranch's members, the only people who can be mentioned */
+  memberProfiles: Record<string, string>;
+  onSubmit: (text: string) => Promise<void>;
+  onEdit: (comment: Comment, text: string) => Promise<void>;
+  onDelete: (comment: Comment) => Promise<void>;
+}
+
+const MENTION_PATTERN = /(@[\w.-]+)/g;
+
+// The "@partial" being typed at the end of the draft, if any
+const trailingMention = (text: string) => text.match(/@([\w.-]*)$/)?.[1];
+
+export const CommentThread: React.FC<CommentThreadProps> = ({
+  comments,
+  currentUserId,
+  memberProfiles,
+  onSubmit,
+  onEdit,
+  onDelete,
+}) => {
+  const [draft, setDraft] = useState("");
+  const [editing, setEditing] = useState<Comment | null>(null);
+  const [sending, setSending] = useState(false);
+
+  const usernames = new Set(
+    Object.values(memberProfiles).map((username) => username.toLowerCase())
+  );
+  const partial = trailingMention(draft);
+  const suggestions =
+    partial === undefined
+      ? []
+      : Object.values(memberProfiles)
+          .filter((username) =>
+            username.toLowerCase().startsWith(partial.toLowerCase())
+          )
+          .slice(0, 5);
+
+  const insertMention = (username: string) => {
+    setDraft((prev) => prev.replace(/@[\w.-]*$/, `@${username} `));
+  };
+
+  const handleSend = async () => {
+    const text = draft.trim();
+    if (!text) return;
+    setSending(true);
+    try {
+      if (editing) {
+        await onEdit(editing, text);
+      } else {
+        await onSubmit(text);
+      }
+      setDraft("");
+      setEditing(null);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const startEditing = (comment: Comment) => {
+    setEditing(comment);
+    setDraft(comment.text);
+  };
+
+  const cancelEditing = () => {
+    setEditing(null);
+    setDraft("");
+  };
+
+  const confirmDelete = async (comment: Comment) => {
+    const confirmed =
+      Platform.OS === "web"
+        ? window.confirm("Delete this comment?")
+        : await new Promise((resolve) => {
+            Alert.alert("Delete Comment", "Delete this comment?", [
+              { text: "Cancel", style: "cancel", onPress: () => resolve(false) },
+              {
+                text: "Delete",
+                style: "destructive",
+                onPress: () => resolve(true),
+              },
+            ]);
+          });
+    if (confirmed) {
+      await onDelete(comment);
+    }
+  };
+
+  const renderText = (text: string) =>
+    // Splitting on a capture group puts the @mentions at the odd indexes
+    text.split(MENTION_PATTERN).map((part, index) =>
+      index % 2 === 1 && usernames.has(part.slice(1).toLowerCase()) ? (
+        <ThemedText key={index} style={styles.mention}>
+          {part}
+        </ThemedText>
+      ) : (
+        part
+      )
+    );
+
+  return (
+    <ThemedView style={styles.container}>
+      {comments.length === 0 ? (
+        <ThemedText style={styles.emptyText}>
+          No comments yet. Start the discussion before everyone votes.
+        </ThemedText>
+      ) : (
+        comments.map((comment) => {
+          const isOwn = comment.authorId === currentUserId;
+          return (
+            <View key={comment.commentId} style={styles.comment}>
+              <View style={styles.commentHeader}>
+                <ThemedText style={styles.author}>
+                  {memberProfiles[comment.authorId] || comment.authorId}
+                  {isOwn ? " (you)" : ""}
+                </ThemedText>
+                <ThemedText style={styles.timestamp}>
+                  {comment.createdAt.toLocaleString()}
+                  {comment.editedAt ? " · edited" : ""}
+                </ThemedText>
+              </View>
+              <ThemedText style={styles.commentText}>
+                {renderText(comment.text)}
+              </ThemedText>
+              {isOwn && (
+                <View style={styles.commentActions}>
+                  <TouchableOpacity onPress={() => startEditing(comment)}>
+                    <ThemedText style={styles.actionText}>Edit</ThemedText>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => confirmDelete(comment)}>
+                    <ThemedText style={[styles.actionText, styles.deleteText]}>
+                      Delete
+                    </ThemedText>
+                  </TouchableOpacity>
+                </View>
+              )}
+            </View>
+          );
+        })
+      )}
+
+      {suggestions.length > 0 && (
+        <View style={styles.suggestions}>
+          {suggestions.map((username) => (
+            <TouchableOpacity
+              key={username}
+              style={styles.suggestion}
+              onPress={() => insertMention(username)}
+            >
+              <ThemedText style={styles.suggestionText}>@{username}</ThemedText>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      {editing && (
+        <View style={styles.editingBar}>
+          <ThemedText style={styles.editingText}>✏️ Editing your comment</ThemedText>
+          <TouchableOpacity onPress={cancelEditing}>
+            <ThemedText style={styles.actionText}>Cancel</ThemedText>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <View style={styles.inputRow}>
+        <TextInput
+          style={styles.input}
+          placeholder="Add a comment, @ to mention a member"
+          placeholderTextColor="#9CA3AF"
+          value={draft}
+          onChangeText={setDraft}
+          multiline
+          maxLength={1000}
+        />
+        <TouchableOpacity
+          style={[styles.sendButton, (!draft.trim() || sending) && styles.btnDisabled]}
+          onPress={handleSend}
+          disabled={!draft.trim() || sending}
+        >
+          {sending ? (
+            <ActivityIndicator color="#fff" size="small" />
+          ) : (
+            <ThemedText style={styles.sendText}>{editing ? "Save" : "Send"}</ThemedText>
+          )}
+        </TouchableOpacity>
+      </View>
+    </ThemedView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: { backgroundColor: "transparent" },
+  emptyText: { color: "#9CA3AF", fontStyle: "italic", marginBottom: 12 },
+  comment: {
+    backgroundColor: "#0F1729",
+    padding: 12,
+    borderRadius: 10,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: "#1F2937",
+  },
+  commentHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 4,
+    gap: 8,
+  },
+  author: { color: "#FBBF24", fontWeight: "600", fontSize: 14 },
+  timestamp: { color: "#6B7280", fontSize: 11 },
+  commentText: { color: "#E5E7EB", fontSize: 14 },
+  mention: { color: "#60A5FA", fontWeight: "600" },
+  commentActions: { flexDirection: "row", gap: 16, marginTop: 6 },
+  actionText: { color: "#60A5FA", fontSize: 13 },
+  deleteText: { color: "#EF4444" },
+  suggestions: { flexDirection: "row", flexWrap: "wrap", gap: 6, marginBottom: 8 },
+  suggestion: {
+    backgroundColor: "#1F2937",
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  suggestionText: { color: "#60A5FA", fontSize: 13 },
+  editingBar: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginBottom: 6,
+  },
+  editingText: { color: "#9CA3AF", fontSize: 13 },
+  inputRow: { flexDirection: "row", gap: 8, alignItems: "flex-end" },
+  input: {
+    flex: 1,
+    backgroundColor: "#1F2937",
+    color: "#fff",
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#374151",
+    fontSize: 15,
+    maxHeight: 120,
+  },
+  sendButton: {
+    backgroundColor: "#3B82F6",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  sendText: { color: "#fff", fontWeight: "bold" },
+  btnDisabled: { opacity: 0.5 },
+});
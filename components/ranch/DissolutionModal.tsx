@@ -0,0 +1,208 @@
+import type { DissolutionPayout } from "@/api/dissolution";
+import { ThemedText } from "@/components/themed-text";
+import { ThemedView } from "@/components/themed-view";
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+interface DissolutionModalProps {
+  visible: boolean;
+  ranchName: string;
+  totalAssets: number;
+  investedAmount: number;
+  /** Every member's payout at current prices, undefined until the stakes have loaded */
+  payouts?: DissolutionPayout[];
+  memberProfiles: Record<string, string>;
+  /** How many approvals the ranch's rules ask for, e.g. "Unanimous" */
+  thresholdLabel: string;
+  onClose: () => void;
+  onPropose: () => Promise<void>;
+}
+
+const formatMoney = (amount: number) =>
+  `$${amount.toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+// Owner's preview of closing the ranch: who gets what, before anything is put to a vote
+export const DissolutionModal: React.FC<DissolutionModalProps> = ({
+  visible,
+  ranchName,
+  totalAssets,
+  investedAmount,
+  payouts,
+  memberProfiles,
+  thresholdLabel,
+  onClose,
+  onPropose,
+}) => {
+  const [proposing, setProposing] = useState(false);
+
+  const handlePropose = async () => {
+    setProposing(true);
+    try {
+      await onPropose();
+    } finally {
+      setProposing(false);
+    }
+  };
+
+  return (
+    <Modal
+      transparent
+      animationType="slide"
+      visible={visible}
+      onRequestClose={onClose}
+    >
+      <ThemedView style={styles.modalBackground}>
+        <ThemedView style={styles.modalContent}>
+          <ThemedText type="subtitle" style={styles.title}>
+            🏚️ Dissolve {ranchName}
+          </ThemedText>
+          <ThemedText style={styles.detail}>
+            Once the ranch approves ({thresholdLabel}) and the proposal is executed, every holding is
+            sold, {formatMoney(totalAssets)} is paid out to the members and the ledger is kept as a
+            read-only archive.
+          </ThemedText>
+          {investedAmount > 0 && (
+            <ThemedText style={styles.warning}>
+              {formatMoney(investedAmount)} is invested, payouts follow the actual sale prices
+            </ThemedText>
+          )}
+
+          <ThemedText style={styles.label}>Payouts at current prices</ThemedText>
+          {!payouts ? (
+            <ActivityIndicator color="#FBBF24" />
+          ) : (
+            <ScrollView style={styles.payoutList}>
+              {payouts.map((payout) => (
+                <View key={payout.userId} style={styles.payoutRow}>
+                  <ThemedText style={styles.memberName}>
+                    👨‍🚀 {memberProfiles[payout.userId] || payout.userId}
+                  </ThemedText>
+                  <ThemedText style={styles.shareText}>
+                    {(payout.share * 100).toFixed(1)}%
+                  </ThemedText>
+                  <ThemedText style={styles.amountText}>
+                    {formatMoney(payout.amount)}
+                  </ThemedText>
+                </View>
+              ))}
+            </ScrollView>
+          )}
+
+          <View style={styles.buttonRow}>
+            <TouchableOpacity style={[styles.button, styles.cancelButton]} onPress={onClose}>
+              <ThemedText style={styles.buttonText}>Cancel</ThemedText>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[
+                styles.button,
+                styles.proposeButton,
+                (proposing || !payouts) && styles.buttonDisabled,
+              ]}
+              onPress={handlePropose}
+              disabled={proposing || !payouts}
+            >
+              {proposing ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <ThemedText style={styles.buttonText}>Propose</ThemedText>
+              )}
+            </TouchableOpacity>
+          </View>
+        </ThemedView>
+      </ThemedView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalBackground: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "rgba(0,0,0,0.7)",
+  },
+  modalContent: {
+    width: "90%",
+    padding: 20,
+    borderRadius: 16,
+    backgroundColor: "#1A2332",
+    borderWidth: 1,
+    borderColor: "#EF4444",
+  },
+  title: {
+    marginBottom: 8,
+    textAlign: "center",
+  },
+  detail: {
+    fontSize: 13,
+    color: "#9CA3AF",
+  },
+  warning: {
+    fontSize: 13,
+    color: "#F59E0B",
+    marginTop: 8,
+  },
+  label: {
+    fontSize: 13,
+    color: "#9CA3AF",
+    marginTop: 16,
+    marginBottom: 6,
+  },
+  payoutList: {
+    maxHeight: 240,
+  },
+  payoutRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: "#374151",
+  },
+  memberName: {
+    flex: 1,
+  },
+  shareText: {
+    fontSize: 12,
+    color: "#9CA3AF",
+  },
+  amountText: {
+    fontWeight: "bold",
+    color: "#32CD32",
+  },
+  buttonRow: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 20,
+  },
+  button: {
+    flex: 1,
+    padding: 14,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  cancelButton: {
+    backgroundColor: "#6B7280",
+  },
+  proposeButton: {
+    backgroundColor: "#EF4444",
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: "#fff",
+    fontWeight: "bold",
+    fontSize: 16,
+  },
+});
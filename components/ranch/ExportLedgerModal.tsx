@@ -0,0 +1,249 @@
+import { ThemedText } from "@/components/themed-text";
+import { ThemedView } from "@/components/themed-view";
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { LedgerExport } from "./types";
+
+interface ExportLedgerModalProps {
+  visible: boolean;
+  /** The ledger has filters applied, which the CSV export follows */
+  filtered: boolean;
+  onClose: () => void;
+  onExport: (request: LedgerExport) => Promise<void>;
+}
+
+// The current month and the eleven before it
+const recentMonths = () => {
+  const now = new Date();
+  return Array.from(
+    { length: 12 },
+    (_, index) => new Date(now.getFullYear(), now.getMonth() - index, 1)
+  );
+};
+
+// Treasurer export of the ranch's books: a CSV for spreadsheets or a monthly PDF statement
+export const ExportLedgerModal: React.FC<ExportLedgerModalProps> = ({
+  visible,
+  filtered,
+  onClose,
+  onExport,
+}) => {
+  const [format, setFormat] = useState<LedgerExport["format"]>("csv");
+  const [includeProposals, setIncludeProposals] = useState(false);
+  const [month, setMonth] = useState(() => recentMonths()[0]);
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      await onExport(
+        format === "csv" ? { format, includeProposals } : { format, month }
+      );
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Modal
+      transparent
+      animationType="slide"
+      visible={visible}
+      onRequestClose={onClose}
+    >
+      <ThemedView style={styles.modalBackground}>
+        <ThemedView style={styles.modalContent}>
+          <ThemedText type="subtitle" style={styles.title}>
+            ⬇️ Export Ledger
+          </ThemedText>
+
+          <View style={styles.optionRow}>
+            {(["csv", "pdf"] as const).map((option) => {
+              const selected = format === option;
+              return (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.option, selected && styles.optionSelected]}
+                  onPress={() => setFormat(option)}
+                >
+                  <ThemedText
+                    style={[styles.optionText, selected && styles.optionTextSelected]}
+                  >
+                    {option === "csv" ? "📊 CSV spreadsheet" : "📄 PDF statement"}
+                  </ThemedText>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          {format === "csv" ? (
+            <>
+              <ThemedText style={styles.hint}>
+                Every executed transaction
+                {filtered ? " matching the ledger's current filters" : ""}, one row
+                each.
+              </ThemedText>
+              <View style={styles.switchRow}>
+                <ThemedText style={styles.switchLabel}>
+                  Include open proposals
+                </ThemedText>
+                <Switch
+                  value={includeProposals}
+                  onValueChange={setIncludeProposals}
+                  trackColor={{ true: "#FBBF24", false: "#374151" }}
+                />
+              </View>
+            </>
+          ) : (
+            <>
+              <ThemedText style={styles.hint}>
+                Opening balance, each movement, closing balance and what each
+                member deposited.
+              </ThemedText>
+              <ScrollView style={styles.monthList}>
+                <View style={styles.optionRow}>
+                  {recentMonths().map((option) => {
+                    const selected = option.getTime() === month.getTime();
+                    return (
+                      <TouchableOpacity
+                        key={option.toISOString()}
+                        style={[styles.option, selected && styles.optionSelected]}
+                        onPress={() => setMonth(option)}
+                      >
+                        <ThemedText
+                          style={[
+                            styles.optionText,
+                            selected && styles.optionTextSelected,
+                          ]}
+                        >
+                          {option.toLocaleDateString(undefined, {
+                            month: "short",
+                            year: "numeric",
+                          })}
+                        </ThemedText>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </ScrollView>
+            </>
+          )}
+
+          <View style={styles.buttonRow}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+              <ThemedText style={styles.buttonText}>Cancel</ThemedText>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.submitButton, exporting && styles.buttonDisabled]}
+              onPress={handleExport}
+              disabled={exporting}
+            >
+              {exporting ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <ThemedText style={styles.buttonText}>Export</ThemedText>
+              )}
+            </TouchableOpacity>
+          </View>
+        </ThemedView>
+      </ThemedView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalBackground: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "rgba(0,0,0,0.7)",
+  },
+  modalContent: {
+    width: "90%",
+    padding: 20,
+    borderRadius: 16,
+    backgroundColor: "#1A2332",
+    borderWidth: 1,
+    borderColor: "#374151",
+  },
+  title: {
+    marginBottom: 16,
+    textAlign: "center",
+  },
+  hint: {
+    fontSize: 13,
+    color: "#9CA3AF",
+    marginVertical: 12,
+  },
+  optionRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: "#0F1729",
+    borderWidth: 1,
+    borderColor: "#374151",
+  },
+  optionSelected: {
+    borderColor: "#FBBF24",
+    backgroundColor: "#1F2937",
+  },
+  optionText: {
+    fontSize: 13,
+    color: "#9CA3AF",
+  },
+  optionTextSelected: {
+    color: "#FBBF24",
+    fontWeight: "600",
+  },
+  monthList: {
+    maxHeight: 160,
+  },
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  switchLabel: {
+    fontSize: 15,
+  },
+  buttonRow: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 20,
+  },
+  cancelButton: {
+    flex: 1,
+    padding: 14,
+    borderRadius: 8,
+    backgroundColor: "#6B7280",
+    alignItems: "center",
+  },
+  submitButton: {
+    flex: 1,
+    padding: 14,
+    borderRadius: 8,
+    backgroundColor: "#10B981",
+    alignItems: "center",
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: "#fff",
+    fontWeight: "bold",
+    fontSize: 16,
+  },
+});
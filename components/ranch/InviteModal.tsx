@@ -0,0 +1,335 @@
+import {
+  INVITE_EXPIRY_OPTIONS,
+  INVITE_USE_OPTIONS,
+  isInviteActive,
+  type CreateInviteRequest,
+  type Invite,
+} from "@/api/invites";
+import { ThemedText } from "@/components/themed-text";
+import { ThemedView } from "@/components/themed-view";
+import * as Linking from "expo-linking";
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  Modal,
+  ScrollView,
+  Share,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+interface InviteModalProps {
+  visible: boolean;
+  ranchId: string;
+  ranchName: string;
+  invites: Invite[];
+  loading: boolean;
+  onClose: () => void;
+  onCreate: (request: CreateInviteRequest) => Promise<void>;
+  onRevoke: (code: string) => void;
+}
+
+// Opens the join screen through the app's `frontend` scheme (or the web URL on web)
+const inviteLink = (code: string) => Linking.createURL(`/join/${code}`);
+
+const describeLimits = (invite: Invite) => {
+  const uses =
+    invite.maxUses === null
+      ? `${invite.uses} used`
+      : `${invite.uses}/${invite.maxUses} used`;
+  return `${uses} · expires ${invite.expiresAt.toLocaleString()}`;
+};
+
+// Owner / admin view of a ranch's invites: create and share codes, send one to a user, revoke them
+export const InviteModal: React.FC<InviteModalProps> = ({
+  visible,
+  ranchId,
+  ranchName,
+  invites,
+  loading,
+  onClose,
+  onCreate,
+  onRevoke,
+}) => {
+  const [expiresInHours, setExpiresInHours] = useState(INVITE_EXPIRY_OPTIONS[1].hours);
+  const [maxUses, setMaxUses] = useState<number | null>(INVITE_USE_OPTIONS[0].maxUses);
+  const [username, setUsername] = useState("");
+  const [creating, setCreating] = useState(false);
+
+  const activeInvites = invites.filter((invite) => isInviteActive(invite));
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const invitee = username.trim();
+      // An invite addressed to someone is theirs alone
+      await onCreate(
+        invitee
+          ? { expiresInHours, maxUses: 1, username: invitee }
+          : { expiresInHours, maxUses }
+      );
+      setUsername("");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleShare = (invite: Invite) => {
+    const link = inviteLink(invite.code);
+    Share.share({
+      message: `Join ${ranchName} on FrontierFund 🤠\n${link}\nor enter code ${invite.code}`,
+      url: link,
+    }).catch((error) => console.warn("Share failed:", error));
+  };
+
+  return (
+    <Modal
+      transparent
+      animationType="slide"
+      visible={visible}
+      onRequestClose={onClose}
+    >
+      <ThemedView style={styles.modalBackground}>
+        <ThemedView style={styles.modalContent}>
+          <ThemedText type="subtitle" style={styles.title}>
+            🎟️ Invite to {ranchName}
+          </ThemedText>
+
+          <ThemedText style={styles.label}>Expires after</ThemedText>
+          <View style={styles.optionRow}>
+            {INVITE_EXPIRY_OPTIONS.map((option) => {
+              const selected = expiresInHours === option.hours;
+              return (
+                <TouchableOpacity
+                  key={option.label}
+                  style={[styles.option, selected && styles.optionSelected]}
+                  onPress={() => setExpiresInHours(option.hours)}
+                >
+                  <ThemedText
+                    style={[styles.optionText, selected && styles.optionTextSelected]}
+                  >
+                    {option.label}
+                  </ThemedText>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <ThemedText style={styles.label}>Send to (optional)</ThemedText>
+          <TextInput
+            style={styles.input}
+            placeholder="Username, lands in their invitations inbox"
+            placeholderTextColor="#6B7280"
+            value={username}
+            onChangeText={setUsername}
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+
+          {username.trim() === "" && (
+            <>
+              <ThemedText style={styles.label}>Can be used</ThemedText>
+              <View style={styles.optionRow}>
+                {INVITE_USE_OPTIONS.map((option) => {
+                  const selected = maxUses === option.maxUses;
+                  return (
+                    <TouchableOpacity
+                      key={option.label}
+                      style={[styles.option, selected && styles.optionSelected]}
+                      onPress={() => setMaxUses(option.maxUses)}
+                    >
+                      <ThemedText
+                        style={[styles.optionText, selected && styles.optionTextSelected]}
+                      >
+                        {option.label}
+                      </ThemedText>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </>
+          )}
+
+          <TouchableOpacity
+            style={[styles.createButton, creating && styles.buttonDisabled]}
+            onPress={handleCreate}
+            disabled={creating}
+          >
+            {creating ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <ThemedText style={styles.buttonText}>
+                {username.trim() ? "Send Invite" : "Create Invite"}
+              </ThemedText>
+            )}
+          </TouchableOpacity>
+
+          <ThemedText style={styles.label}>Active invites</ThemedText>
+          {loading && activeInvites.length === 0 ? (
+            <ActivityIndicator color="#FBBF24" />
+          ) : activeInvites.length === 0 ? (
+            <ThemedText style={styles.emptyText}>No active invites</ThemedText>
+          ) : (
+            <ScrollView style={styles.inviteList}>
+              {activeInvites.map((invite) => (
+                <View key={invite.code} style={styles.inviteRow}>
+                  <View style={styles.inviteInfo}>
+                    <ThemedText style={styles.code} selectable>
+                      {invite.code}
+                    </ThemedText>
+                    <ThemedText style={styles.limits}>{describeLimits(invite)}</ThemedText>
+                  </View>
+                  <TouchableOpacity onPress={() => handleShare(invite)}>
+                    <ThemedText style={styles.shareText}>Share</ThemedText>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => onRevoke(invite.code)}>
+                    <ThemedText style={styles.revokeText}>Revoke</ThemedText>
+                  </TouchableOpacity>
+                </View>
+              ))}
+            </ScrollView>
+          )}
+
+          <ThemedText style={styles.hint}>
+            No code? Others can ask to join with the ranch ID{" "}
+            <ThemedText style={styles.ranchId} selectable>
+              {ranchId}
+            </ThemedText>
+          </ThemedText>
+
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <ThemedText style={styles.buttonText}>Close</ThemedText>
+          </TouchableOpacity>
+        </ThemedView>
+      </ThemedView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalBackground: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "rgba(0,0,0,0.7)",
+  },
+  modalContent: {
+    width: "90%",
+    padding: 20,
+    borderRadius: 16,
+    backgroundColor: "#1A2332",
+    borderWidth: 1,
+    borderColor: "#374151",
+  },
+  title: {
+    marginBottom: 8,
+    textAlign: "center",
+  },
+  label: {
+    fontSize: 13,
+    color: "#9CA3AF",
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  optionRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: "#0F1729",
+    borderWidth: 1,
+    borderColor: "#374151",
+  },
+  optionSelected: {
+    borderColor: "#FBBF24",
+    backgroundColor: "#1F2937",
+  },
+  optionText: {
+    fontSize: 13,
+    color: "#9CA3AF",
+  },
+  optionTextSelected: {
+    color: "#FBBF24",
+    fontWeight: "600",
+  },
+  createButton: {
+    marginTop: 16,
+    padding: 14,
+    borderRadius: 8,
+    backgroundColor: "#3B82F6",
+    alignItems: "center",
+  },
+  inviteList: {
+    maxHeight: 200,
+  },
+  inviteRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: "#374151",
+  },
+  inviteInfo: {
+    flex: 1,
+  },
+  code: {
+    fontSize: 16,
+    fontWeight: "bold",
+    letterSpacing: 1,
+  },
+  limits: {
+    fontSize: 12,
+    color: "#9CA3AF",
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: "#374151",
+    borderRadius: 8,
+    padding: 10,
+    color: "#fff",
+    backgroundColor: "#0F1729",
+  },
+  hint: {
+    fontSize: 12,
+    color: "#9CA3AF",
+    marginTop: 12,
+  },
+  ranchId: {
+    fontSize: 12,
+    color: "#FBBF24",
+  },
+  shareText: {
+    color: "#3B82F6",
+    fontWeight: "600",
+  },
+  revokeText: {
+    color: "#EF4444",
+    fontWeight: "600",
+  },
+  emptyText: {
+    color: "#9CA3AF",
+    fontStyle: "italic",
+  },
+  closeButton: {
+    marginTop: 20,
+    padding: 14,
+    borderRadius: 8,
+    backgroundColor: "#6B7280",
+    alignItems: "center",
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: "#fff",
+    fontWeight: "bold",
+    fontSize: 16,
+  },
+});
@@ -1,61 +1,319 @@
+import {
+  groupLedgerByMonth,
+  hasLedgerFilters,
+  EMPTY_LEDGER_FILTERS,
+  type LedgerFilters,
+} from "@/api/ledger";
+import { PROPOSAL_KINDS, type ProposalKind } from "@/api/policy";
 import { ThemedText } from "@/components/themed-text";
 import { ThemedView } from "@/components/themed-view";
-import React from "react";
-import { StyleSheet, View } from "react-native";
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
 import { Transaction } from "./types";
 
 interface LedgerSectionProps {
   ledger: Transaction[];
   memberProfiles: Record<string, string>;
+  /** Ranch members, offered as proposer filters */
+  memberIds: string[];
+  filters: LedgerFilters;
+  onChangeFilters: (filters: LedgerFilters) => void;
+  /** More pages are available on the backend */
+  hasMore: boolean;
+  loading: boolean;
+  onLoadMore: () => void;
+  onOpen?: (transactionId: string) => void;
+  /** Open the CSV / PDF export options */
+  onExport?: () => void;
 }
 
+const KIND_LABELS: Record<ProposalKind, string> = {
+  deposit: "Deposits",
+  withdrawal: "Withdrawals",
+  investment: "Investments",
+  trade: "Stock trades",
+  member_removal: "Removals",
+  ownership_transfer: "Ownership",
+  dissolution: "Dissolution",
+};
+
+// Text drafts for the typed filters, only valid values reach `filters`
+interface FilterText {
+  from: string;
+  to: string;
+  minAmount: string;
+  maxAmount: string;
+}
+
+const EMPTY_FILTER_TEXT: FilterText = { from: "", to: "", minAmount: "", maxAmount: "" };
+
+const parseDay = (text: string): Date | null | undefined => {
+  if (!text.trim()) return null;
+  const match = text.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return undefined;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+const parseAmount = (text: string): number | null | undefined => {
+  if (!text.trim()) return null;
+  const amount = parseFloat(text);
+  return isNaN(amount) || amount < 0 ? undefined : amount;
+};
+
+const formatMoney = (amount: number) =>
+  amount.toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+
 export const LedgerSection: React.FC<LedgerSectionProps> = ({
   ledger,
   memberProfiles,
+  memberIds,
+  filters,
+  onChangeFilters,
+  hasMore,
+  loading,
+  onLoadMore,
+  onOpen,
+  onExport,
 }) => {
-  if (ledger.length === 0) {
+  const [showFilters, setShowFilters] = useState(false);
+  const [filterText, setFilterText] = useState<FilterText>(EMPTY_FILTER_TEXT);
+
+  const filtered = hasLedgerFilters(filters);
+  if (ledger.length === 0 && !filtered && !loading) {
     return null;
   }
 
+  const parsed = {
+    from: parseDay(filterText.from),
+    to: parseDay(filterText.to),
+    minAmount: parseAmount(filterText.minAmount),
+    maxAmount: parseAmount(filterText.maxAmount),
+  };
+
+  const updateText = (field: keyof FilterText, text: string) => {
+    const next = { ...filterText, [field]: text };
+    setFilterText(next);
+    const value =
+      field === "from" || field === "to" ? parseDay(text) : parseAmount(text);
+    if (value !== undefined) {
+      onChangeFilters({ ...filters, [field]: value });
+    }
+  };
+
+  const clearFilters = () => {
+    setFilterText(EMPTY_FILTER_TEXT);
+    onChangeFilters(EMPTY_LEDGER_FILTERS);
+  };
+
+  const months = groupLedgerByMonth(ledger);
+
   return (
     <ThemedView style={styles.section}>
-      <ThemedText type="subtitle">📜 Ledger</ThemedText>
+      <View style={styles.titleRow}>
+        <ThemedText type="subtitle">📜 Ledger</ThemedText>
+        <View style={styles.titleActions}>
+          {onExport && (
+            <TouchableOpacity onPress={onExport}>
+              <ThemedText style={styles.linkText}>⬇️ Export</ThemedText>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity onPress={() => setShowFilters(!showFilters)}>
+            <ThemedText style={styles.linkText}>
+              {showFilters ? "Hide filters" : "🔍 Filters"}
+            </ThemedText>
+          </TouchableOpacity>
+        </View>
+      </View>
       <ThemedText style={styles.ledgerSubtitle}>
         Transaction History (Executed)
       </ThemedText>
-      {ledger.map((transaction) => {
-        const proposedBy = transaction.proposedBy
-          ? memberProfiles[transaction.proposedBy] || transaction.proposedBy
-          : "Unknown";
-        const executedDate = transaction.executedAt
-          ? new Date(transaction.executedAt).toLocaleDateString()
-          : "N/A";
-
-        return (
-          <ThemedView
-            key={transaction.transactionID}
-            style={styles.ledgerEntry}
-          >
-            <View style={styles.ledgerHeader}>
-              <ThemedText style={styles.ledgerAmount}>
-                ${parseFloat(transaction.amount).toLocaleString()}
-              </ThemedText>
-              <ThemedText style={styles.ledgerDate}>{executedDate}</ThemedText>
+
+      <TextInput
+        style={styles.input}
+        placeholder="Search descriptions"
+        placeholderTextColor="#9CA3AF"
+        value={filters.search}
+        onChangeText={(search) => onChangeFilters({ ...filters, search })}
+      />
+
+      {showFilters && (
+        <View style={styles.filterPanel}>
+          <ThemedText style={styles.filterLabel}>Type</ThemedText>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            <View style={styles.chipRow}>
+              {[null, ...PROPOSAL_KINDS].map((kind) => {
+                const selected = filters.kind === kind;
+                return (
+                  <TouchableOpacity
+                    key={kind ?? "all"}
+                    style={[styles.chip, selected && styles.chipSelected]}
+                    onPress={() => onChangeFilters({ ...filters, kind })}
+                  >
+                    <ThemedText
+                      style={[styles.chipText, selected && styles.chipTextSelected]}
+                    >
+                      {kind ? KIND_LABELS[kind] : "All"}
+                    </ThemedText>
+                  </TouchableOpacity>
+                );
+              })}
             </View>
-            <ThemedText style={styles.ledgerDescription}>
-              {transaction.description}
-            </ThemedText>
-            <ThemedText style={styles.ledgerProposer}>
-              Proposed by: {proposedBy}
+          </ScrollView>
+
+          <ThemedText style={styles.filterLabel}>Proposed by</ThemedText>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            <View style={styles.chipRow}>
+              {[null, ...memberIds].map((memberId) => {
+                const selected = filters.memberId === memberId;
+                return (
+                  <TouchableOpacity
+                    key={memberId ?? "all"}
+                    style={[styles.chip, selected && styles.chipSelected]}
+                    onPress={() => onChangeFilters({ ...filters, memberId })}
+                  >
+                    <ThemedText
+                      style={[styles.chipText, selected && styles.chipTextSelected]}
+                    >
+                      {memberId ? memberProfiles[memberId] || memberId : "Anyone"}
+                    </ThemedText>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </ScrollView>
+
+          <ThemedText style={styles.filterLabel}>Executed between</ThemedText>
+          <View style={styles.rangeRow}>
+            <TextInput
+              style={[styles.input, styles.rangeInput, parsed.from === undefined && styles.inputError]}
+              placeholder="YYYY-MM-DD"
+              placeholderTextColor="#9CA3AF"
+              value={filterText.from}
+              onChangeText={(text) => updateText("from", text)}
+            />
+            <ThemedText style={styles.rangeDash}>–</ThemedText>
+            <TextInput
+              style={[styles.input, styles.rangeInput, parsed.to === undefined && styles.inputError]}
+              placeholder="YYYY-MM-DD"
+              placeholderTextColor="#9CA3AF"
+              value={filterText.to}
+              onChangeText={(text) => updateText("to", text)}
+            />
+          </View>
+
+          <ThemedText style={styles.filterLabel}>Amount ($)</ThemedText>
+          <View style={styles.rangeRow}>
+            <TextInput
+              style={[styles.input, styles.rangeInput, parsed.minAmount === undefined && styles.inputError]}
+              placeholder="Min"
+              placeholderTextColor="#9CA3AF"
+              value={filterText.minAmount}
+              onChangeText={(text) => updateText("minAmount", text)}
+              keyboardType="decimal-pad"
+            />
+            <ThemedText style={styles.rangeDash}>–</ThemedText>
+            <TextInput
+              style={[styles.input, styles.rangeInput, parsed.maxAmount === undefined && styles.inputError]}
+              placeholder="Max"
+              placeholderTextColor="#9CA3AF"
+              value={filterText.maxAmount}
+              onChangeText={(text) => updateText("maxAmount", text)}
+              keyboardType="decimal-pad"
+            />
+          </View>
+        </View>
+      )}
+
+      {filtered && (
+        <TouchableOpacity onPress={clearFilters} style={styles.clearRow}>
+          <ThemedText style={styles.linkText}>✕ Clear filters</ThemedText>
+        </TouchableOpacity>
+      )}
+
+      {ledger.length === 0 && !loading && (
+        <ThemedText style={styles.emptyText}>
+          No executed transactions match these filters.
+        </ThemedText>
+      )}
+
+      {months.map((month) => (
+        <View key={month.key}>
+          <View style={styles.monthHeader}>
+            <ThemedText style={styles.monthLabel}>{month.label}</ThemedText>
+            <ThemedText style={styles.monthTotal}>
+              {month.transactions.length} · {month.total < 0 ? "-" : "+"}${formatMoney(Math.abs(month.total))}
             </ThemedText>
-            {transaction.transactionType && (
-              <ThemedText style={styles.ledgerType}>
-                Type: {transaction.transactionType}
-              </ThemedText>
-            )}
-          </ThemedView>
-        );
-      })}
+          </View>
+          {month.transactions.map((transaction) => {
+            const proposedBy =
+              memberProfiles[transaction.proposedBy] || transaction.proposedBy;
+            const executedDate = transaction.executedAt
+              ? transaction.executedAt.toLocaleDateString()
+              : "N/A";
+
+            return (
+              <TouchableOpacity
+                key={transaction.transactionID}
+                disabled={!onOpen}
+                onPress={() => onOpen?.(transaction.transactionID)}
+              >
+                <ThemedView style={styles.ledgerEntry}>
+                  <View style={styles.ledgerHeader}>
+                    <ThemedText style={styles.ledgerAmount}>
+                      ${formatMoney(transaction.amount)}
+                    </ThemedText>
+                    <ThemedText style={styles.ledgerDate}>{executedDate}</ThemedText>
+                  </View>
+                  <ThemedText style={styles.ledgerDescription}>
+                    {transaction.description}
+                  </ThemedText>
+                  <ThemedText style={styles.ledgerProposer}>
+                    Proposed by: {proposedBy}
+                  </ThemedText>
+                  {transaction.transactionType && (
+                    <ThemedText style={styles.ledgerType}>
+                      Type: {transaction.transactionType}
+                    </ThemedText>
+                  )}
+                  {transaction.trade?.realizedGain !== undefined && (
+                    <ThemedText
+                      style={[
+                        styles.ledgerGain,
+                        transaction.trade.realizedGain < 0 && styles.ledgerLoss,
+                      ]}
+                    >
+                      📉 Sold {transaction.trade.quantity} {transaction.trade.symbol} · realized{" "}
+                      {transaction.trade.realizedGain < 0 ? "-" : "+"}$
+                      {formatMoney(Math.abs(transaction.trade.realizedGain))}
+                    </ThemedText>
+                  )}
+                </ThemedView>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      ))}
+
+      {loading ? (
+        <ActivityIndicator color="#FBBF24" style={styles.loader} />
+      ) : (
+        hasMore && (
+          <TouchableOpacity style={styles.loadMoreButton} onPress={onLoadMore}>
+            <ThemedText style={styles.linkText}>Load older transactions</ThemedText>
+          </TouchableOpacity>
+        )
+      )}
     </ThemedView>
   );
 };
@@ -69,12 +327,112 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: "#374151",
   },
+  titleRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  titleActions: {
+    flexDirection: "row",
+    gap: 16,
+  },
+  linkText: {
+    color: "#60A5FA",
+    fontSize: 14,
+    fontWeight: "600",
+  },
   ledgerSubtitle: {
     color: "#9CA3AF",
     fontSize: 14,
     marginBottom: 12,
     fontStyle: "italic",
   },
+  input: {
+    backgroundColor: "#1F2937",
+    color: "#fff",
+    padding: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#374151",
+    fontSize: 14,
+    marginBottom: 10,
+  },
+  inputError: {
+    borderColor: "#EF4444",
+  },
+  filterPanel: {
+    marginBottom: 4,
+  },
+  filterLabel: {
+    color: "#9CA3AF",
+    fontSize: 13,
+    marginBottom: 6,
+  },
+  chipRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginBottom: 10,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: "#0F1729",
+    borderWidth: 1,
+    borderColor: "#374151",
+  },
+  chipSelected: {
+    borderColor: "#FBBF24",
+    backgroundColor: "#1F2937",
+  },
+  chipText: {
+    fontSize: 12,
+    color: "#9CA3AF",
+  },
+  chipTextSelected: {
+    color: "#FBBF24",
+    fontWeight: "600",
+  },
+  rangeRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  rangeInput: {
+    flex: 1,
+  },
+  rangeDash: {
+    color: "#9CA3AF",
+    marginBottom: 10,
+  },
+  clearRow: {
+    alignSelf: "flex-start",
+    marginBottom: 10,
+  },
+  emptyText: {
+    color: "#9CA3AF",
+    fontStyle: "italic",
+    marginBottom: 8,
+  },
+  monthHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginTop: 6,
+    marginBottom: 8,
+    paddingBottom: 4,
+    borderBottomWidth: 1,
+    borderBottomColor: "#374151",
+  },
+  monthLabel: {
+    color: "#FBBF24",
+    fontWeight: "600",
+    fontSize: 15,
+  },
+  monthTotal: {
+    color: "#9CA3AF",
+    fontSize: 13,
+  },
   ledgerEntry: {
     backgroundColor: "#0F1729",
     padding: 14,
@@ -113,4 +471,20 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontStyle: "italic",
   },
+  ledgerGain: {
+    color: "#10B981",
+    fontSize: 12,
+    fontWeight: "600",
+    marginTop: 2,
+  },
+  ledgerLoss: {
+    color: "#EF4444",
+  },
+  loader: {
+    marginVertical: 8,
+  },
+  loadMoreButton: {
+    alignItems: "center",
+    paddingVertical: 10,
+  },
 });
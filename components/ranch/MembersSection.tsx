@@ -1,37 +1,133 @@
+import type { JoinRequest } from "@/api/invites";
+import type { MemberStake } from "@/api/ownership";
 import { ThemedText } from "@/components/themed-text";
 import { ThemedView } from "@/components/themed-view";
 import React from "react";
-import { FlatList, StyleSheet } from "react-native";
+import { FlatList, StyleSheet, TouchableOpacity, View } from "react-native";
 
 interface MembersSectionProps {
   memberList: string[];
   memberProfiles: Record<string, string>;
   memberCount: number;
+  /** Ownership per member, omitted until the contribution history has loaded */
+  stakes?: MemberStake[];
+  /** Pending requests to join, only passed to owners and admins */
+  joinRequests?: JoinRequest[];
+  onRespondToJoinRequest?: (request: JoinRequest, approve: boolean) => void;
 }
 
+const formatMoney = (amount: number) =>
+  `${amount < 0 ? "-" : ""}$${Math.abs(amount).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
 export const MembersSection: React.FC<MembersSectionProps> = ({
   memberList,
   memberProfiles,
   memberCount,
+  stakes,
+  joinRequests,
+  onRespondToJoinRequest,
 }) => {
+  const stakeOf = (userId: string) => stakes?.find((stake) => stake.userId === userId);
+  // Largest owners first once the stakes are known
+  const ordered = stakes
+    ? [...memberList].sort((a, b) => (stakeOf(b)?.equity ?? 0) - (stakeOf(a)?.equity ?? 0))
+    : memberList;
+
   return (
     <ThemedView style={styles.section}>
       <ThemedText type="subtitle">
         Members ({memberList.length || memberCount})
       </ThemedText>
+      {stakes && (
+        <ThemedText style={styles.subtitle}>
+          Ownership = deposits − withdrawals, plus a pro rata share of gains and losses
+        </ThemedText>
+      )}
       {memberList.length > 0 ? (
         <FlatList
-          data={memberList}
+          data={ordered}
           keyExtractor={(item, idx) => idx.toString()}
-          renderItem={({ item }) => (
-            <ThemedText style={styles.memberText}>
-              👨‍🚀 {memberProfiles[item] ? memberProfiles[item] : item}
-            </ThemedText>
-          )}
+          renderItem={({ item }) => {
+            const stake = stakeOf(item);
+            return (
+              <View style={styles.memberRow}>
+                <View style={styles.memberHeader}>
+                  <ThemedText style={styles.memberText}>
+                    👨‍🚀 {memberProfiles[item] ? memberProfiles[item] : item}
+                  </ThemedText>
+                  {stake && (
+                    <ThemedText style={styles.sharePercent}>
+                      {(stake.share * 100).toFixed(1)}%
+                    </ThemedText>
+                  )}
+                </View>
+                {stake && (
+                  <>
+                    <View style={styles.shareBar}>
+                      <View
+                        style={[
+                          styles.shareFill,
+                          { width: `${Math.min(100, stake.share * 100)}%` },
+                        ]}
+                      />
+                    </View>
+                    <ThemedText style={styles.stakeDetail}>
+                      Owns {formatMoney(stake.equity)} · In {formatMoney(stake.deposited)} · Out{" "}
+                      {formatMoney(stake.withdrawn)} ·{" "}
+                      <ThemedText
+                        style={stake.gainShare < 0 ? styles.loss : styles.gain}
+                      >
+                        {stake.gainShare < 0 ? "" : "+"}
+                        {formatMoney(stake.gainShare)}
+                      </ThemedText>
+                    </ThemedText>
+                  </>
+                )}
+              </View>
+            );
+          }}
         />
       ) : (
         <ThemedText style={styles.loadingText}>Loading members...</ThemedText>
       )}
+
+      {joinRequests && joinRequests.length > 0 && (
+        <View style={styles.requests}>
+          <ThemedText style={styles.requestsTitle}>
+            🙋 Join requests ({joinRequests.length})
+          </ThemedText>
+          {joinRequests.map((request) => (
+            <View key={request.requestId} style={styles.requestRow}>
+              <View style={styles.requestInfo}>
+                <ThemedText style={styles.memberText}>
+                  {request.username || memberProfiles[request.userId] || request.userId}
+                </ThemedText>
+                {request.message ? (
+                  <ThemedText style={styles.stakeDetail}>“{request.message}”</ThemedText>
+                ) : null}
+                <ThemedText style={styles.stakeDetail}>
+                  Asked {request.createdAt.toLocaleDateString()}
+                </ThemedText>
+              </View>
+              <TouchableOpacity
+                style={[styles.requestButton, styles.denyButton]}
+                onPress={() => onRespondToJoinRequest?.(request, false)}
+              >
+                <ThemedText style={styles.requestButtonText}>Deny</ThemedText>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.requestButton, styles.approveButton]}
+                onPress={() => onRespondToJoinRequest?.(request, true)}
+              >
+                <ThemedText style={styles.requestButtonText}>Approve</ThemedText>
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+      )}
     </ThemedView>
   );
 };
@@ -45,11 +141,87 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: "#374151",
   },
+  subtitle: {
+    color: "#9CA3AF",
+    fontSize: 12,
+    fontStyle: "italic",
+    marginBottom: 8,
+  },
+  memberRow: {
+    paddingVertical: 6,
+  },
+  memberHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
   memberText: {
     paddingVertical: 4,
   },
+  sharePercent: {
+    color: "#FBBF24",
+    fontWeight: "bold",
+  },
+  shareBar: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: "#0F1729",
+    overflow: "hidden",
+    marginVertical: 4,
+  },
+  shareFill: {
+    height: "100%",
+    backgroundColor: "#FBBF24",
+  },
+  stakeDetail: {
+    color: "#9CA3AF",
+    fontSize: 12,
+  },
+  gain: {
+    color: "#10B981",
+    fontSize: 12,
+  },
+  loss: {
+    color: "#EF4444",
+    fontSize: 12,
+  },
   loadingText: {
     color: "#9CA3AF",
     fontStyle: "italic",
   },
+  requests: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: "#374151",
+  },
+  requestsTitle: {
+    fontWeight: "bold",
+    marginBottom: 4,
+  },
+  requestRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingVertical: 6,
+  },
+  requestInfo: {
+    flex: 1,
+  },
+  requestButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+  },
+  approveButton: {
+    backgroundColor: "#10B981",
+  },
+  denyButton: {
+    backgroundColor: "#6B7280",
+  },
+  requestButtonText: {
+    color: "#fff",
+    fontWeight: "bold",
+    fontSize: 13,
+  },
 });
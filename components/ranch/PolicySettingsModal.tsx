@@ -0,0 +1,418 @@
+import {
+  APPROVAL_THRESHOLDS,
+  EXPIRY_OUTCOMES,
+  EXPIRY_OUTCOME_LABELS,
+  PROPOSAL_KINDS,
+  THRESHOLD_LABELS,
+  type ApprovalPolicy,
+  type ProposalKind,
+} from "@/api/policy";
+import { ThemedText } from "@/components/themed-text";
+import { ThemedView } from "@/components/themed-view";
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+interface PolicySettingsModalProps {
+  visible: boolean;
+  policy: ApprovalPolicy;
+  onClose: () => void;
+  onSave: (policy: ApprovalPolicy) => Promise<void>;
+}
+
+const KIND_LABELS: Record<ProposalKind, string> = {
+  investment: "💰 Investments",
+  withdrawal: "🏧 Withdrawals",
+  deposit: "📥 Deposits",
+  trade: "📈 Stock trades",
+  member_removal: "👢 Member removals",
+  ownership_transfer: "👑 Ownership transfers",
+  dissolution: "🏚️ Dissolving the ranch",
+};
+
+const QUORUM_OPTIONS = [
+  { label: "None", value: 0 },
+  { label: "50%", value: 0.5 },
+  { label: "75%", value: 0.75 },
+  { label: "All", value: 1 },
+];
+
+const VOTING_PERIOD_OPTIONS = [
+  { label: "24 hours", hours: 24 },
+  { label: "3 days", hours: 72 },
+  { label: "7 days", hours: 168 },
+  { label: "14 days", hours: 336 },
+];
+
+// Owner-only editor for the ranch's approval policy
+export const PolicySettingsModal: React.FC<PolicySettingsModalProps> = ({
+  visible,
+  policy,
+  onClose,
+  onSave,
+}) => {
+  const [draft, setDraft] = useState<ApprovalPolicy>(policy);
+  const [autoApproveText, setAutoApproveText] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  // Start from the saved policy every time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setDraft(policy);
+      setAutoApproveText(
+        policy.autoApproveTradesUpTo === null
+          ? ""
+          : String(policy.autoApproveTradesUpTo)
+      );
+    }
+  }, [visible, policy]);
+
+  const autoApproveLimit = autoApproveText.trim()
+    ? parseFloat(autoApproveText)
+    : null;
+  const autoApproveInvalid =
+    autoApproveLimit !== null && (isNaN(autoApproveLimit) || autoApproveLimit < 0);
+
+  const handleSave = async () => {
+    if (autoApproveInvalid) return;
+    setSaving(true);
+    try {
+      await onSave({ ...draft, autoApproveTradesUpTo: autoApproveLimit });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      transparent
+      animationType="slide"
+      visible={visible}
+      onRequestClose={onClose}
+    >
+      <ThemedView style={styles.modalBackground}>
+        <ThemedView style={styles.modalContent}>
+          <ThemedText type="subtitle" style={styles.title}>
+            ⚙️ Approval Rules
+          </ThemedText>
+          <ThemedText style={styles.subtitle}>
+            How many members must approve each kind of proposal
+          </ThemedText>
+
+          <ScrollView style={styles.scrollView}>
+            {PROPOSAL_KINDS.map((kind) => (
+              <View key={kind} style={styles.ruleBlock}>
+                <ThemedText style={styles.ruleLabel}>{KIND_LABELS[kind]}</ThemedText>
+                <View style={styles.optionRow}>
+                  {APPROVAL_THRESHOLDS.map((threshold) => {
+                    const selected = draft.thresholds[kind] === threshold;
+                    return (
+                      <TouchableOpacity
+                        key={threshold}
+                        style={[styles.option, selected && styles.optionSelected]}
+                        onPress={() =>
+                          setDraft((prev) => ({
+                            ...prev,
+                            thresholds: { ...prev.thresholds, [kind]: threshold },
+                          }))
+                        }
+                      >
+                        <ThemedText
+                          style={[styles.optionText, selected && styles.optionTextSelected]}
+                        >
+                          {THRESHOLD_LABELS[threshold]}
+                        </ThemedText>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </View>
+            ))}
+
+            <View style={styles.ruleBlock}>
+              <ThemedText style={styles.ruleLabel}>🗳️ Quorum</ThemedText>
+              <ThemedText style={styles.hint}>
+                Share of members that must vote before anything can pass
+              </ThemedText>
+              <View style={styles.optionRow}>
+                {QUORUM_OPTIONS.map((option) => {
+                  const selected = draft.quorum === option.value;
+                  return (
+                    <TouchableOpacity
+                      key={option.label}
+                      style={[styles.option, selected && styles.optionSelected]}
+                      onPress={() =>
+                        setDraft((prev) => ({ ...prev, quorum: option.value }))
+                      }
+                    >
+                      <ThemedText
+                        style={[styles.optionText, selected && styles.optionTextSelected]}
+                      >
+                        {option.label}
+                      </ThemedText>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+
+            <View style={styles.ruleBlock}>
+              <ThemedText style={styles.ruleLabel}>⏱️ Voting deadline</ThemedText>
+              <ThemedText style={styles.hint}>
+                Default time members get to vote, proposers can pick another
+              </ThemedText>
+              <View style={styles.optionRow}>
+                {VOTING_PERIOD_OPTIONS.map((option) => {
+                  const selected = draft.votingPeriodHours === option.hours;
+                  return (
+                    <TouchableOpacity
+                      key={option.label}
+                      style={[styles.option, selected && styles.optionSelected]}
+                      onPress={() =>
+                        setDraft((prev) => ({ ...prev, votingPeriodHours: option.hours }))
+                      }
+                    >
+                      <ThemedText
+                        style={[styles.optionText, selected && styles.optionTextSelected]}
+                      >
+                        {option.label}
+                      </ThemedText>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+
+            <View style={styles.ruleBlock}>
+              <ThemedText style={styles.ruleLabel}>⌛ When time runs out</ThemedText>
+              <View style={styles.optionRow}>
+                {EXPIRY_OUTCOMES.map((outcome) => {
+                  const selected = draft.onExpiry === outcome;
+                  return (
+                    <TouchableOpacity
+                      key={outcome}
+                      style={[styles.option, selected && styles.optionSelected]}
+                      onPress={() => setDraft((prev) => ({ ...prev, onExpiry: outcome }))}
+                    >
+                      <ThemedText
+                        style={[styles.optionText, selected && styles.optionTextSelected]}
+                      >
+                        {EXPIRY_OUTCOME_LABELS[outcome]}
+                      </ThemedText>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+
+            <View style={[styles.ruleBlock, styles.switchRow]}>
+              <View style={styles.switchLabel}>
+                <ThemedText style={styles.ruleLabel}>🛑 Owner veto</ThemedText>
+                <ThemedText style={styles.hint}>
+                  Your reject vote rejects a proposal outright
+                </ThemedText>
+              </View>
+              <Switch
+                value={draft.ownerVeto}
+                onValueChange={(ownerVeto) =>
+                  setDraft((prev) => ({ ...prev, ownerVeto }))
+                }
+                trackColor={{ true: "#FBBF24", false: "#374151" }}
+              />
+            </View>
+
+            <View style={[styles.ruleBlock, styles.switchRow]}>
+              <View style={styles.switchLabel}>
+                <ThemedText style={styles.ruleLabel}>👢 Vote on removals</ThemedText>
+                <ThemedText style={styles.hint}>
+                  Removing a member opens a proposal instead of taking effect at once
+                </ThemedText>
+              </View>
+              <Switch
+                value={draft.removalRequiresVote}
+                onValueChange={(removalRequiresVote) =>
+                  setDraft((prev) => ({ ...prev, removalRequiresVote }))
+                }
+                trackColor={{ true: "#FBBF24", false: "#374151" }}
+              />
+            </View>
+
+            <View style={[styles.ruleBlock, styles.switchRow]}>
+              <View style={styles.switchLabel}>
+                <ThemedText style={styles.ruleLabel}>👑 Vote on ownership transfers</ThemedText>
+                <ThemedText style={styles.hint}>
+                  Handing the ranch to another member waits for the ranch to approve it
+                </ThemedText>
+              </View>
+              <Switch
+                value={draft.transferRequiresVote}
+                onValueChange={(transferRequiresVote) =>
+                  setDraft((prev) => ({ ...prev, transferRequiresVote }))
+                }
+                trackColor={{ true: "#FBBF24", false: "#374151" }}
+              />
+            </View>
+
+            <View style={styles.ruleBlock}>
+              <ThemedText style={styles.ruleLabel}>⚡ Auto-approve small trades</ThemedText>
+              <ThemedText style={styles.hint}>
+                Trades up to this amount pass without a vote. Leave empty to always vote.
+              </ThemedText>
+              <TextInput
+                style={[styles.input, autoApproveInvalid && styles.inputError]}
+                placeholder="e.g. 100"
+                placeholderTextColor="#9CA3AF"
+                value={autoApproveText}
+                onChangeText={setAutoApproveText}
+                keyboardType="decimal-pad"
+              />
+            </View>
+          </ScrollView>
+
+          <View style={styles.buttonRow}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+              <ThemedText style={styles.buttonText}>Cancel</ThemedText>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[
+                styles.submitButton,
+                (saving || autoApproveInvalid) && styles.buttonDisabled,
+              ]}
+              onPress={handleSave}
+              disabled={saving || autoApproveInvalid}
+            >
+              {saving ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <ThemedText style={styles.buttonText}>Save Rules</ThemedText>
+              )}
+            </TouchableOpacity>
+          </View>
+        </ThemedView>
+      </ThemedView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalBackground: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "rgba(0,0,0,0.7)",
+  },
+  modalContent: {
+    width: "90%",
+    maxHeight: "85%",
+    padding: 20,
+    borderRadius: 16,
+    backgroundColor: "#1A2332",
+    borderWidth: 1,
+    borderColor: "#374151",
+  },
+  title: {
+    marginBottom: 8,
+    textAlign: "center",
+  },
+  subtitle: {
+    color: "#9CA3AF",
+    textAlign: "center",
+    marginBottom: 16,
+  },
+  scrollView: {
+    maxHeight: 460,
+  },
+  ruleBlock: {
+    marginBottom: 16,
+  },
+  ruleLabel: {
+    fontSize: 16,
+    fontWeight: "600",
+    marginBottom: 6,
+  },
+  hint: {
+    fontSize: 12,
+    color: "#9CA3AF",
+    marginBottom: 8,
+  },
+  optionRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: "#0F1729",
+    borderWidth: 1,
+    borderColor: "#374151",
+  },
+  optionSelected: {
+    borderColor: "#FBBF24",
+    backgroundColor: "#1F2937",
+  },
+  optionText: {
+    fontSize: 13,
+    color: "#9CA3AF",
+  },
+  optionTextSelected: {
+    color: "#FBBF24",
+    fontWeight: "600",
+  },
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  switchLabel: {
+    flex: 1,
+  },
+  input: {
+    backgroundColor: "#1F2937",
+    color: "#fff",
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#374151",
+    fontSize: 16,
+  },
+  inputError: {
+    borderColor: "#EF4444",
+  },
+  buttonRow: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 16,
+  },
+  cancelButton: {
+    flex: 1,
+    padding: 14,
+    borderRadius: 8,
+    backgroundColor: "#6B7280",
+    alignItems: "center",
+  },
+  submitButton: {
+    flex: 1,
+    padding: 14,
+    borderRadius: 8,
+    backgroundColor: "#10B981",
+    alignItems: "center",
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: "#fff",
+    fontWeight: "bold",
+    fontSize: 16,
+  },
+});
@@ -1,61 +1,210 @@
+import {
+  EXPIRY_OUTCOME_LABELS,
+  THRESHOLD_LABELS,
+  evaluateProposal,
+  type ApprovalPolicy,
+} from "@/api/policy";
+import type { VoteChoice } from "@/api/transactions";
 import { ThemedText } from "@/components/themed-text";
 import { ThemedView } from "@/components/themed-view";
-import React from "react";
-import { StyleSheet, TouchableOpacity, View } from "react-native";
+import { formatTimeLeft, useCountdown } from "@/hooks/use-countdown";
+import React, { useState } from "react";
+import {
+  Alert,
+  Platform,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
 import { Transaction } from "./types";
 
 interface ProposalCardProps {
   proposal: Transaction;
   currentUserId: string;
   memberProfiles: Record<string, string>;
-  onVote: (transactionId: string, voteType: "approve" | "reject") => void;
-  onExecute: (transactionId: string) => void;
+  /** The ranch's active approval policy, used to explain what it takes to pass */
+  policy: ApprovalPolicy;
+  memberCount: number;
+  groupOwnerId?: string | null;
+  onVote: (transactionId: string, voteType: VoteChoice, reason?: string) => void;
+  /** Take back the current user's vote, only offered while voting is open */
+  onRetract?: (transactionId: string) => void;
+  /** Run an approved proposal, omitted for members without the execute permission */
+  onExecute?: (transactionId: string) => void;
+  /** Withdraw the proposal, offered to the proposer and the ranch owner while it is open */
+  onCancel?: (transactionId: string) => void;
+  /** Start a new revision, offered to the proposer while it is open */
+  onAmend?: (proposal: Transaction) => void;
+  /** Open the detail screen with the discussion thread */
+  onOpen?: (transactionId: string) => void;
+  /** The proposal itself was created offline and has not reached the backend yet */
+  pendingSync?: boolean;
+  /** The current user's vote (null: its retraction) was changed offline and is waiting to be sent */
+  queuedVote?: VoteChoice | null;
+  /** Ranch members, to list who has not voted yet in the breakdown */
+  memberIds?: string[];
 }
 
+const STATUS_CONFIG = {
+  pending: { emoji: "⏳", color: "#FBBF24", text: "Pending" },
+  approved: { emoji: "✓", color: "#10B981", text: "Approved" },
+  rejected: { emoji: "✗", color: "#EF4444", text: "Rejected" },
+  executed: { emoji: "✅", color: "#8B5CF6", text: "Executed" },
+  expired: { emoji: "⌛", color: "#6B7280", text: "Expired" },
+  cancelled: { emoji: "🚫", color: "#6B7280", text: "Cancelled" },
+};
+
+// Under this much time left the countdown turns red
+const DEADLINE_WARNING_MS = 6 * 60 * 60 * 1000;
+
 export const ProposalCard: React.FC<ProposalCardProps> = ({
   proposal,
   currentUserId,
   memberProfiles,
+  policy,
+  memberCount,
+  groupOwnerId,
   onVote,
+  onRetract,
   onExecute,
+  onCancel,
+  onAmend,
+  onOpen,
+  pendingSync = false,
+  queuedVote,
+  memberIds,
 }) => {
-  const hasVoted = Object.keys(proposal.votes).includes(currentUserId);
-  const userVote = proposal.votes[currentUserId];
-  const approvalCount = Object.values(proposal.votes).filter(
-    (v) => v === "approve"
-  ).length;
-  const rejectCount = Object.values(proposal.votes).filter(
-    (v) => v === "reject"
-  ).length;
-
-  const statusColor =
-    proposal.status === "pending"
-      ? "#FBBF24"
-      : proposal.status === "approved"
-        ? "#10B981"
-        : "#EF4444";
-
-  const proposedBy = proposal.proposedBy
-    ? memberProfiles[proposal.proposedBy] || proposal.proposedBy
-    : "Unknown";
+  const [changingVote, setChangingVote] = useState(false);
+  const [reason, setReason] = useState("");
+  const [showBreakdown, setShowBreakdown] = useState(false);
+
+  // Count a vote (or retraction) still waiting in the outbox as if it had been sent
+  const votes = { ...proposal.votes };
+  if (queuedVote === null) {
+    delete votes[currentUserId];
+  } else if (queuedVote) {
+    votes[currentUserId] = queuedVote;
+  }
+  const userVote: VoteChoice | undefined = votes[currentUserId];
+  const hasVoted = userVote !== undefined;
+  const progress = evaluateProposal(
+    { ...proposal, votes },
+    policy,
+    memberCount,
+    groupOwnerId
+  );
+
+  const status = STATUS_CONFIG[proposal.status] || STATUS_CONFIG.pending;
+  const timeLeft = useCountdown(proposal.expiresAt);
+  // Past the deadline but the backend has not resolved it yet
+  const votingClosed = proposal.status === "pending" && timeLeft === 0;
+  const canVote =
+    proposal.status === "pending" && !votingClosed && !pendingSync;
+
+  const castVote = (vote: VoteChoice) => {
+    onVote(proposal.transactionID, vote, reason.trim() || undefined);
+    setReason("");
+    setChangingVote(false);
+  };
+
+  const isProposer = proposal.proposedBy === currentUserId;
+  const canCancel = canVote && !!onCancel && (isProposer || groupOwnerId === currentUserId);
+  const canAmend = canVote && !!onAmend && isProposer;
+
+  const confirmCancel = async () => {
+    const message = "Cancel this proposal? Members will no longer be able to vote on it.";
+    const confirmed =
+      Platform.OS === "web"
+        ? window.confirm(message)
+        : await new Promise((resolve) => {
+            Alert.alert("Cancel Proposal", message, [
+              { text: "Keep", style: "cancel", onPress: () => resolve(false) },
+              {
+                text: "Cancel Proposal",
+                style: "destructive",
+                onPress: () => resolve(true),
+              },
+            ]);
+          });
+    if (confirmed) {
+      onCancel?.(proposal.transactionID);
+    }
+  };
+
+  const voterIds = Object.keys(votes);
+  const notVoted = (memberIds || []).filter((memberId) => !votes[memberId]);
+  const nameOf = (userId: string) => memberProfiles[userId] || userId;
+
+  const proposedBy =
+    memberProfiles[proposal.proposedBy] || proposal.proposedBy;
 
   return (
-    <ThemedView style={styles.proposalCard}>
+    <ThemedView
+      style={[styles.proposalCard, pendingSync && styles.pendingSyncCard]}
+    >
       <View style={styles.proposalHeader}>
         <ThemedText style={styles.proposalAmount}>
-          ${parseFloat(proposal.amount).toLocaleString()}
+          {proposal.targetUserId
+            ? proposal.transactionType === "ownership_transfer"
+              ? `👑 Hand ranch to ${nameOf(proposal.targetUserId)}`
+              : `👢 Remove ${nameOf(proposal.targetUserId)}`
+            : `$${proposal.amount.toLocaleString("en-US", {
+                minimumFractionDigits: 2,
+                maximumFractionDigits: 2,
+              })}`}
         </ThemedText>
-        <View style={[styles.statusBadge, { backgroundColor: statusColor }]}>
+        <View
+          style={[styles.statusBadge, { backgroundColor: status.color }]}
+        >
           <ThemedText style={styles.statusText}>
-            {proposal.status.toUpperCase()}
+            {status.emoji} {status.text}
           </ThemedText>
         </View>
       </View>
 
+      {(pendingSync || queuedVote !== undefined) && (
+        <ThemedText style={styles.pendingSyncText}>
+          🔄 Pending sync — will be sent when you are back online
+        </ThemedText>
+      )}
+
+      {proposal.revision > 1 && (
+        <View style={styles.revisionBox}>
+          <ThemedText style={styles.revisionTitle}>
+            ✏️ Revision {proposal.revision} — votes were reset
+          </ThemedText>
+          {proposal.previousRevision &&
+            proposal.previousRevision.amount !== proposal.amount && (
+              <ThemedText style={styles.revisionDiff}>
+                Amount: ${proposal.previousRevision.amount.toLocaleString()} → $
+                {proposal.amount.toLocaleString()}
+              </ThemedText>
+            )}
+          {proposal.previousRevision &&
+            proposal.previousRevision.description !== proposal.description && (
+              <ThemedText style={styles.revisionDiff}>
+                Was: “{proposal.previousRevision.description}”
+              </ThemedText>
+            )}
+        </View>
+      )}
+
       <ThemedText style={styles.proposalDescription}>
         {proposal.description}
       </ThemedText>
 
+      {proposal.trade && (
+        <ThemedText style={styles.proposalMeta}>
+          {proposal.trade.side === "sell" ? "📉 Sell" : "📈 Buy"} {proposal.trade.quantity}{" "}
+          {proposal.trade.symbol}
+          {proposal.trade.realizedGain !== undefined &&
+            ` · realized ${proposal.trade.realizedGain >= 0 ? "+" : "-"}$${Math.abs(
+              proposal.trade.realizedGain
+            ).toFixed(2)}`}
+        </ThemedText>
+      )}
+
       <ThemedText style={styles.proposalMeta}>
         Proposed by: {proposedBy}
       </ThemedText>
@@ -67,33 +216,164 @@ export const ProposalCard: React.FC<ProposalCardProps> = ({
 
       <View style={styles.voteInfo}>
         <ThemedText style={styles.voteText}>
-          ✅ Approvals: {approvalCount}
+          👍 {progress.approvals} | 👎 {progress.rejections} |
+          {proposal.status === "pending"
+            ? ` ${progress.approvals} of ${progress.required} required`
+            : proposal.status === "approved"
+            ? " Ready to execute!"
+            : proposal.status === "executed"
+            ? " Funds added to ranch!"
+            : proposal.status === "expired"
+            ? " Voting period ended"
+            : " Not approved"}
         </ThemedText>
-        <ThemedText style={styles.voteText}>❌ Rejections: {rejectCount}</ThemedText>
+        {proposal.status === "pending" && timeLeft !== null && (
+          <ThemedText
+            style={[
+              styles.deadlineText,
+              timeLeft < DEADLINE_WARNING_MS && styles.deadlineUrgent,
+            ]}
+          >
+            {votingClosed
+              ? "⌛ Voting closed — waiting for the result"
+              : `⏱️ ${formatTimeLeft(timeLeft)} left to vote · then ${EXPIRY_OUTCOME_LABELS[
+                  policy.onExpiry
+                ].toLowerCase()}`}
+          </ThemedText>
+        )}
+        {proposal.status === "pending" && (
+          <ThemedText style={styles.policyText}>
+            📜 {THRESHOLD_LABELS[progress.threshold]} of {memberCount} member
+            {memberCount !== 1 ? "s" : ""}
+            {progress.quorumRequired > 0 &&
+              ` · quorum ${progress.approvals + progress.rejections}/${
+                progress.quorumRequired
+              }${progress.quorumMet ? " ✓" : ""}`}
+          </ThemedText>
+        )}
+        {proposal.status === "pending" && progress.vetoed && (
+          <ThemedText style={styles.vetoText}>
+            🛑 Vetoed by the ranch owner
+          </ThemedText>
+        )}
+        {proposal.status === "pending" && progress.autoApproved && (
+          <ThemedText style={styles.policyText}>
+            ⚡ Small trade — auto-approved by ranch rules
+          </ThemedText>
+        )}
       </View>
 
-      {hasVoted ? (
-        <ThemedText style={styles.votedText}>
-          You voted: {userVote === "approve" ? "✅ Approve" : "❌ Reject"}
-        </ThemedText>
-      ) : proposal.status === "pending" ? (
-        <View style={styles.voteButtons}>
-          <TouchableOpacity
-            style={[styles.voteButton, styles.approveButton]}
-            onPress={() => onVote(proposal.transactionID, "approve")}
-          >
-            <ThemedText style={styles.voteButtonText}>✅ Approve</ThemedText>
-          </TouchableOpacity>
-          <TouchableOpacity
-            style={[styles.voteButton, styles.rejectButton]}
-            onPress={() => onVote(proposal.transactionID, "reject")}
-          >
-            <ThemedText style={styles.voteButtonText}>❌ Reject</ThemedText>
-          </TouchableOpacity>
+      {voterIds.length > 0 && (
+        <TouchableOpacity onPress={() => setShowBreakdown((prev) => !prev)}>
+          <ThemedText style={styles.breakdownToggle}>
+            {showBreakdown ? "▾ Hide votes" : "▸ Show who voted"}
+          </ThemedText>
+        </TouchableOpacity>
+      )}
+      {showBreakdown && (
+        <View style={styles.breakdown}>
+          {voterIds.map((voterId) => (
+            <View key={voterId} style={styles.breakdownRow}>
+              <ThemedText style={styles.breakdownName}>
+                {votes[voterId] === "approve" ? "👍" : "👎"} {nameOf(voterId)}
+                {voterId === currentUserId ? " (you)" : ""}
+              </ThemedText>
+              {proposal.voteReasons[voterId] && (
+                <ThemedText style={styles.breakdownReason}>
+                  “{proposal.voteReasons[voterId]}”
+                </ThemedText>
+              )}
+            </View>
+          ))}
+          {notVoted.length > 0 && (
+            <ThemedText style={styles.breakdownPending}>
+              ⏳ Not voted yet: {notVoted.map(nameOf).join(", ")}
+            </ThemedText>
+          )}
+        </View>
+      )}
+
+      {/* Voting needs a proposal the backend knows about */}
+      {hasVoted && !changingVote ? (
+        <View>
+          <ThemedText style={styles.votedText}>
+            You voted: {userVote === "approve" ? "👍 Approve" : "👎 Reject"}
+          </ThemedText>
+          {canVote && (
+            <View style={styles.voteButtons}>
+              <TouchableOpacity
+                style={[styles.voteButton, styles.secondaryButton]}
+                onPress={() => setChangingVote(true)}
+              >
+                <ThemedText style={styles.voteButtonText}>
+                  ✏️ Change vote
+                </ThemedText>
+              </TouchableOpacity>
+              {onRetract && (
+                <TouchableOpacity
+                  style={[styles.voteButton, styles.secondaryButton]}
+                  onPress={() => onRetract(proposal.transactionID)}
+                >
+                  <ThemedText style={styles.voteButtonText}>
+                    ↩️ Retract
+                  </ThemedText>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+        </View>
+      ) : canVote ? (
+        <View>
+          <TextInput
+            style={styles.reasonInput}
+            placeholder="Reason (optional)"
+            placeholderTextColor="#6B7280"
+            value={reason}
+            onChangeText={setReason}
+            maxLength={200}
+          />
+          <View style={styles.voteButtons}>
+            <TouchableOpacity
+              style={[styles.voteButton, styles.approveButton]}
+              onPress={() => castVote("approve")}
+            >
+              <ThemedText style={styles.voteButtonText}>👍 Approve</ThemedText>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.voteButton, styles.rejectButton]}
+              onPress={() => castVote("reject")}
+            >
+              <ThemedText style={styles.voteButtonText}>👎 Reject</ThemedText>
+            </TouchableOpacity>
+          </View>
+          {changingVote && (
+            <TouchableOpacity onPress={() => setChangingVote(false)}>
+              <ThemedText style={styles.cancelChangeText}>
+                Keep my current vote
+              </ThemedText>
+            </TouchableOpacity>
+          )}
         </View>
       ) : null}
 
-      {proposal.status === "approved" && (
+      {(canAmend || canCancel) && (
+        <View style={styles.manageRow}>
+          {canAmend && (
+            <TouchableOpacity onPress={() => onAmend(proposal)}>
+              <ThemedText style={styles.manageText}>✏️ Amend</ThemedText>
+            </TouchableOpacity>
+          )}
+          {canCancel && (
+            <TouchableOpacity onPress={confirmCancel}>
+              <ThemedText style={[styles.manageText, styles.cancelText]}>
+                🚫 Cancel proposal
+              </ThemedText>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      {proposal.status === "approved" && onExecute && (
         <TouchableOpacity
           style={styles.executeButton}
           onPress={() => onExecute(proposal.transactionID)}
@@ -104,8 +384,20 @@ export const ProposalCard: React.FC<ProposalCardProps> = ({
         </TouchableOpacity>
       )}
 
+      {onOpen && !pendingSync && (
+        <TouchableOpacity
+          style={styles.discussionLink}
+          onPress={() => onOpen(proposal.transactionID)}
+        >
+          <ThemedText style={styles.discussionText}>
+            💬 {proposal.commentCount} comment
+            {proposal.commentCount !== 1 ? "s" : ""} · View discussion ›
+          </ThemedText>
+        </TouchableOpacity>
+      )}
+
       <ThemedText style={styles.timestampText}>
-        Created: {new Date(proposal.createdAt).toLocaleString()}
+        Created: {proposal.createdAt.toLocaleString()}
       </ThemedText>
     </ThemedView>
   );
@@ -120,6 +412,17 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: "#374151",
   },
+  pendingSyncCard: {
+    borderStyle: "dashed",
+    borderColor: "#FBBF24",
+    opacity: 0.85,
+  },
+  pendingSyncText: {
+    color: "#FBBF24",
+    fontSize: 12,
+    fontWeight: "600",
+    marginBottom: 8,
+  },
   proposalHeader: {
     flexDirection: "row",
     justifyContent: "space-between",
@@ -134,6 +437,24 @@ const styles = StyleSheet.create({
   },
   statusText: { fontSize: 12, fontWeight: "bold", color: "#000" },
   proposalDescription: { color: "#E5E7EB", marginBottom: 12 },
+  revisionBox: {
+    backgroundColor: "#1F2937",
+    borderLeftWidth: 3,
+    borderLeftColor: "#60A5FA",
+    padding: 8,
+    borderRadius: 6,
+    marginBottom: 8,
+  },
+  revisionTitle: { color: "#60A5FA", fontSize: 12, fontWeight: "600" },
+  revisionDiff: { color: "#9CA3AF", fontSize: 12, marginTop: 2 },
+  manageRow: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 16,
+    marginTop: 10,
+  },
+  manageText: { color: "#60A5FA", fontSize: 13, fontWeight: "600" },
+  cancelText: { color: "#EF4444" },
   proposalMeta: {
     color: "#9CA3AF",
     fontSize: 13,
@@ -141,6 +462,15 @@ const styles = StyleSheet.create({
   },
   voteInfo: { marginBottom: 12 },
   voteText: { color: "#9CA3AF", fontSize: 14 },
+  policyText: { color: "#6B7280", fontSize: 12, marginTop: 4 },
+  deadlineText: { color: "#9CA3AF", fontSize: 12, marginTop: 4 },
+  deadlineUrgent: { color: "#EF4444", fontWeight: "600" },
+  vetoText: {
+    color: "#EF4444",
+    fontSize: 12,
+    fontWeight: "600",
+    marginTop: 4,
+  },
   votedText: {
     color: "#10B981",
     fontSize: 14,
@@ -160,6 +490,39 @@ const styles = StyleSheet.create({
     alignItems: "center",
   },
   approveButton: { backgroundColor: "#10B981" },
+  secondaryButton: { backgroundColor: "#374151" },
+  reasonInput: {
+    backgroundColor: "#1F2937",
+    color: "#fff",
+    padding: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#374151",
+    fontSize: 14,
+  },
+  cancelChangeText: {
+    color: "#9CA3AF",
+    fontSize: 13,
+    textAlign: "center",
+    marginTop: 8,
+  },
+  breakdownToggle: { color: "#60A5FA", fontSize: 13, marginBottom: 8 },
+  breakdown: {
+    backgroundColor: "#111827",
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 12,
+    gap: 6,
+  },
+  breakdownRow: { gap: 2 },
+  breakdownName: { color: "#E5E7EB", fontSize: 14 },
+  breakdownReason: {
+    color: "#9CA3AF",
+    fontSize: 13,
+    fontStyle: "italic",
+    marginLeft: 24,
+  },
+  breakdownPending: { color: "#6B7280", fontSize: 13 },
   rejectButton: { backgroundColor: "#EF4444" },
   voteButtonText: { color: "#fff", fontWeight: "bold" },
   executeButton: {
@@ -170,6 +533,13 @@ const styles = StyleSheet.create({
     marginTop: 8,
   },
   executeButtonText: { color: "#fff", fontWeight: "bold", fontSize: 16 },
+  discussionLink: {
+    marginTop: 12,
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: "#1F2937",
+  },
+  discussionText: { color: "#60A5FA", fontSize: 14, fontWeight: "600" },
   timestampText: {
     color: "#6B7280",
     fontSize: 12,
@@ -0,0 +1,75 @@
+import { ThemedText } from "@/components/themed-text";
+import React from "react";
+import { StyleSheet, TouchableOpacity, View } from "react-native";
+
+interface VotingPeriodPickerProps {
+  /** Hours chosen for this proposal, null to use the ranch default */
+  value: number | null;
+  defaultHours: number;
+  onChange: (hours: number | null) => void;
+}
+
+const PERIOD_OPTIONS = [
+  { label: "24 hours", hours: 24 },
+  { label: "3 days", hours: 72 },
+  { label: "7 days", hours: 168 },
+];
+
+const formatHours = (hours: number) =>
+  hours % 24 === 0 ? `${hours / 24}d` : `${hours}h`;
+
+// Deadline override shown when creating a proposal
+export const VotingPeriodPicker: React.FC<VotingPeriodPickerProps> = ({
+  value,
+  defaultHours,
+  onChange,
+}) => {
+  const options = [
+    { label: `Ranch default (${formatHours(defaultHours)})`, hours: null },
+    ...PERIOD_OPTIONS.filter((option) => option.hours !== defaultHours),
+  ];
+
+  return (
+    <View style={styles.container}>
+      <ThemedText style={styles.label}>⏱️ Voting deadline</ThemedText>
+      <View style={styles.optionRow}>
+        {options.map((option) => {
+          const selected = value === option.hours;
+          return (
+            <TouchableOpacity
+              key={option.label}
+              style={[styles.option, selected && styles.optionSelected]}
+              onPress={() => onChange(option.hours)}
+            >
+              <ThemedText
+                style={[styles.optionText, selected && styles.optionTextSelected]}
+              >
+                {option.label}
+              </ThemedText>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: { marginBottom: 12 },
+  label: { fontSize: 14, color: "#9CA3AF", marginBottom: 6 },
+  optionRow: { flexDirection: "row", flexWrap: "wrap", gap: 8 },
+  option: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: "#0F1729",
+    borderWidth: 1,
+    borderColor: "#374151",
+  },
+  optionSelected: {
+    borderColor: "#FBBF24",
+    backgroundColor: "#1F2937",
+  },
+  optionText: { fontSize: 12, color: "#9CA3AF" },
+  optionTextSelected: { color: "#FBBF24", fontWeight: "600" },
+});
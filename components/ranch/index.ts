@@ -1,9 +1,17 @@
 // Export all ranch components
 export { ActionButtonsSection } from "./ActionButtons";
+export { AmendProposalModal } from "./AmendProposalModal";
+export { AuditTimeline } from "./AuditTimeline";
 export { BalanceSection } from "./BalanceSection";
+export { CommentThread } from "./CommentThread";
+export { DissolutionModal } from "./DissolutionModal";
+export { ExportLedgerModal } from "./ExportLedgerModal";
+export { InviteModal } from "./InviteModal";
 export { LedgerSection } from "./LedgerSection";
 export { MembersSection } from "./MembersSection";
 export { RanchPieChart } from "./PieChart";
+export { PolicySettingsModal } from "./PolicySettingsModal";
 export { ProposalCard } from "./ProposalCard";
-export type { RanchBalance, RanchMember, Transaction } from "./types";
+export { VotingPeriodPicker } from "./VotingPeriodPicker";
+export type { LedgerExport, RanchBalance, RanchMember, Transaction } from "./types";
 
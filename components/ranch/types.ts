@@ -1,18 +1,6 @@
 // Shared types for ranch components
 
-export interface Transaction {
-  transactionID: string;
-  groupID: string;
-  userID: string;
-  amount: string;
-  description: string;
-  status: "pending" | "approved" | "rejected" | "executed";
-  votes: Record<string, "approve" | "reject">;
-  createdAt: string;
-  proposedBy?: string;
-  transactionType?: string;
-  executedAt?: string;
-}
+export type { Transaction } from "@/api/transactions";
 
 export interface RanchBalance {
   ranchBalance: number;
@@ -25,3 +13,8 @@ export interface RanchMember {
   userId: string;
   username: string;
 }
+
+// What the treasurer asked ExportLedgerModal for
+export type LedgerExport =
+  | { format: "csv"; includeProposals: boolean }
+  | { format: "pdf"; month: Date };
@@ -3,29 +3,40 @@
  * Displays a transaction with voting buttons and status
  */
 
-import type { Transaction } from '@/api/transactions';
+import type { Transaction, VoteChoice } from '@/api/transactions';
+import { formatTimeLeft, useCountdown } from '@/hooks/use-countdown';
 import React, { useState } from 'react';
-import { Alert, StyleSheet, TouchableOpacity, View } from 'react-native';
+import { Alert, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
 import { ThemedText } from './themed-text';
 import { ThemedView } from './themed-view';
 
 interface TransactionCardProps {
   transaction: Transaction;
   currentUserId: string;
-  onVote?: (transactionId: string, vote: 'approve' | 'reject') => Promise<void>;
+  onVote?: (transactionId: string, vote: VoteChoice, reason?: string) => Promise<void>;
+  onRetract?: (transactionId: string) => Promise<void>;
   onExecute?: (transactionId: string) => Promise<void>;
   onRefresh?: () => void;
+  /** Open the detail screen with the discussion thread */
+  onOpen?: (transactionId: string) => void;
+  /** userId -> username, for the per-member vote breakdown */
+  memberProfiles?: Record<string, string>;
 }
 
 export function TransactionCard({
   transaction,
   currentUserId,
   onVote,
+  onRetract,
   onExecute,
   onRefresh,
+  onOpen,
+  memberProfiles = {},
 }: TransactionCardProps) {
   const [isVoting, setIsVoting] = useState(false);
   const [isExecuting, setIsExecuting] = useState(false);
+  const [isChangingVote, setIsChangingVote] = useState(false);
+  const [reason, setReason] = useState('');
 
   const userHasVoted = transaction.votes && currentUserId in transaction.votes;
   const userVote = userHasVoted ? transaction.votes[currentUserId] : null;
@@ -36,6 +47,11 @@ export function TransactionCard({
   const rejectCount = Object.values(votes).filter((v) => v === 'reject').length;
   const totalVotes = approveCount + rejectCount;
 
+  // Voting deadline; at 0 the proposal waits for the backend to resolve it
+  const timeLeft = useCountdown(transaction.expiresAt);
+  const votingClosed = transaction.status === 'pending' && timeLeft === 0;
+  const canVote = transaction.status === 'pending' && !votingClosed && !!onVote;
+
   // Status colors
   const getStatusColor = () => {
     switch (transaction.status) {
@@ -45,6 +61,9 @@ export function TransactionCard({
         return '#EF4444';
       case 'executed':
         return '#8B5CF6';
+      case 'expired':
+      case 'cancelled':
+        return '#6B7280';
       default:
         return '#F59E0B';
     }
@@ -58,17 +77,23 @@ export function TransactionCard({
         return '❌';
       case 'executed':
         return '💸';
+      case 'expired':
+        return '⌛';
+      case 'cancelled':
+        return '🚫';
       default:
         return '⏳';
     }
   };
 
-  const handleVote = async (vote: 'approve' | 'reject') => {
-    if (!onVote || userHasVoted) return;
+  const handleVote = async (vote: VoteChoice) => {
+    if (!onVote || (userHasVoted && !isChangingVote)) return;
 
     try {
       setIsVoting(true);
-      await onVote(transaction.transactionID, vote);
+      await onVote(transaction.transactionID, vote, reason.trim() || undefined);
+      setReason('');
+      setIsChangingVote(false);
       onRefresh?.();
     } catch (error) {
       Alert.alert('Error', error instanceof Error ? error.message : 'Failed to vote');
@@ -77,12 +102,26 @@ export function TransactionCard({
     }
   };
 
+  const handleRetract = async () => {
+    if (!onRetract) return;
+
+    try {
+      setIsVoting(true);
+      await onRetract(transaction.transactionID);
+      onRefresh?.();
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to retract vote');
+    } finally {
+      setIsVoting(false);
+    }
+  };
+
   const handleExecute = async () => {
     if (!onExecute) return;
 
     Alert.alert(
       'Execute Transaction',
-      `Execute ${transaction.description} for $${parseFloat(transaction.amount).toFixed(2)}?`,
+      `Execute ${transaction.description} for $${transaction.amount.toFixed(2)}?`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -121,7 +160,7 @@ export function TransactionCard({
 
       {/* Amount */}
       <ThemedText style={styles.amount}>
-        ${parseFloat(transaction.amount).toFixed(2)}
+        ${transaction.amount.toFixed(2)}
       </ThemedText>
 
       {/* Vote Count */}
@@ -130,20 +169,69 @@ export function TransactionCard({
           <ThemedText style={styles.voteText}>
             👍 {approveCount} | 👎 {rejectCount} ({totalVotes} votes)
           </ThemedText>
+          {timeLeft !== null && (
+            <ThemedText style={styles.deadlineText}>
+              {votingClosed ? '⌛ Voting closed' : `⏱️ ${formatTimeLeft(timeLeft)} left to vote`}
+            </ThemedText>
+          )}
+        </View>
+      )}
+
+      {/* Per-member Breakdown */}
+      {totalVotes > 0 && (
+        <View style={styles.breakdown}>
+          {Object.entries(votes).map(([voterId, vote]) => (
+            <ThemedText key={voterId} style={styles.breakdownText}>
+              {vote === 'approve' ? '👍' : '👎'} {memberProfiles[voterId] || voterId}
+              {transaction.voteReasons[voterId] ? ` — "${transaction.voteReasons[voterId]}"` : ''}
+            </ThemedText>
+          ))}
         </View>
       )}
 
       {/* User's Vote */}
-      {userHasVoted && (
+      {userHasVoted && !isChangingVote && (
         <View style={styles.userVote}>
           <ThemedText style={styles.voteText}>
             You voted: {userVote === 'approve' ? '👍 Approve' : '👎 Reject'}
           </ThemedText>
+          {canVote && (
+            <View style={styles.buttonContainer}>
+              <TouchableOpacity
+                style={[styles.button, styles.secondaryButton]}
+                onPress={() => setIsChangingVote(true)}
+                disabled={isVoting}
+              >
+                <ThemedText style={styles.buttonText}>✏️ Change</ThemedText>
+              </TouchableOpacity>
+              {onRetract && (
+                <TouchableOpacity
+                  style={[styles.button, styles.secondaryButton]}
+                  onPress={handleRetract}
+                  disabled={isVoting}
+                >
+                  <ThemedText style={styles.buttonText}>
+                    {isVoting ? '...' : '↩️ Retract'}
+                  </ThemedText>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
         </View>
       )}
 
       {/* Voting Buttons */}
-      {transaction.status === 'pending' && !userHasVoted && onVote && (
+      {canVote && (!userHasVoted || isChangingVote) && (
+        <TextInput
+          style={styles.reasonInput}
+          placeholder="Reason (optional)"
+          placeholderTextColor="#666"
+          value={reason}
+          onChangeText={setReason}
+          maxLength={200}
+        />
+      )}
+      {canVote && (!userHasVoted || isChangingVote) && (
         <View style={styles.buttonContainer}>
           <TouchableOpacity
             style={[styles.button, styles.approveButton]}
@@ -179,9 +267,18 @@ export function TransactionCard({
         </TouchableOpacity>
       )}
 
+      {/* Discussion */}
+      {onOpen && (
+        <TouchableOpacity onPress={() => onOpen(transaction.transactionID)}>
+          <ThemedText style={styles.discussionText}>
+            💬 {transaction.commentCount} comment{transaction.commentCount !== 1 ? 's' : ''} · View discussion ›
+          </ThemedText>
+        </TouchableOpacity>
+      )}
+
       {/* Date */}
       <ThemedText style={styles.date}>
-        {new Date(transaction.createdAt).toLocaleDateString('en-US', {
+        {transaction.createdAt.toLocaleDateString('en-US', {
           month: 'short',
           day: 'numeric',
           hour: '2-digit',
@@ -233,6 +330,11 @@ const styles = StyleSheet.create({
     fontSize: 14,
     opacity: 0.8,
   },
+  deadlineText: {
+    fontSize: 12,
+    opacity: 0.6,
+    marginTop: 2,
+  },
   userVote: {
     backgroundColor: '#2D2F44',
     padding: 8,
@@ -249,6 +351,23 @@ const styles = StyleSheet.create({
     borderRadius: 8,
     alignItems: 'center',
   },
+  secondaryButton: {
+    backgroundColor: '#374151',
+  },
+  reasonInput: {
+    backgroundColor: '#2D2F44',
+    color: '#FFFFFF',
+    padding: 10,
+    borderRadius: 8,
+    fontSize: 14,
+  },
+  breakdown: {
+    gap: 2,
+  },
+  breakdownText: {
+    fontSize: 13,
+    opacity: 0.8,
+  },
   approveButton: {
     backgroundColor: '#10B981',
   },
@@ -264,6 +383,12 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     fontSize: 14,
   },
+  discussionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#60A5FA',
+    marginTop: 4,
+  },
   date: {
     fontSize: 12,
     opacity: 0.6,
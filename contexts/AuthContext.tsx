@@ -1,9 +1,27 @@
-import * as SecureStore from 'expo-secure-store';
-import React, { createContext, useContext, useEffect, useState } from 'react';
+import { ApiError, clearOutbox, clearQueryCache, refreshToken, setUnauthorizedHandler } from '@/api';
+import { getTokenExpiry } from '@/utils/jwt';
+import { getItem, removeItem, setItem } from '@/utils/storage';
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
+
+// Refresh this long before the token's `exp` so in-flight requests don't race it
+const REFRESH_MARGIN_MS = 60 * 1000;
+// How soon to try again when a refresh couldn't reach the backend
+const REFRESH_RETRY_MS = 30 * 1000;
+// setTimeout overflows past a 32-bit signed delay and fires immediately
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+type RefreshResult =
+  | { status: 'refreshed'; token: string }
+  // The backend refused the token (401/403), the session is over
+  | { status: 'rejected' }
+  // Offline or the backend failed, keep the session and try again later
+  | { status: 'unavailable' };
 
 interface AuthContextType {
   isAuthenticated: boolean;
   isLoading: boolean;
+  /** True after the backend refused to refresh the session, until the next login */
+  sessionExpired: boolean;
   token: string | null;
   userId: string | null;
   username: string | null;
@@ -16,9 +34,16 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [sessionExpired, setSessionExpired] = useState(false);
   const [token, setToken] = useState<string | null>(null);
   const [userId, setUserId] = useState<string | null>(null);
   const [username, setUsername] = useState<string | null>(null);
+  // Bumped each time a refresh couldn't reach the backend, to schedule another attempt
+  const [refreshRetries, setRefreshRetries] = useState(0);
+
+  // Latest token for the 401 handler, and the refresh currently in flight (shared by concurrent 401s)
+  const tokenRef = useRef<string | null>(null);
+  const refreshInFlight = useRef<Promise<RefreshResult> | null>(null);
 
   // Check for stored auth on app start
   useEffect(() => {
@@ -27,15 +52,26 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   const checkAuth = async () => {
     try {
-      const storedToken = await SecureStore.getItemAsync('authToken');
-      const storedUserId = await SecureStore.getItemAsync('userId');
-      const storedUsername = await SecureStore.getItemAsync('username');
-      
+      const storedToken = await getItem('authToken');
+      const storedUserId = await getItem('userId');
+      const storedUsername = await getItem('username');
+
       if (storedToken && storedUserId) {
-        setToken(storedToken);
-        setUserId(storedUserId);
-        setUsername(storedUsername);
-        setIsAuthenticated(true);
+        const expiresAt = getTokenExpiry(storedToken);
+        if (expiresAt !== null && expiresAt <= Date.now()) {
+          console.log('⏰ Stored token has expired, trying to refresh');
+          tokenRef.current = storedToken;
+          const result = await refreshSession();
+          if (result.status === 'rejected') {
+            await expireSession();
+          } else if (result.status === 'unavailable') {
+            // Offline: stay signed in on the cached data, the refresh timer keeps retrying
+            applySession(storedToken, storedUserId, storedUsername);
+          }
+          return;
+        }
+
+        applySession(storedToken, storedUserId, storedUsername);
         console.log('✅ Found stored auth, user is logged in');
       } else {
         console.log('ℹ️ No stored auth found');
@@ -47,16 +83,123 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  const applySession = (newToken: string, newUserId: string, newUsername: string | null) => {
+    tokenRef.current = newToken;
+    setToken(newToken);
+    setUserId(newUserId);
+    setUsername(newUsername);
+    setIsAuthenticated(true);
+    setSessionExpired(false);
+    setRefreshRetries(0);
+  };
+
+  // Forget the token. The stored userId is kept so the next login can tell whether the
+  // cached responses and queued offline mutations still belong to whoever signs in.
+  const clearSession = async () => {
+    await removeItem('authToken');
+    await removeItem('username');
+
+    tokenRef.current = null;
+    setToken(null);
+    setUserId(null);
+    setUsername(null);
+    setIsAuthenticated(false);
+  };
+
+  // Swap the current token for a fresh one. Only a 401/403 from /auth/refresh counts as rejected,
+  // a network error or a server failure leaves the session as it is.
+  const refreshSession = (): Promise<RefreshResult> => {
+    if (refreshInFlight.current) {
+      return refreshInFlight.current;
+    }
+
+    const currentToken = tokenRef.current;
+    if (!currentToken) {
+      return Promise.resolve({ status: 'rejected' });
+    }
+
+    refreshInFlight.current = (async () => {
+      try {
+        console.log('🔄 Refreshing auth token...');
+        const data = await refreshToken(currentToken);
+        await setItem('authToken', data.token);
+        await setItem('userId', data.userId);
+        await setItem('username', data.username);
+        applySession(data.token, data.userId, data.username);
+        console.log('✅ Auth token refreshed');
+        return { status: 'refreshed', token: data.token };
+      } catch (error) {
+        console.error('❌ Token refresh failed:', error);
+        if (error instanceof ApiError && (error.status === 401 || error.status === 403)) {
+          return { status: 'rejected' };
+        }
+        return { status: 'unavailable' };
+      } finally {
+        refreshInFlight.current = null;
+      }
+    })();
+
+    return refreshInFlight.current;
+  };
+
+  // Refresh refused: drop the session, the (tabs) auth gate sends the user to log in again
+  const expireSession = async () => {
+    console.log('⏰ Session expired, signing out');
+    await clearSession();
+    setSessionExpired(true);
+  };
+
+  // Any 401 from the API goes through here: refresh once, and end the session only if the backend refuses
+  useEffect(() => {
+    setUnauthorizedHandler(async (failedToken) => {
+      // Another request already refreshed past this token
+      if (tokenRef.current && tokenRef.current !== failedToken) {
+        return tokenRef.current;
+      }
+      const result = await refreshSession();
+      if (result.status === 'rejected') {
+        await expireSession();
+      }
+      return result.status === 'refreshed' ? result.token : null;
+    });
+    return () => setUnauthorizedHandler(null);
+  }, []);
+
+  // Schedule a refresh shortly before the current token expires, or a retry after an unreachable backend
+  useEffect(() => {
+    if (!token) return;
+    const expiresAt = getTokenExpiry(token);
+    if (expiresAt === null) return;
+
+    const untilRefresh = Math.max(expiresAt - Date.now() - REFRESH_MARGIN_MS, 0);
+    const delay = Math.min(refreshRetries > 0 ? REFRESH_RETRY_MS : untilRefresh, MAX_TIMER_DELAY_MS);
+    console.log(`⏱️ Token refresh scheduled in ${Math.round(delay / 1000)}s`);
+    const timer = setTimeout(async () => {
+      const result = await refreshSession();
+      if (result.status === 'rejected') {
+        await expireSession();
+      } else if (result.status === 'unavailable') {
+        setRefreshRetries((retries) => retries + 1);
+      }
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [token, refreshRetries]);
+
   const login = async (newToken: string, newUserId: string, newUsername: string) => {
     try {
-      await SecureStore.setItemAsync('authToken', newToken);
-      await SecureStore.setItemAsync('userId', newUserId);
-      await SecureStore.setItemAsync('username', newUsername);
-      
-      setToken(newToken);
-      setUserId(newUserId);
-      setUsername(newUsername);
-      setIsAuthenticated(true);
+      // A different user than the one whose session expired: drop what was left behind
+      const previousUserId = await getItem('userId');
+      if (previousUserId && previousUserId !== newUserId) {
+        await clearQueryCache();
+        await clearOutbox();
+      }
+
+      await setItem('authToken', newToken);
+      await setItem('userId', newUserId);
+      await setItem('username', newUsername);
+
+      applySession(newToken, newUserId, newUsername);
       console.log('✅ User logged in and credentials stored');
     } catch (error) {
       console.error('❌ Error storing auth:', error);
@@ -66,14 +209,11 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   const logout = async () => {
     try {
-      await SecureStore.deleteItemAsync('authToken');
-      await SecureStore.deleteItemAsync('userId');
-      await SecureStore.deleteItemAsync('username');
-      
-      setToken(null);
-      setUserId(null);
-      setUsername(null);
-      setIsAuthenticated(false);
+      await clearSession();
+      await removeItem('userId');
+      // Cached responses and queued offline mutations belong to this user
+      await clearQueryCache();
+      await clearOutbox();
       console.log('✅ User logged out');
     } catch (error) {
       console.error('❌ Error clearing auth:', error);
@@ -86,6 +226,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       value={{
         isAuthenticated,
         isLoading,
+        sessionExpired,
         token,
         userId,
         username,
@@ -0,0 +1,9 @@
+import { isOffline, subscribeConnectivity } from '@/api';
+import { useSyncExternalStore } from 'react';
+
+/**
+ * True while the backend is unreachable (the last request failed with a network error)
+ */
+export function useIsOffline() {
+  return useSyncExternalStore(subscribeConnectivity, isOffline, isOffline);
+}
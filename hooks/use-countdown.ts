@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * "2d 4h", "3h 12m", "4m 10s"
+ */
+export function formatTimeLeft(ms: number): string {
+  if (ms >= DAY_MS) {
+    return `${Math.floor(ms / DAY_MS)}d ${Math.floor((ms % DAY_MS) / HOUR_MS)}h`;
+  }
+  if (ms >= HOUR_MS) {
+    return `${Math.floor(ms / HOUR_MS)}h ${Math.floor((ms % HOUR_MS) / MINUTE_MS)}m`;
+  }
+  return `${Math.floor(ms / MINUTE_MS)}m ${Math.floor((ms % MINUTE_MS) / 1000)}s`;
+}
+
+/**
+ * Milliseconds left until `deadline` (0 once passed, null without a deadline).
+ * Ticks every second in the last hour and every minute before that.
+ */
+export function useCountdown(deadline?: Date): number | null {
+  const deadlineMs = deadline?.getTime();
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => {
+    if (deadlineMs === undefined) return;
+    const remaining = deadlineMs - now;
+    if (remaining <= 0) return;
+
+    const interval = remaining > HOUR_MS ? MINUTE_MS : 1000;
+    const timer = setTimeout(() => setNow(Date.now()), Math.min(interval, remaining));
+    return () => clearTimeout(timer);
+  }, [deadlineMs, now]);
+
+  return deadlineMs === undefined ? null : Math.max(0, deadlineMs - now);
+}
@@ -0,0 +1,24 @@
+import { subscribeToGroup, type GroupEvent } from '@/api';
+import { useEffect, useRef } from 'react';
+
+/**
+ * Receive realtime events for the given groups while the component is mounted.
+ * The handler may change every render; the sockets stay open as long as the group list does.
+ */
+export function useGroupEvents(
+  groupIds: string[],
+  token: string | null,
+  onEvent: (event: GroupEvent) => void
+) {
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+  const groupKey = groupIds.join(',');
+
+  useEffect(() => {
+    if (!token || !groupKey) return;
+    const unsubscribes = groupKey
+      .split(',')
+      .map((groupId) => subscribeToGroup(groupId, token, (event) => onEventRef.current(event)));
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, [groupKey, token]);
+}
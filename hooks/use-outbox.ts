@@ -0,0 +1,82 @@
+import {
+  checkHealth,
+  flushOutbox,
+  getOutbox,
+  isOffline,
+  loadOutbox,
+  subscribeConnectivity,
+  subscribeOutbox,
+  type OutboxConflict,
+} from '@/api';
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+
+// Backoff between retries while mutations are waiting, starts over whenever the queue moves
+const RETRY_MIN_MS = 5 * 1000;
+const RETRY_MAX_MS = 2 * 60 * 1000;
+
+/**
+ * Mutations queued while offline, oldest first
+ */
+export function useOutbox() {
+  return useSyncExternalStore(subscribeOutbox, getOutbox, getOutbox);
+}
+
+async function flushAndReport(token: string, onConflicts: (conflicts: OutboxConflict[]) => void) {
+  const conflicts = await flushOutbox(token);
+  if (conflicts.length > 0) {
+    onConflicts(conflicts);
+  }
+}
+
+/**
+ * Replay the outbox whenever the backend becomes reachable (and once on mount),
+ * and with a backoff for as long as anything stays queued.
+ * Mount once, inside the signed-in part of the app.
+ */
+export function useOutboxSync(token: string | null, onConflicts: (conflicts: OutboxConflict[]) => void) {
+  const outbox = useOutbox();
+  const onConflictsRef = useRef(onConflicts);
+  onConflictsRef.current = onConflicts;
+
+  useEffect(() => {
+    if (!token) return;
+
+    const flush = () => flushAndReport(token, onConflictsRef.current);
+
+    loadOutbox().then(flush);
+    return subscribeConnectivity((offline) => {
+      if (!offline) flush();
+    });
+  }, [token]);
+
+  // Keep retrying while anything is queued: offline, poll /health until the backend answers
+  // (the connectivity listener above then flushes), online, replay again after a replay
+  // paused on a 5xx, 408, 429 or 401
+  useEffect(() => {
+    if (!token || outbox.length === 0) return;
+    let cancelled = false;
+    let delay = RETRY_MIN_MS;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const retry = async () => {
+      try {
+        if (isOffline()) {
+          await checkHealth();
+        } else {
+          await flushAndReport(token, onConflictsRef.current);
+        }
+      } catch {
+        // Still unreachable, try again after the next delay
+      }
+      if (cancelled) return;
+      delay = Math.min(delay * 2, RETRY_MAX_MS);
+      timer = setTimeout(retry, delay);
+    };
+
+    timer = setTimeout(retry, delay);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [token, outbox.length]);
+}
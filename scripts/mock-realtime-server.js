@@ -0,0 +1,159 @@
+#!/usr/bin/env node
+
+/**
+ * Mock realtime event server for local development, driven by hand (there is no automated test suite).
+ * Speaks just enough WebSocket (no dependencies) to serve `/ws/groups/<groupId>` like the backend,
+ * and lets you push events by hand:
+ *
+ *   npm run mock:realtime                       # listens on :8090, set EXPO_PUBLIC_REALTIME_URL=ws://localhost:8090
+ *   curl -X POST localhost:8090/emit -d '{"type":"balance_changed","groupId":"<id>","balance":1234.5}'
+ *
+ * With --auto it also emits a random proposal or balance change for every connected group every few seconds.
+ */
+
+const { Buffer } = require('buffer');
+const crypto = require('crypto');
+const http = require('http');
+
+const PORT = Number(process.env.PORT || 8090);
+const AUTO = process.argv.includes('--auto');
+const AUTO_INTERVAL_MS = 5000;
+
+// groupId -> Set of sockets
+const subscribers = new Map();
+
+function encodeFrame(text) {
+  const payload = Buffer.from(text);
+  let header;
+  if (payload.length < 126) {
+    header = Buffer.from([0x81, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x81;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x81;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+function broadcast(event) {
+  const sockets = subscribers.get(event.groupId);
+  const count = sockets ? sockets.size : 0;
+  if (sockets) {
+    const frame = encodeFrame(JSON.stringify(event));
+    sockets.forEach((socket) => socket.write(frame));
+  }
+  console.log(`📡 ${event.type} -> ${event.groupId} (${count} client${count === 1 ? '' : 's'})`);
+  return count;
+}
+
+const server = http.createServer((req, res) => {
+  if (req.method === 'POST' && req.url === '/emit') {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      try {
+        const event = JSON.parse(body);
+        if (!event.type || !event.groupId) throw new Error('type and groupId are required');
+        const delivered = broadcast(event);
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ delivered }));
+      } catch (error) {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ detail: error.message }));
+      }
+    });
+    return;
+  }
+
+  if (req.method === 'GET' && req.url === '/health') {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ status: 'healthy', version: 'mock', service: 'realtime' }));
+    return;
+  }
+
+  res.writeHead(404);
+  res.end();
+});
+
+server.on('upgrade', (req, socket) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  const match = url.pathname.match(/^\/ws\/groups\/([^/]+)$/);
+  const key = req.headers['sec-websocket-key'];
+  if (!match || !key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+
+  const groupId = decodeURIComponent(match[1]);
+  const accept = crypto
+    .createHash('sha1')
+    .update(key + '258EAFA5-E914-47DA-95CA-C5AB0DC85B11')
+    .digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+      'Upgrade: websocket\r\n' +
+      'Connection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  if (!subscribers.has(groupId)) subscribers.set(groupId, new Set());
+  subscribers.get(groupId).add(socket);
+  console.log(`✅ Client subscribed to ${groupId}`);
+
+  const unsubscribe = () => {
+    const sockets = subscribers.get(groupId);
+    if (!sockets || !sockets.delete(socket)) return;
+    if (sockets.size === 0) subscribers.delete(groupId);
+    console.log(`👋 Client left ${groupId}`);
+  };
+
+  // Clients only ever send close (and pings); answer close, ignore the rest
+  socket.on('data', (data) => {
+    const opcode = data[0] & 0x0f;
+    if (opcode === 0x8) {
+      socket.end(Buffer.from([0x88, 0x00]));
+      unsubscribe();
+    }
+  });
+  socket.on('close', unsubscribe);
+  socket.on('error', unsubscribe);
+});
+
+if (AUTO) {
+  setInterval(() => {
+    subscribers.forEach((_sockets, groupId) => {
+      if (Math.random() < 0.5) {
+        broadcast({
+          type: 'balance_changed',
+          groupId,
+          balance: Math.round(Math.random() * 1000000) / 100,
+        });
+      } else {
+        broadcast({
+          type: 'proposal_created',
+          groupId,
+          transaction: {
+            transactionID: `mock-${Date.now()}`,
+            groupID: groupId,
+            proposedBy: 'mock-user',
+            amount: Math.round(Math.random() * 50000) / 100,
+            description: 'Mock proposal from the realtime server',
+            status: 'pending',
+            votes: {},
+            createdAt: new Date().toISOString(),
+          },
+        });
+      }
+    });
+  }, AUTO_INTERVAL_MS);
+}
+
+server.listen(PORT, () => {
+  console.log(`🛰️  Mock realtime server on ws://localhost:${PORT}${AUTO ? ' (auto events on)' : ''}`);
+});
@@ -0,0 +1,53 @@
+import { File, Paths } from 'expo-file-system';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { Platform } from 'react-native';
+
+// Hand generated files to the user: the share sheet on native, a download (or print dialog) on web.
+
+const downloadOnWeb = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+const shareOnNative = async (uri: string, mimeType: string, uti: string, title: string) => {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+  await Sharing.shareAsync(uri, { mimeType, UTI: uti, dialogTitle: title });
+};
+
+// Keep filenames portable: "Ranch #1 / 2025" -> "Ranch-1-2025"
+export const safeFilename = (name: string): string =>
+  name.replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '') || 'export';
+
+export const shareCsv = async (filename: string, csv: string): Promise<void> => {
+  if (Platform.OS === 'web') {
+    downloadOnWeb(filename, csv, 'text/csv;charset=utf-8');
+    return;
+  }
+  const file = new File(Paths.cache, filename);
+  if (file.exists) file.delete();
+  file.create();
+  file.write(csv);
+  await shareOnNative(file.uri, 'text/csv', 'public.comma-separated-values-text', filename);
+};
+
+// Web has no PDF renderer here, the browser's print dialog offers "Save as PDF"
+export const sharePdf = async (filename: string, html: string): Promise<void> => {
+  if (Platform.OS === 'web') {
+    await Print.printAsync({ html });
+    return;
+  }
+  const { uri } = await Print.printToFileAsync({ html });
+  const file = new File(Paths.cache, filename);
+  if (file.exists) file.delete();
+  new File(uri).move(file);
+  await shareOnNative(file.uri, 'application/pdf', 'com.adobe.pdf', filename);
+};
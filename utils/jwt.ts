@@ -0,0 +1,35 @@
+// Minimal JWT helpers. The signature is never checked here, the backend does that.
+
+interface JwtPayload {
+  exp?: number;
+  [claim: string]: unknown;
+}
+
+const decodeBase64Url = (segment: string): string => {
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  return decodeURIComponent(
+    atob(padded)
+      .split('')
+      .map((char) => '%' + ('00' + char.charCodeAt(0).toString(16)).slice(-2))
+      .join('')
+  );
+};
+
+// Returns null for anything that is not a three-segment token with a JSON payload
+export const decodeJwtPayload = (token: string): JwtPayload | null => {
+  const segments = token.split('.');
+  if (segments.length !== 3) return null;
+  try {
+    const payload = JSON.parse(decodeBase64Url(segments[1]));
+    return payload && typeof payload === 'object' ? (payload as JwtPayload) : null;
+  } catch {
+    return null;
+  }
+};
+
+// Expiry as epoch milliseconds, or null when the token carries no `exp` claim
+export const getTokenExpiry = (token: string): number | null => {
+  const exp = decodeJwtPayload(token)?.exp;
+  return typeof exp === 'number' ? exp * 1000 : null;
+};
@@ -0,0 +1,142 @@
+import type { MonthlyStatement } from '@/api/ledger';
+import type { Transaction } from '@/api/transactions';
+
+// Spreadsheet and printable renderings of a ranch's books, for the treasurer.
+
+const CSV_COLUMNS = [
+  'Date',
+  'Status',
+  'Type',
+  'Description',
+  'Amount',
+  'Realized Gain',
+  'Proposed By',
+  'Approvals',
+  'Rejections',
+  'Executed At',
+  'Transaction ID',
+];
+
+const csvCell = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const isoDay = (date: Date) => date.toISOString().slice(0, 10);
+
+export const ledgerToCsv = (
+  transactions: Transaction[],
+  memberProfiles: Record<string, string>
+): string => {
+  const rows = transactions.map((txn) => {
+    const votes = Object.values(txn.votes);
+    return [
+      isoDay(txn.executedAt ?? txn.createdAt),
+      txn.status,
+      txn.transactionType || '',
+      txn.description,
+      txn.amount.toFixed(2),
+      txn.trade?.realizedGain !== undefined ? txn.trade.realizedGain.toFixed(2) : '',
+      memberProfiles[txn.proposedBy] || txn.proposedBy,
+      votes.filter((vote) => vote === 'approve').length,
+      votes.filter((vote) => vote === 'reject').length,
+      txn.executedAt ? txn.executedAt.toISOString() : '',
+      txn.transactionID,
+    ]
+      .map(csvCell)
+      .join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+};
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const money = (amount: number) =>
+  `${amount < 0 ? '-' : ''}$${Math.abs(amount).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+export const statementHtml = (
+  statement: MonthlyStatement,
+  ranchName: string,
+  memberProfiles: Record<string, string>
+): string => {
+  const monthLabel = statement.month.toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+  const nameOf = (userId: string) => escapeHtml(memberProfiles[userId] || userId);
+
+  const movementRows = statement.movements.length
+    ? statement.movements
+        .map(
+          ({ transaction, effect, balance }) => `
+        <tr>
+          <td>${(transaction.executedAt ?? transaction.createdAt).toLocaleDateString()}</td>
+          <td>${escapeHtml(transaction.description)}</td>
+          <td>${escapeHtml(transaction.transactionType || '')}</td>
+          <td>${nameOf(transaction.proposedBy)}</td>
+          <td class="num ${effect < 0 ? 'out' : 'in'}">${money(effect)}</td>
+          <td class="num">${money(balance)}</td>
+        </tr>`
+        )
+        .join('')
+    : '<tr><td colspan="6" class="empty">No movements this month</td></tr>';
+
+  const contributionRows = Object.entries(statement.contributions)
+    .sort(([, a], [, b]) => b - a)
+    .map(([userId, amount]) => `<tr><td>${nameOf(userId)}</td><td class="num">${money(amount)}</td></tr>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<style>
+  body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #111827; padding: 24px; }
+  h1 { margin: 0; font-size: 22px; }
+  h2 { font-size: 16px; margin-top: 28px; }
+  .subtitle { color: #6B7280; margin-top: 4px; }
+  .summary { display: flex; gap: 24px; margin-top: 20px; }
+  .summary div { border: 1px solid #E5E7EB; border-radius: 8px; padding: 12px 16px; }
+  .summary span { display: block; color: #6B7280; font-size: 12px; }
+  .summary strong { font-size: 18px; }
+  table { width: 100%; border-collapse: collapse; margin-top: 8px; font-size: 12px; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #E5E7EB; }
+  th { background: #F3F4F6; }
+  .num { text-align: right; white-space: nowrap; }
+  .in { color: #047857; }
+  .out { color: #B91C1C; }
+  .empty { color: #6B7280; font-style: italic; text-align: center; }
+  footer { margin-top: 32px; color: #9CA3AF; font-size: 11px; }
+</style>
+</head>
+<body>
+  <h1>🤠 ${escapeHtml(ranchName)}</h1>
+  <div class="subtitle">Monthly statement · ${monthLabel}</div>
+
+  <div class="summary">
+    <div><span>Opening balance</span><strong>${money(statement.openingBalance)}</strong></div>
+    <div><span>Net movement</span><strong>${money(statement.closingBalance - statement.openingBalance)}</strong></div>
+    <div><span>Closing balance</span><strong>${money(statement.closingBalance)}</strong></div>
+  </div>
+
+  <h2>Movements</h2>
+  <table>
+    <tr><th>Date</th><th>Description</th><th>Type</th><th>Proposed by</th><th class="num">Amount</th><th class="num">Balance</th></tr>
+    ${movementRows}
+  </table>
+
+  <h2>Member contributions</h2>
+  <table>
+    <tr><th>Member</th><th class="num">Deposited</th></tr>
+    ${contributionRows || '<tr><td colspan="2" class="empty">No deposits this month</td></tr>'}
+  </table>
+
+  <footer>Generated by FrontierFund on ${new Date().toLocaleString()}</footer>
+</body>
+</html>`;
+};
@@ -0,0 +1,43 @@
+import * as SecureStore from 'expo-secure-store';
+import { Platform } from 'react-native';
+
+// Platform-aware key/value storage (works on web and native).
+// Native uses SecureStore, web falls back to localStorage.
+
+export const getItem = async (key: string): Promise<string | null> => {
+  if (Platform.OS === 'web') {
+    return localStorage.getItem(key);
+  }
+  return await SecureStore.getItemAsync(key);
+};
+
+export const setItem = async (key: string, value: string): Promise<void> => {
+  if (Platform.OS === 'web') {
+    localStorage.setItem(key, value);
+  } else {
+    await SecureStore.setItemAsync(key, value);
+  }
+};
+
+export const removeItem = async (key: string): Promise<void> => {
+  if (Platform.OS === 'web') {
+    localStorage.removeItem(key);
+  } else {
+    await SecureStore.deleteItemAsync(key);
+  }
+};
+
+// JSON helpers, a corrupt value is treated as missing
+export const getJSON = async <T>(key: string): Promise<T | null> => {
+  const value = await getItem(key);
+  if (!value) return null;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+};
+
+export const setJSON = async (key: string, value: unknown): Promise<void> => {
+  await setItem(key, JSON.stringify(value));
+};